@@ -4,12 +4,78 @@ import fs from 'node:fs';
 import path from 'node:path';
 import readline from 'node:readline';
 import { fileURLToPath } from 'node:url';
-import { Command } from 'commander';
+import { Command, InvalidArgumentError, Option } from 'commander';
+import {
+  type CategoryOption,
+  collectCategoryNames,
+  findCategory,
+  resolveCategories,
+} from './lib/categories.js';
 import type { Config } from './lib/config.js';
-import { getConfig, hasConfig, saveConfig } from './lib/config.js';
-import { parseCSV, validateCSV } from './lib/converter.js';
-import { handleCliError } from './lib/errors.js';
-import { listAccounts, listBudgets, uploadTransactions } from './lib/uploader.js';
+import {
+  findAccountForFile,
+  getConfig,
+  hasConfig,
+  loadAccountSettings,
+  loadCustomFormats,
+  loadRules,
+  saveConfig,
+  saveCustomFormats,
+  saveRules,
+} from './lib/config.js';
+import {
+  parseStatement,
+  parseStatementContent,
+  readSampleRows,
+  readStream,
+} from './lib/converter.js';
+import { type DuplicateCheck, excludeRows, findDuplicates } from './lib/duplicates.js';
+import {
+  ConfigError,
+  type ErrorResult,
+  EXIT_CODES,
+  getErrorMessage,
+  handleCliError,
+  toErrorResult,
+  UnknownFormatError,
+  ValidationError,
+} from './lib/errors.js';
+import { setLogger } from './lib/logger.js';
+import { MAPPING_FIELDS, suggestMapping } from './lib/mapping.js';
+import { OUTPUT_FORMATS, type OutputFormat, printRecord, printRecords } from './lib/output.js';
+import { getBankConfigs, matchesFilename } from './lib/parsers/bank2ynab-fetcher.js';
+import { normalizeEncoding } from './lib/parsers/encoding.js';
+import { IMPORT_ID_STRATEGIES, type ImportIdStrategy } from './lib/parsers/import-id.js';
+import type { QifDateOrder } from './lib/parsers/qif.js';
+import {
+  prepareTransactions,
+  resolveAccountContext,
+  type TransactionDefaults,
+} from './lib/prepare.js';
+import { type BalanceCheck, checkBalance } from './lib/reconcile.js';
+import { describeRule } from './lib/rules.js';
+import {
+  type AccountSettings,
+  CLEARED_STATES,
+  type ClearedState,
+  customFormatSchema,
+  dateParamSchema,
+  FLAG_COLORS,
+  type Rule,
+  rowListSchema,
+  ruleSchema,
+} from './lib/schemas.js';
+import type { FlagColor, ParsedStatement, SkippedRow, Transaction } from './lib/types.js';
+import {
+  listAccounts,
+  listBudgets,
+  listCategories,
+  markTransactionsCleared,
+  resolveAccountId,
+  resolveBudgetId,
+  uploadTransactions,
+} from './lib/uploader.js';
+import { createWatcher, DEFAULT_WATCH_INTERVAL_MS } from './lib/watcher.js';
 
 const program = new Command();
 
@@ -26,9 +92,391 @@ function readVersion(): string {
   return 'unknown';
 }
 
-// Helper function to prompt for budget and account selection
+function outputFormat(): OutputFormat {
+  const { json, output } = program.opts<{ json?: boolean; output: OutputFormat }>();
+  return json ? 'json' : output;
+}
+
+// Prints progress and results for people. Scripts read the results of --json
+// and --output ndjson from stdout, so then it writes to stderr instead.
+function print(message = ''): void {
+  const stream = outputFormat() === 'text' ? process.stdout : process.stderr;
+  stream.write(`${message}\n`);
+}
+
+function formatConfidence(confidence: number): string {
+  return `${Math.round(confidence * 100)}% confidence`;
+}
+
+function describeFormat(statement: ParsedStatement): string {
+  return statement.confidence === undefined
+    ? statement.format
+    : `${statement.format} (${formatConfidence(statement.confidence)})`;
+}
+
+// File argument of "ynab import" that reads the statement from stdin
+const STDIN_FILE = '-';
+
+const DUPLICATE_LABELS = { duplicate: 'already in YNAB', probable: 'probable match' };
+
+function describeTransaction(tx: Transaction): string {
+  return `${tx.date} | ${tx.payee_name || 'No payee'} | $${tx.amount.toFixed(2)}`;
+}
+
+function printPreview(transactions: Transaction[], checks?: DuplicateCheck[]): void {
+  print('\nPreview of transactions:');
+  transactions.slice(0, 5).forEach((tx, index) => {
+    const category = tx.category_name ? ` | ${tx.category_name}` : '';
+    const flag = tx.flag_color ? ` [${tx.flag_color}]` : '';
+    const status = checks?.[index]?.status;
+    const duplicate = status && status !== 'new' ? ` (${DUPLICATE_LABELS[status]})` : '';
+    print(`  ${index + 1}. ${describeTransaction(tx)}${category}${flag}${duplicate}`);
+  });
+
+  if (transactions.length > 5) {
+    print(`  ... and ${transactions.length - 5} more`);
+  }
+}
+
+function printSkippedRows(rows: SkippedRow[]): void {
+  if (rows.length === 0) return;
+  print(`Left out ${rows.length} rows that could not be read:`);
+  for (const { row, reason } of rows.slice(0, 5)) {
+    print(`  row ${row}: ${reason}`);
+  }
+  if (rows.length > 5) {
+    print(`  ... and ${rows.length - 5} more`);
+  }
+}
+
+function describeDefaults({ cleared, approved, flag }: TransactionDefaults): string {
+  const state = [cleared || 'uncleared', approved ? 'approved' : 'unapproved'];
+  return flag ? [...state, `flag ${flag}`].join(', ') : state.join(', ');
+}
+
+function printBalanceCheck(check: BalanceCheck): void {
+  const currency = check.currency ? ` ${check.currency}` : '';
+  const result = check.matches
+    ? '✓ balances match'
+    : `✗ differs by ${check.difference.toFixed(2)}${currency}`;
+  print(
+    `\nBalance on ${check.date}: statement ${check.statement.toFixed(2)}${currency}, YNAB ${check.ynab.toFixed(2)}${currency} ${result}`
+  );
+}
+
+// Lists every row the duplicate check flagged, numbered like the preview
+function printDuplicates(transactions: Transaction[], checks: DuplicateCheck[]): void {
+  const flagged = checks.flatMap((check, index) => (check.status === 'new' ? [] : [index]));
+  if (flagged.length === 0) {
+    print('\nDuplicate check: all transactions are new');
+    return;
+  }
+
+  print('\nDuplicate check:');
+  for (const index of flagged) {
+    const tx = transactions[index];
+    const check = checks[index];
+    if (!tx || !check?.match || check.status === 'new') continue;
+    const { date, payee, amount } = check.match;
+    print(
+      `  ${index + 1}. ${describeTransaction(tx)} - ${DUPLICATE_LABELS[check.status]}: ${date} | ${payee || 'No payee'} | $${amount.toFixed(2)}`
+    );
+  }
+}
+
+// Custom format names are matched like --bank names, ignoring case
+function findCustomFormatKey(name: string, formats: Record<string, unknown>): string | undefined {
+  const wanted = name.trim().toLowerCase();
+  return Object.keys(formats).find((key) => key.toLowerCase() === wanted);
+}
+
+function parseCount(value: string): number {
+  return Number.parseInt(value, 10);
+}
+
+function parseNumber(value: string): number {
+  return Number.parseFloat(value);
+}
+
+function parseDateOption(value: string): Date {
+  const result = dateParamSchema.safeParse(value);
+  if (!result.success) {
+    throw new InvalidArgumentError('Expected a date like 2025-01-31');
+  }
+  return result.data;
+}
+
+function parseRows(value: string): number[] {
+  const result = rowListSchema.safeParse(value.replace(/\s/g, ''));
+  if (!result.success) {
+    throw new InvalidArgumentError('Expected comma-separated row numbers, e.g. "3,7"');
+  }
+  return result.data;
+}
+
+// Rule numbers are shown 1-based by "ynab rule list"
+function ruleIndex(value: string, rules: unknown[]): number {
+  const index = Number.parseInt(value, 10) - 1;
+  if (!(index >= 0 && index < rules.length)) {
+    throw new ValidationError(`No rule number ${value}. Run "ynab rule list" to see them.`);
+  }
+  return index;
+}
+
+// Asks the user to map the columns of a file no format matches, previews the
+// result and optionally saves the mapping as a custom format
+async function runMappingWizard(
+  content: Buffer,
+  filename: string,
+  { sheet, encoding, referenceDate }: { sheet?: string; encoding?: string; referenceDate?: Date }
+): Promise<ParsedStatement> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  const ask = async (prompt: string, defaultValue = ''): Promise<string> => {
+    const suffix = defaultValue ? ` [${defaultValue}]` : '';
+    const answer = await new Promise<string>((resolve) =>
+      rl.question(`${prompt}${suffix}: `, resolve)
+    );
+    return answer.trim() || defaultValue;
+  };
+
+  try {
+    let sample = readSampleRows(content, filename, { sheet, encoding });
+    print('\nFirst rows of the file:');
+    sample.rows.slice(0, 5).forEach((row, index) => {
+      print(`  ${index + 1}. ${row.join(' | ')}`);
+    });
+    print('');
+
+    if (sample.delimiter) {
+      const answer = await ask('Column delimiter ("tab" for tabs)', sample.delimiter);
+      const delimiter = answer === 'tab' ? '\t' : answer;
+      if (delimiter !== sample.delimiter) {
+        sample = readSampleRows(content, filename, { delimiter, encoding });
+      }
+    }
+
+    const suggestion = suggestMapping(sample.rows);
+    const fieldList = MAPPING_FIELDS.join('/');
+
+    while (true) {
+      const headerRows = parseCount(
+        await ask('Rows before the first transaction', String(suggestion.headerRows))
+      );
+      const footerRows = parseCount(await ask('Rows after the last transaction', '0'));
+      const header = headerRows > 0 ? sample.rows[headerRows - 1] || [] : [];
+      const example = sample.rows[headerRows] || [];
+
+      print(`\nAssign each column to ${fieldList} (first letter is enough):`);
+      const columns: string[] = [];
+      for (let index = 0; index < (suggestion.columns.length || 1); index++) {
+        const title = header[index] ? ` "${header[index]}"` : '';
+        const answer = await ask(
+          `  Column ${index + 1}${title} (e.g. "${example[index] || ''}")`,
+          suggestion.columns[index] || 'skip'
+        );
+        columns.push(
+          MAPPING_FIELDS.find((field) => field.toLowerCase().startsWith(answer.toLowerCase())) ||
+            'skip'
+        );
+      }
+
+      const dateFormat = await ask('Date format (strftime)', suggestion.dateFormat || '%Y-%m-%d');
+      const invert = await ask('Is money going out shown as a positive amount? (y/N)', 'n');
+
+      const result = customFormatSchema.safeParse({
+        name: 'Custom mapping',
+        delimiter: sample.delimiter || undefined,
+        headerRows,
+        footerRows,
+        columns,
+        dateFormat,
+        invertAmounts: invert.toLowerCase().startsWith('y'),
+        encoding: encoding ? normalizeEncoding(encoding) : undefined,
+      });
+      if (!result.success) {
+        print(
+          `\n${result.error.issues.map((issue) => issue.message).join('; ')}. Let's try again.\n`
+        );
+        continue;
+      }
+
+      const statement = parseStatementContent(content, filename, {
+        sheet,
+        encoding,
+        format: result.data,
+        referenceDate,
+      });
+      print(`\nParsed ${statement.transactions.length} transactions`);
+      printPreview(statement.transactions);
+
+      const confirm = await ask('\nUse this mapping? (Y/n)', 'y');
+      if (!confirm.toLowerCase().startsWith('y')) {
+        print('');
+        continue;
+      }
+
+      const name = await ask('Save it as a custom format? Enter a name (empty to skip)');
+      if (!name) {
+        return statement;
+      }
+
+      const matchBy = await ask('Recognize these files by (h)eader row or (f)ile name?', 'h');
+      const format = { ...result.data, name };
+      if (matchBy.toLowerCase().startsWith('f')) {
+        // Statement downloads usually differ only by date or sequence number
+        const stem = path.basename(filename, path.extname(filename)).replace(/[\d_\-\s()]+$/, '');
+        format.pattern = await ask('File name contains', stem);
+      } else if (header.length > 0) {
+        format.headerSignature = header;
+      }
+
+      const formats = loadCustomFormats();
+      formats[name] = format;
+      saveCustomFormats(formats);
+      print(`✓ Saved custom format "${name}"`);
+
+      return { ...statement, format: name };
+    }
+  } finally {
+    rl.close();
+  }
+}
+
+// Matches the file's category names to the budget's categories and, when run
+// interactively, asks which category each unmatched name should go to.
+// Returns the user's choices for uploadTransactions.
+async function mapCategories(
+  transactions: Transaction[],
+  config: Config,
+  budgetId: string,
+  interactive: boolean
+): Promise<Record<string, string>> {
+  const names = collectCategoryNames(transactions);
+  if (names.length === 0) {
+    return {};
+  }
+
+  const categories = await listCategories(config.accessToken, budgetId);
+  const { unmatched } = resolveCategories(names, categories);
+  print(`\nCategories: ${names.length - unmatched.length} of ${names.length} matched`);
+  if (unmatched.length === 0) {
+    return {};
+  }
+
+  if (!interactive) {
+    print(`  Left uncategorized: ${unmatched.join(', ')}`);
+    return Object.fromEntries(unmatched.map((name) => [name, '']));
+  }
+
+  const describe = (category: CategoryOption) => `${category.group}: ${category.name}`;
+  print('\nBudget categories:');
+  categories.forEach((category, index) => {
+    print(`  ${index + 1}. ${describe(category)}`);
+  });
+
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  const question = (prompt: string): Promise<string> =>
+    new Promise((resolve) => rl.question(prompt, resolve));
+
+  try {
+    const categoryMap: Record<string, string> = {};
+    for (const name of unmatched) {
+      while (true) {
+        const answer = (
+          await question(
+            `\nCategory for "${name}" (number or name, empty to leave uncategorized): `
+          )
+        ).trim();
+        if (!answer) {
+          categoryMap[name] = '';
+          break;
+        }
+
+        const category = /^\d+$/.test(answer)
+          ? categories[Number.parseInt(answer, 10) - 1]
+          : findCategory(answer, categories);
+        if (category) {
+          categoryMap[name] = category.id;
+          print(`  ${name} → ${describe(category)}`);
+          break;
+        }
+        print('  No such category, try again');
+      }
+    }
+    return categoryMap;
+  } finally {
+    rl.close();
+  }
+}
+
+// Asks which rows of the preview to leave out after the duplicate check
+async function askRowsToExclude(count: number): Promise<number[]> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  const question = (prompt: string): Promise<string> =>
+    new Promise((resolve) => rl.question(prompt, resolve));
+
+  try {
+    while (true) {
+      const answer = (
+        await question('\nRows to leave out (e.g. 3,7), empty to upload all: ')
+      ).replace(/\s/g, '');
+      if (!answer) {
+        return [];
+      }
+      const result = rowListSchema.safeParse(answer);
+      if (result.success && result.data.every((row) => row >= 1 && row <= count)) {
+        return result.data;
+      }
+      print(`  Enter row numbers between 1 and ${count}, separated by commas`);
+    }
+  } finally {
+    rl.close();
+  }
+}
+
+// Applies --budget-id and --account-id, given as IDs or names, over the configured budget and account
+async function applyTargetOptions(
+  config: Config,
+  options: { budgetId?: string; accountId?: string }
+): Promise<Config> {
+  let budgetId = options.budgetId
+    ? await resolveBudgetId(config.accessToken, options.budgetId)
+    : config.budgetId;
+  // The configured account belongs to the configured budget
+  let accountId = budgetId === config.budgetId ? config.accountId : null;
+
+  if (options.accountId) {
+    if (!budgetId) {
+      const budgets = await listBudgets(config.accessToken);
+      if (budgets.length !== 1 || !budgets[0]) {
+        throw new ValidationError(
+          'Multiple budgets found. Pass --budget-id along with --account-id',
+          'budgetId'
+        );
+      }
+      budgetId = budgets[0].id;
+    }
+    accountId = await resolveAccountId(config.accessToken, budgetId, options.accountId);
+  }
+
+  return { ...config, budgetId, accountId };
+}
+
+// Helper function to prompt for budget and account selection. Without a
+// terminal to ask in, a choice between several fails with the options instead.
 async function promptForBudgetAndAccount(
-  config: Config
+  config: Config,
+  interactive: boolean
 ): Promise<{ budgetId: string; accountId: string }> {
   const rl = readline.createInterface({
     input: process.stdin,
@@ -52,11 +500,17 @@ async function promptForBudgetAndAccount(
 
       if (budgets.length === 1) {
         budgetId = budgets[0]?.id ?? null;
-        console.log(`Using budget: ${budgets[0]?.name}`);
+        print(`Using budget: ${budgets[0]?.name}`);
+      } else if (!interactive) {
+        throw new ValidationError(
+          'Multiple budgets found. Pass --budget-id with the ID or name of one of them:\n' +
+            budgets.map((budget) => `  - ${budget.name} (${budget.id})`).join('\n'),
+          'budgetId'
+        );
       } else {
-        console.log('\nAvailable budgets:');
+        print('\nAvailable budgets:');
         budgets.forEach((budget, index) => {
-          console.log(`  ${index + 1}. ${budget.name}`);
+          print(`  ${index + 1}. ${budget.name}`);
         });
 
         const selection = await question('\nSelect budget number: ');
@@ -71,7 +525,7 @@ async function promptForBudgetAndAccount(
           throw new Error('Invalid budget selection');
         }
         budgetId = selectedBudget.id;
-        console.log(`Selected: ${selectedBudget.name}`);
+        print(`Selected: ${selectedBudget.name}`);
       }
     }
 
@@ -85,11 +539,17 @@ async function promptForBudgetAndAccount(
 
       if (accounts.length === 1) {
         accountId = accounts[0]?.id ?? null;
-        console.log(`Using account: ${accounts[0]?.name}`);
+        print(`Using account: ${accounts[0]?.name}`);
+      } else if (!interactive) {
+        throw new ValidationError(
+          'Multiple accounts found. Pass --account-id with the ID or name of one of them:\n' +
+            accounts.map((account) => `  - ${account.name} (${account.id})`).join('\n'),
+          'accountId'
+        );
       } else {
-        console.log('\nAvailable accounts:');
+        print('\nAvailable accounts:');
         accounts.forEach((account, index) => {
-          console.log(`  ${index + 1}. ${account.name} (${account.type})`);
+          print(`  ${index + 1}. ${account.name} (${account.type})`);
         });
 
         const selection = await question('\nSelect account number: ');
@@ -104,7 +564,7 @@ async function promptForBudgetAndAccount(
           throw new Error('Invalid account selection');
         }
         accountId = selectedAccount.id;
-        console.log(`Selected: ${selectedAccount.name}`);
+        print(`Selected: ${selectedAccount.name}`);
       }
     }
 
@@ -124,7 +584,20 @@ async function promptForBudgetAndAccount(
 program
   .name('ynab')
   .description('Quick and easy bank transaction imports to YNAB')
-  .version(readVersion());
+  .version(readVersion())
+  .option('--json', 'Print results as JSON, same as --output json')
+  .addOption(
+    new Option('--output <format>', 'Print results as text, JSON or NDJSON')
+      .choices(OUTPUT_FORMATS)
+      .default('text')
+  );
+
+// Scripts read the results from stdout, so progress messages from lib go to stderr
+program.hook('preAction', () => {
+  if (outputFormat() !== 'text') {
+    setLogger({ info: (msg) => console.error(msg), error: (msg) => console.error(msg) });
+  }
+});
 
 // Init command
 program
@@ -140,25 +613,24 @@ program
       const question = (prompt: string): Promise<string> =>
         new Promise((resolve) => rl.question(prompt, resolve));
 
-      console.log('YNAB CLI Setup');
-      console.log('==============\n');
-      console.log('Get your Personal Access Token from: https://app.ynab.com/settings/developer\n');
+      print('YNAB CLI Setup');
+      print('==============\n');
+      print('Get your Personal Access Token from: https://app.ynab.com/settings/developer\n');
 
       const accessToken = await question('Enter your YNAB Access Token: ');
 
       if (!accessToken) {
-        console.error('Error: Access token is required');
         rl.close();
-        process.exit(1);
+        throw new ValidationError('Access token is required', 'accessToken');
       }
 
       // Test the token by fetching budgets
-      console.log('\nVerifying token...');
+      print('\nVerifying token...');
       const budgets = await listBudgets(accessToken.trim());
 
-      console.log(`\n✓ Token verified! Found ${budgets.length} budget(s)`);
+      print(`\n✓ Token verified! Found ${budgets.length} budget(s)`);
       budgets.forEach((budget) => {
-        console.log(`  - ${budget.name}`);
+        print(`  - ${budget.name}`);
       });
 
       // Save config with just the token
@@ -167,84 +639,854 @@ program
       };
 
       saveConfig(config);
-      console.log('\n✓ Configuration saved to ~/.quickynab/config');
-      console.log('\nFor CLI usage, you can optionally set YNAB_BUDGET_ID and YNAB_ACCOUNT_ID');
-      console.log('Edit ~/.quickynab/config or use .env in your project directory');
-      console.log('For web usage, just run: npm run web (budget/account selection in UI)');
+      print('\n✓ Configuration saved to ~/.quickynab/config');
+      print('\nFor CLI usage, you can optionally set YNAB_BUDGET_ID and YNAB_ACCOUNT_ID');
+      print('Edit ~/.quickynab/config or use .env in your project directory');
+      print('For web usage, just run: npm run web (budget/account selection in UI)');
 
       rl.close();
     } catch (error) {
-      handleCliError(error);
+      handleCliError(error, outputFormat());
+    }
+  });
+
+interface ImportOptions {
+  dryRun?: boolean;
+  qifDateOrder?: QifDateOrder;
+  sheet?: string;
+  bank?: string;
+  map?: boolean;
+  encoding?: string;
+  statementDate?: Date;
+  importId?: ImportIdStrategy;
+  exclude?: number[];
+  markCleared?: boolean;
+  cleared?: ClearedState;
+  approved?: boolean;
+  flag?: FlagColor;
+  budgetId?: string;
+  accountId?: string;
+  nonInteractive?: boolean;
+  filename?: string;
+}
+
+// What importing one statement file did, for the summary of a batch import
+// and the JSON output
+interface FileImport {
+  file: string;
+  format?: string;
+  confidence?: number;
+  parsed: number;
+  imported: number;
+  duplicates: number;
+  // Transactions left out of YNAB because an upload failed
+  failed: number;
+  // Import IDs already in YNAB; in a dry run, those the duplicate check found
+  duplicateImportIds: string[];
+  // The transactions to upload, after rules and exclusions
+  transactions: Transaction[];
+  // Rows of the file that couldn't be read as transactions
+  skippedRows: SkippedRow[];
+  error?: ErrorResult;
+}
+
+// Expands glob patterns, which quoted arguments and Windows shells pass on
+// as they are. Patterns matching nothing are kept to fail like a missing file.
+function expandFiles(patterns: string[]): string[] {
+  const files = patterns.flatMap((pattern) => {
+    if (fs.existsSync(pattern) || !/[*?[{]/.test(pattern)) {
+      return [pattern];
+    }
+    const matches = fs
+      .globSync(pattern)
+      .filter((match) => fs.statSync(match).isFile())
+      .sort();
+    return matches.length > 0 ? matches : [pattern];
+  });
+  return [...new Set(files)];
+}
+
+function emptyImport(file: string): FileImport {
+  return {
+    file,
+    format: undefined,
+    confidence: undefined,
+    parsed: 0,
+    imported: 0,
+    duplicates: 0,
+    failed: 0,
+    duplicateImportIds: [],
+    transactions: [],
+    skippedRows: [],
+  };
+}
+
+function printImportSummary(results: FileImport[]): void {
+  const rows = [
+    ['File', 'Format', 'Parsed', 'Unreadable', 'Imported', 'Duplicates', 'Failed'],
+    ...results.map((result) => [
+      result.file,
+      result.format || '-',
+      String(result.parsed),
+      String(result.skippedRows.length),
+      String(result.imported),
+      String(result.duplicates),
+      String(result.failed),
+    ]),
+  ];
+  const total = (count: (result: FileImport) => number) =>
+    String(results.reduce((sum, result) => sum + count(result), 0));
+  rows.push([
+    'Total',
+    '',
+    total((result) => result.parsed),
+    total((result) => result.skippedRows.length),
+    total((result) => result.imported),
+    total((result) => result.duplicates),
+    total((result) => result.failed),
+  ]);
+
+  const widths = rows[0]?.map((_, column) =>
+    Math.max(...rows.map((row) => row[column]?.length ?? 0))
+  );
+  const failures = results.filter((result) => result.error);
+  const failed = failures.length > 0 ? `, ${failures.length} failed` : '';
+  print(`\nSummary of ${results.length} files${failed}:`);
+  rows.forEach((row, index) => {
+    // Text columns are left-aligned, counts right-aligned
+    const cells = row.map((cell, column) =>
+      column < 2 ? cell.padEnd(widths?.[column] ?? 0) : cell.padStart(widths?.[column] ?? 0)
+    );
+    const error = results[index - 1]?.error;
+    print(`  ${cells.join('  ')}${error ? '  ✗' : ''}`);
+  });
+  for (const failure of failures) {
+    console.error(`  ✗ ${failure.file}: ${failure.error?.message}`);
+  }
+}
+
+// Parses, checks and uploads one statement file. A file matching an account's
+// filename patterns goes to that account unless --account-id is given.
+async function importFile(
+  file: string,
+  baseConfig: Config,
+  { rules, accountSettings }: { rules: Rule[]; accountSettings: Record<string, AccountSettings> },
+  options: ImportOptions,
+  interactive: boolean
+): Promise<FileImport> {
+  const summary = emptyImport(file);
+
+  // Piped input is only named by --filename, if at all
+  const stdin = file === STDIN_FILE;
+  if (!stdin && !fs.existsSync(file)) {
+    throw new ValidationError(`File not found: ${file}`, 'file');
+  }
+  const filename = stdin ? options.filename || '' : path.basename(file);
+
+  print(stdin ? 'Reading from stdin' : `Reading file: ${file}`);
+  const content = stdin ? await readStream(process.stdin) : fs.readFileSync(file);
+  // Dates without a year belong to the year before the statement was saved
+  const referenceDate = options.statementDate ?? (stdin ? undefined : fs.statSync(file).mtime);
+
+  // Parse file (auto-detects format), falling back to mapping the columns by hand
+  let statement: ParsedStatement;
+  if (options.map) {
+    statement = await runMappingWizard(content, filename, { ...options, referenceDate });
+  } else {
+    try {
+      statement = parseStatementContent(content, filename, {
+        qifDateOrder: options.qifDateOrder,
+        sheet: options.sheet,
+        bank: options.bank,
+        encoding: options.encoding,
+        referenceDate,
+      });
+    } catch (error) {
+      if (!(error instanceof UnknownFormatError)) {
+        throw error;
+      }
+      if (!interactive) {
+        throw new UnknownFormatError(
+          `${error.message}\nPick a format with --bank or map the columns with --map`
+        );
+      }
+      print(`${error.message}\nNo known format matches, so let's map the columns.`);
+      statement = await runMappingWizard(content, filename, { ...options, referenceDate });
     }
+  }
+  summary.format = statement.format;
+  summary.confidence = statement.confidence;
+  summary.parsed = statement.transactions.length;
+  summary.skippedRows = statement.skippedRows ?? [];
+  print(`Format: ${describeFormat(statement)}`);
+
+  const otherCandidates = (statement.candidates || []).filter(
+    (candidate) => candidate.name !== statement.format
+  );
+  if (otherCandidates.length > 0) {
+    const list = otherCandidates
+      .map((candidate) => `${candidate.name} (${formatConfidence(candidate.confidence)})`)
+      .join(', ');
+    print(`  Other possible formats: ${list}`);
+  }
+
+  print(`Parsed ${statement.transactions.length} transactions`);
+  printSkippedRows(summary.skippedRows);
+
+  const mappedAccount =
+    options.accountId || !filename ? undefined : findAccountForFile(accountSettings, filename);
+  const config = mappedAccount
+    ? await applyTargetOptions(baseConfig, { accountId: mappedAccount })
+    : baseConfig;
+  if (mappedAccount) {
+    print(`Account: ${mappedAccount} (matched by filename)`);
+  }
+
+  // Account settings and rules for a specific account apply once the account is known
+  const importSettings = {
+    rules,
+    accountSettings,
+    importIdStrategy: options.importId,
+    // Flags win over the account settings
+    defaults: { cleared: options.cleared, approved: options.approved, flag: options.flag },
+  };
+  const prepare = async (budgetId: string | null, accountId: string | null) =>
+    prepareTransactions(statement, {
+      ...importSettings,
+      context: await resolveAccountContext(config.accessToken, budgetId, accountId, importSettings),
+    });
+
+  let prepared = await prepare(config.budgetId, config.accountId);
+  let { transactions } = prepared;
+  if (prepared.changed > 0 || prepared.skipped > 0) {
+    print(`Rules changed ${prepared.changed} and skipped ${prepared.skipped} transactions`);
+  }
+  print(`Import IDs: ${prepared.importIdStrategy}`);
+  print(`New transactions: ${describeDefaults(prepared.defaults)}`);
+
+  if (transactions.length === 0) {
+    print('No transactions to import');
+    return summary;
+  }
+
+  // Existing transactions can only be looked up once the account is known
+  let checks =
+    config.budgetId && config.accountId
+      ? await findDuplicates(config.accessToken, config.budgetId, config.accountId, transactions)
+      : undefined;
+
+  printPreview(transactions, checks);
+  if (checks) {
+    printDuplicates(transactions, checks);
+  }
+
+  if (statement.closingBalance) {
+    const { amount, currency, date } = statement.closingBalance;
+    print(`\nClosing balance: ${amount.toFixed(2)}${currency ? ` ${currency}` : ''} on ${date}`);
+  }
+
+  // Dry run
+  if (options.dryRun) {
+    // Category names can be checked without uploading when the budget is configured
+    if (config.budgetId) {
+      await mapCategories(transactions, config, config.budgetId, false);
+    }
+    summary.transactions = transactions;
+    summary.duplicateImportIds = transactions.flatMap((tx, index) =>
+      checks?.[index]?.status === 'duplicate' && tx.import_id ? [tx.import_id] : []
+    );
+    summary.duplicates = summary.duplicateImportIds.length;
+    print('\n[DRY RUN] No transactions were uploaded');
+    return summary;
+  }
+
+  // Upload
+  print('\nUploading transactions to YNAB...');
+
+  // Prompt for budget and account if needed
+  const { budgetId, accountId } = await promptForBudgetAndAccount(config, interactive);
+
+  if (accountId !== config.accountId) {
+    const previous = prepared;
+    prepared = await prepare(budgetId, accountId);
+    ({ transactions } = prepared);
+    if (prepared.changed !== previous.changed || prepared.skipped !== previous.skipped) {
+      print(
+        `Rules for the selected account: ${prepared.changed} changed, ${prepared.skipped} skipped`
+      );
+    }
+    if (prepared.importIdStrategy !== previous.importIdStrategy) {
+      print(`Import IDs for the selected account: ${prepared.importIdStrategy}`);
+    }
+    const defaults = describeDefaults(prepared.defaults);
+    if (defaults !== describeDefaults(previous.defaults)) {
+      print(`New transactions for the selected account: ${defaults}`);
+    }
+    if (transactions.length === 0) {
+      print('No transactions to import');
+      return summary;
+    }
+  }
+
+  if (!checks || accountId !== config.accountId || budgetId !== config.budgetId) {
+    checks = await findDuplicates(config.accessToken, budgetId, accountId, transactions);
+    printDuplicates(transactions, checks);
+  }
+
+  const exclude =
+    options.exclude ??
+    (interactive && checks.some((check) => check.status !== 'new')
+      ? await askRowsToExclude(transactions.length)
+      : []);
+  if (exclude.length > 0) {
+    const before = transactions.length;
+    transactions = excludeRows(transactions, exclude);
+    print(`Leaving out ${before - transactions.length} transactions`);
+    if (transactions.length === 0) {
+      print('No transactions to import');
+      return summary;
+    }
+  }
+
+  const categoryMap = await mapCategories(transactions, config, budgetId, interactive);
+  const result = await uploadTransactions(transactions, config, accountId, budgetId, {
+    categoryMap,
+    ...prepared.defaults,
   });
+  summary.transactions = transactions;
+  summary.imported = result.imported;
+  summary.duplicates = result.duplicates;
+  summary.duplicateImportIds = result.duplicateImportIds;
+
+  if (!result.success) {
+    console.error(`\n${result.error}`);
+    print(`  Imported ${result.imported}, ${result.duplicates} duplicates skipped`);
+    summary.failed = transactions.length - result.imported - result.duplicates;
+    summary.error = { code: 'YNAB_API_ERROR', message: result.error || 'Upload failed' };
+    return summary;
+  }
+
+  print(`\n✓ Successfully imported ${result.imported} transactions`);
+  if (result.duplicates > 0) {
+    print(`  (${result.duplicates} duplicates skipped)`);
+  }
+  if (summary.skippedRows.length > 0) {
+    print(`  (${summary.skippedRows.length} unreadable rows left out, see above)`);
+  }
+
+  // The import itself succeeded, so a failing balance check is only reported
+  if (statement.closingBalance) {
+    try {
+      const balance = await checkBalance(
+        config.accessToken,
+        budgetId,
+        accountId,
+        statement.closingBalance
+      );
+      printBalanceCheck(balance);
+      if (balance.matches && options.markCleared) {
+        const ids = result.transactions.map((tx) => tx.id);
+        await markTransactionsCleared(config.accessToken, budgetId, ids);
+        print(`  Marked ${ids.length} imported transactions cleared`);
+      }
+    } catch (error) {
+      console.error(`\nCould not check the account balance: ${getErrorMessage(error)}`);
+    }
+  }
+
+  return summary;
+}
 
 // Import command
 program
   .command('import')
-  .description('Import transactions from a YNAB-formatted CSV file')
-  .argument('<file>', 'Path to CSV file')
+  .description(
+    'Import transactions from CSV, Excel, OFX/QFX, QIF, camt.053 or MT940 statement files'
+  )
+  .argument(
+    '<files...>',
+    'Paths or glob patterns of CSV, XLSX, OFX, QFX, QIF, camt XML or MT940 files, or - for stdin'
+  )
+  .option(
+    '--filename <name>',
+    'File name to detect the format of stdin by, e.g. statement.ofx (use --bank for bank formats)'
+  )
   .option('--dry-run', 'Preview transactions without uploading')
-  .action(async (file: string, options: { dryRun?: boolean }) => {
+  .addOption(
+    new Option('--qif-date-order <order>', 'Date order of QIF files (default: detect)').choices([
+      'mdy',
+      'dmy',
+    ])
+  )
+  .option('--sheet <name|number>', 'Worksheet to read from Excel files (default: first sheet)')
+  .option('--bank <name>', 'Bank format of CSV and Excel files (default: detect, see "ynab banks")')
+  .option('--map', 'Map the columns of a CSV or Excel file by hand')
+  .option(
+    '--encoding <name>',
+    'Character encoding of the file, e.g. windows-1252 (default: detect)'
+  )
+  .option(
+    '--statement-date <date>',
+    "End of the statement period, for bank formats whose dates have no year (default: the file's modification time)",
+    parseDateOption
+  )
+  .addOption(
+    new Option(
+      '--import-id <strategy>',
+      'How import IDs for duplicate detection are built (default: account or bank setting, else reference)'
+    ).choices(IMPORT_ID_STRATEGIES)
+  )
+  .option('--budget-id <id|name>', 'Budget to import into (default: configured budget)')
+  .option('--account-id <id|name>', 'Account to import into (default: configured account)')
+  .option('--non-interactive', 'Fail instead of asking questions, e.g. when run from cron')
+  .option('--mark-cleared', 'Mark imported transactions cleared if the statement balance matches')
+  .addOption(
+    new Option('--cleared <state>', 'Cleared state of the imported transactions').choices(
+      CLEARED_STATES
+    )
+  )
+  .option('--approved', 'Import the transactions approved')
+  .option('--no-approved', 'Import the transactions unapproved')
+  .addOption(new Option('--flag <color>', 'Flag transactions no rule flagged').choices(FLAG_COLORS))
+  .option(
+    '--exclude <rows>',
+    'Row numbers to leave out, e.g. "3,7" (default: ask when the duplicate check flags rows)',
+    parseRows
+  )
+  .action(async (patterns: string[], options: ImportOptions) => {
     try {
       // Check if config exists
       if (!hasConfig()) {
-        console.error('Error: QuickYNAB not configured. Run "ynab init" first.');
-        process.exit(1);
+        throw new ConfigError('QuickYNAB not configured. Run "ynab init" first.');
       }
 
-      // Check if file exists
-      if (!fs.existsSync(file)) {
-        console.error(`Error: File not found: ${file}`);
-        process.exit(1);
+      const files = expandFiles(patterns);
+      if (files.length > 1 && options.exclude) {
+        throw new ValidationError('--exclude numbers the rows of a single file', 'exclude');
       }
 
-      console.log(`Reading CSV file: ${file}`);
+      // Prompts would wait forever without a terminal, and would mix with JSON output.
+      // Piped statements use up stdin, leaving nothing to answer with.
+      const output = outputFormat();
+      const interactive =
+        output === 'text' &&
+        !options.nonInteractive &&
+        Boolean(process.stdin.isTTY) &&
+        !files.includes(STDIN_FILE);
+      if (options.map && !interactive) {
+        throw new ValidationError(
+          '--map asks for the columns, so it needs an interactive terminal'
+        );
+      }
 
-      // Validate CSV format
-      validateCSV(file);
+      const config = await applyTargetOptions(getConfig(), options);
+      const settings = { rules: loadRules(), accountSettings: loadAccountSettings() };
 
-      // Parse CSV (auto-detects format)
-      const transactions = parseCSV(file);
-      console.log(`Parsed ${transactions.length} transactions`);
+      // A failing file is reported and the others are still imported
+      const results: FileImport[] = [];
+      for (const file of files) {
+        if (files.length > 1) {
+          print(`\n=== ${file} ===`);
+        }
+        try {
+          results.push(await importFile(file, config, settings, options, interactive));
+        } catch (error) {
+          if (files.length === 1 && output === 'text') {
+            throw error;
+          }
+          console.error(`Error: ${getErrorMessage(error)}`);
+          results.push({ ...emptyImport(file), error: toErrorResult(error) });
+        }
+      }
 
-      if (transactions.length === 0) {
-        console.log('No transactions to import');
-        return;
+      if (output !== 'text') {
+        printRecords(output, 'files', 'file', results);
+      } else if (files.length > 1) {
+        printImportSummary(results);
+      }
+      // Exits like the first failure would have on its own
+      const failure = results.find((result) => result.error);
+      if (failure?.error) {
+        process.exitCode = EXIT_CODES[failure.error.code] ?? 1;
+      }
+    } catch (error) {
+      handleCliError(error, outputFormat());
+    }
+  });
+
+// Watch folder command
+program
+  .command('watch')
+  .description('Import statement files dropped into a directory until stopped')
+  .argument('<dir>', 'Directory to watch; files move to processed/ or failed/ inside it')
+  .option(
+    '--interval <seconds>',
+    'Seconds between scans; files are imported once unchanged for one scan',
+    parseCount,
+    DEFAULT_WATCH_INTERVAL_MS / 1000
+  )
+  .action((dir: string, options: { interval: number }) => {
+    try {
+      if (!hasConfig()) {
+        throw new ConfigError('QuickYNAB not configured. Run "ynab init" first.');
       }
+      if (!(options.interval > 0)) {
+        throw new ValidationError('--interval must be a positive number of seconds', 'interval');
+      }
+
+      // Results never end, so JSON output streams one line per file too
+      const output = outputFormat();
+      const watcher = createWatcher(dir, {
+        config: getConfig(),
+        intervalMs: options.interval * 1000,
+        onResult: output === 'text' ? undefined : (result) => printRecord('file', result),
+      });
+      watcher.start();
+      print(`Watching ${dir} for statements (Ctrl+C to stop)`);
+    } catch (error) {
+      handleCliError(error, outputFormat());
+    }
+  });
+
+// List bank formats command
+program
+  .command('banks')
+  .description('List the bank formats that can be passed to "ynab import --bank"')
+  .argument('[search]', 'Only show banks whose name contains this text')
+  .action((search?: string) => {
+    try {
+      const query = (search || '').toLowerCase();
+      const names = Object.values(getBankConfigs())
+        .map((config) => config.name)
+        .filter((name) => name.toLowerCase().includes(query))
+        .sort((a, b) => a.localeCompare(b));
 
-      // Show preview
-      console.log('\nPreview of transactions:');
-      transactions.slice(0, 5).forEach((tx, index) => {
-        console.log(
-          `  ${index + 1}. ${tx.date} | ${tx.payee_name || 'No payee'} | $${tx.amount.toFixed(2)}`
+      const output = outputFormat();
+      if (output !== 'text') {
+        printRecords(
+          output,
+          'banks',
+          'bank',
+          names.map((name) => ({ name }))
         );
+        return;
+      }
+
+      if (names.length === 0) {
+        print(`No bank formats matching "${search}"`);
+        return;
+      }
+
+      print('Available bank formats:');
+      names.forEach((name) => {
+        print(`  - ${name}`);
       });
+    } catch (error) {
+      handleCliError(error, outputFormat());
+    }
+  });
+
+// Custom bank format commands
+const formatCommand = program
+  .command('format')
+  .description('Manage custom bank formats (saved to ~/.quickynab/formats.json)');
 
-      if (transactions.length > 5) {
-        console.log(`  ... and ${transactions.length - 5} more`);
+formatCommand
+  .command('add')
+  .description('Add or replace a custom bank format')
+  .argument('<name>', 'Format name, also used with "ynab import --bank"')
+  .requiredOption(
+    '--columns <list>',
+    'Comma-separated column mapping, e.g. "Date,Payee,skip,Amount" (fields: Date, Payee, Memo, Amount, Inflow, Outflow, Reference, Running Balance, skip)'
+  )
+  .option('--pattern <text>', 'Text that exported filenames contain')
+  .option('--regex', 'Treat --pattern as a regular expression')
+  .option('--delimiter <char>', 'Column delimiter ("tab" for tab-separated files)', ',')
+  .option('--header-rows <n>', 'Rows before the first transaction', parseCount, 1)
+  .option('--footer-rows <n>', 'Rows after the last transaction', parseCount, 0)
+  .option('--date-format <format>', 'strftime date format, e.g. %d.%m.%Y (default: detect)')
+  .option(
+    '--cd-flags <column,inflow,outflow>',
+    'Credit/debit indicator column and its values, e.g. "CDFlag,C,D"'
+  )
+  .option('--invert-amounts', 'The bank lists money going out as positive amounts')
+  .option('--encoding <name>', 'Character encoding of the exports (default: detect)')
+  .addOption(
+    new Option(
+      '--import-id <strategy>',
+      'How import IDs are built; "reference" needs a Reference column'
+    ).choices(IMPORT_ID_STRATEGIES)
+  )
+  .action(
+    (
+      name: string,
+      options: {
+        columns: string;
+        pattern?: string;
+        regex?: boolean;
+        delimiter: string;
+        headerRows: number;
+        footerRows: number;
+        dateFormat?: string;
+        cdFlags?: string;
+        invertAmounts?: boolean;
+        encoding?: string;
+        importId?: ImportIdStrategy;
       }
+    ) => {
+      try {
+        const result = customFormatSchema.safeParse({
+          name,
+          pattern: options.pattern,
+          useRegex: options.regex,
+          delimiter: options.delimiter === 'tab' ? '\t' : options.delimiter,
+          headerRows: options.headerRows,
+          footerRows: options.footerRows,
+          columns: options.columns.split(',').map((column) => column.trim()),
+          dateFormat: options.dateFormat,
+          cdFlags: options.cdFlags?.split(',').map((flag) => flag.trim()),
+          invertAmounts: options.invertAmounts,
+          encoding: options.encoding ? normalizeEncoding(options.encoding) : undefined,
+          importIdStrategy: options.importId,
+        });
+        if (!result.success) {
+          throw new ValidationError(
+            `Invalid format: ${result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`
+          );
+        }
+
+        const formats = loadCustomFormats();
+        const existingKey = findCustomFormatKey(name, formats);
+        if (existingKey) {
+          delete formats[existingKey];
+        }
+        formats[result.data.name] = result.data;
+        saveCustomFormats(formats);
+
+        print(`✓ ${existingKey ? 'Updated' : 'Added'} custom format "${result.data.name}"`);
+      } catch (error) {
+        handleCliError(error, outputFormat());
+      }
+    }
+  );
 
-      // Dry run
-      if (options.dryRun) {
-        console.log('\n[DRY RUN] No transactions were uploaded');
+formatCommand
+  .command('list')
+  .description('List custom bank formats')
+  .action(() => {
+    try {
+      const formats = Object.values(loadCustomFormats());
+      const output = outputFormat();
+      if (output !== 'text') {
+        printRecords(output, 'formats', 'format', formats);
         return;
       }
 
-      // Upload
-      console.log('\nUploading transactions to YNAB...');
-      const config = getConfig();
+      if (formats.length === 0) {
+        print('No custom formats. Add one with "ynab format add".');
+        return;
+      }
+
+      print('Custom formats:');
+      formats.forEach((format) => {
+        const pattern = format.pattern ? `, file name: ${format.pattern}` : '';
+        print(`  - ${format.name} (columns: ${format.columns.join(', ')}${pattern})`);
+      });
+    } catch (error) {
+      handleCliError(error, outputFormat());
+    }
+  });
+
+formatCommand
+  .command('test')
+  .description('Preview how a file is read with a custom format')
+  .argument('<name>', 'Custom format name')
+  .argument('<file>', 'Statement file to read')
+  .action((name: string, file: string) => {
+    try {
+      const formats = loadCustomFormats();
+      const key = findCustomFormatKey(name, formats);
+      const format = key ? formats[key] : undefined;
+      if (!format) {
+        throw new ValidationError(`Unknown custom format "${name}"`, 'name');
+      }
+      if (!fs.existsSync(file)) {
+        throw new ValidationError(`File not found: ${file}`, 'file');
+      }
+
+      const filenameMatch = matchesFilename(path.basename(file), format);
+      print(`File name ${filenameMatch ? 'matches' : 'does not match'} the format pattern`);
+
+      const { transactions } = parseStatement(file, undefined, { bank: format.name });
+      print(`Parsed ${transactions.length} transactions`);
+      const output = outputFormat();
+      if (output !== 'text') {
+        printRecords(output, 'transactions', 'transaction', transactions);
+      } else if (transactions.length > 0) {
+        printPreview(transactions);
+      }
+    } catch (error) {
+      handleCliError(error, outputFormat());
+    }
+  });
+
+formatCommand
+  .command('remove')
+  .description('Remove a custom bank format')
+  .argument('<name>', 'Custom format name')
+  .action((name: string) => {
+    try {
+      const formats = loadCustomFormats();
+      const key = findCustomFormatKey(name, formats);
+      if (!key) {
+        throw new ValidationError(`Unknown custom format "${name}"`, 'name');
+      }
+
+      delete formats[key];
+      saveCustomFormats(formats);
+      print(`✓ Removed custom format "${key}"`);
+    } catch (error) {
+      handleCliError(error, outputFormat());
+    }
+  });
+
+// Payee and category rule commands
+const ruleCommand = program
+  .command('rule')
+  .description('Manage payee rename and categorisation rules (saved to ~/.quickynab/rules.json)');
+
+ruleCommand
+  .command('add')
+  .description('Add a rule; rules are applied in order before uploading')
+  .option('--name <label>', 'Label shown by "ynab rule list"')
+  .option('--payee <text>', 'Match payees containing this text')
+  .option('--memo <text>', 'Match memos containing this text')
+  .option('--regex', 'Treat --payee and --memo as regular expressions')
+  .option('--min-amount <n>', 'Match amounts of at least n (outflows are negative)', parseNumber)
+  .option('--max-amount <n>', 'Match amounts of at most n (outflows are negative)', parseNumber)
+  .option('--account <id|name>', 'Only apply when importing into this account')
+  .option('--set-payee <name>', 'Rename the payee')
+  .option('--set-memo <text>', 'Replace the memo ("" to clear it)')
+  .option('--set-category <name>', 'Set the category, as "Category" or "Group: Category"')
+  .addOption(new Option('--flag <color>', 'Set the flag color').choices(FLAG_COLORS))
+  .option('--skip', 'Do not import matching transactions')
+  .option('--position <n>', 'Insert at this position instead of last', parseCount)
+  .action(
+    (options: {
+      name?: string;
+      payee?: string;
+      memo?: string;
+      regex?: boolean;
+      minAmount?: number;
+      maxAmount?: number;
+      account?: string;
+      setPayee?: string;
+      setMemo?: string;
+      setCategory?: string;
+      flag?: (typeof FLAG_COLORS)[number];
+      skip?: boolean;
+      position?: number;
+    }) => {
+      try {
+        const result = ruleSchema.safeParse({
+          name: options.name,
+          match: {
+            payee: options.payee,
+            memo: options.memo,
+            useRegex: options.regex,
+            minAmount: options.minAmount,
+            maxAmount: options.maxAmount,
+            account: options.account,
+          },
+          actions: {
+            payee: options.setPayee,
+            memo: options.setMemo,
+            category: options.setCategory,
+            flag: options.flag,
+            skip: options.skip,
+          },
+        });
+        if (!result.success) {
+          throw new ValidationError(
+            `Invalid rule: ${result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`
+          );
+        }
+
+        const rules = loadRules();
+        const index =
+          options.position === undefined
+            ? rules.length
+            : Math.min(Math.max(options.position - 1, 0), rules.length);
+        rules.splice(index, 0, result.data);
+        saveRules(rules);
 
-      // Prompt for budget and account if needed
-      const { budgetId, accountId } = await promptForBudgetAndAccount(config);
+        print(`✓ Added rule ${index + 1}: ${describeRule(result.data)}`);
+      } catch (error) {
+        handleCliError(error, outputFormat());
+      }
+    }
+  );
 
-      const result = await uploadTransactions(transactions, config, accountId, budgetId);
+ruleCommand
+  .command('list')
+  .description('List rules in the order they are applied')
+  .action(() => {
+    try {
+      const rules = loadRules();
+      const output = outputFormat();
+      if (output !== 'text') {
+        printRecords(output, 'rules', 'rule', rules);
+        return;
+      }
 
-      console.log(`\n✓ Successfully imported ${result.imported} transactions`);
-      if (result.duplicates > 0) {
-        console.log(`  (${result.duplicates} duplicates skipped)`);
+      if (rules.length === 0) {
+        print('No rules. Add one with "ynab rule add".');
+        return;
       }
+
+      print('Rules:');
+      rules.forEach((rule, index) => {
+        print(`  ${index + 1}. ${describeRule(rule)}`);
+      });
     } catch (error) {
-      handleCliError(error);
+      handleCliError(error, outputFormat());
+    }
+  });
+
+ruleCommand
+  .command('move')
+  .description('Change the position of a rule')
+  .argument('<number>', 'Rule number from "ynab rule list"')
+  .argument('<position>', 'New position')
+  .action((number: string, position: string) => {
+    try {
+      const rules = loadRules();
+      const from = ruleIndex(number, rules);
+      const to = ruleIndex(position, rules);
+
+      const [rule] = rules.splice(from, 1);
+      if (rule) {
+        rules.splice(to, 0, rule);
+      }
+      saveRules(rules);
+      print(`✓ Moved rule ${number} to position ${to + 1}`);
+    } catch (error) {
+      handleCliError(error, outputFormat());
+    }
+  });
+
+ruleCommand
+  .command('remove')
+  .description('Remove a rule')
+  .argument('<number>', 'Rule number from "ynab rule list"')
+  .action((number: string) => {
+    try {
+      const rules = loadRules();
+      const [rule] = rules.splice(ruleIndex(number, rules), 1);
+      saveRules(rules);
+      print(`✓ Removed rule ${number}${rule ? `: ${describeRule(rule)}` : ''}`);
+    } catch (error) {
+      handleCliError(error, outputFormat());
     }
   });
 
@@ -255,19 +1497,29 @@ program
   .action(async () => {
     try {
       if (!hasConfig()) {
-        console.error('Error: QuickYNAB not configured. Run "ynab init" first.');
-        process.exit(1);
+        throw new ConfigError('QuickYNAB not configured. Run "ynab init" first.');
       }
 
       const config = getConfig();
       const budgets = await listBudgets(config.accessToken);
 
-      console.log('Available budgets:');
+      const output = outputFormat();
+      if (output !== 'text') {
+        const records = budgets.map(({ id, name, currency_format }) => ({
+          id,
+          name,
+          currency_format,
+        }));
+        printRecords(output, 'budgets', 'budget', records);
+        return;
+      }
+
+      print('Available budgets:');
       budgets.forEach((budget) => {
-        console.log(`  - ${budget.name} (${budget.id})`);
+        print(`  - ${budget.name} (${budget.id})`);
       });
     } catch (error) {
-      handleCliError(error);
+      handleCliError(error, outputFormat());
     }
   });
 
@@ -275,28 +1527,37 @@ program
 program
   .command('accounts')
   .description('List all accounts in the configured budget')
-  .action(async () => {
+  .option('--budget-id <id|name>', 'Budget to list accounts of (default: configured budget)')
+  .action(async (options: { budgetId?: string }) => {
     try {
       if (!hasConfig()) {
-        console.error('Error: QuickYNAB not configured. Run "ynab init" first.');
-        process.exit(1);
+        throw new ConfigError('QuickYNAB not configured. Run "ynab init" first.');
       }
 
       const config = getConfig();
-      if (!config.budgetId) {
-        console.error('Error: YNAB_BUDGET_ID not set.');
-        console.error('Add it to ~/.quickynab/config or set in .env file');
-        process.exit(1);
+      const budgetId = options.budgetId
+        ? await resolveBudgetId(config.accessToken, options.budgetId)
+        : config.budgetId;
+      if (!budgetId) {
+        throw new ConfigError(
+          'No budget selected. Pass --budget-id or set YNAB_BUDGET_ID in ~/.quickynab/config or .env'
+        );
       }
 
-      const accounts = await listAccounts(config.accessToken, config.budgetId);
+      const accounts = await listAccounts(config.accessToken, budgetId);
+
+      const output = outputFormat();
+      if (output !== 'text') {
+        printRecords(output, 'accounts', 'account', accounts);
+        return;
+      }
 
-      console.log('Available accounts:');
+      print('Available accounts:');
       accounts.forEach((account) => {
-        console.log(`  - ${account.name} (${account.id})`);
+        print(`  - ${account.name} (${account.id})`);
       });
     } catch (error) {
-      handleCliError(error);
+      handleCliError(error, outputFormat());
     }
   });
 
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'bun:test';
+import type * as ynab from 'ynab';
+import {
+  type CategoryOption,
+  collectCategoryNames,
+  flattenCategories,
+  resolveCategories,
+} from './categories.js';
+
+const CATEGORIES: CategoryOption[] = [
+  { id: 'cat-rent', name: 'Rent', group: 'Bills' },
+  { id: 'cat-groceries', name: 'Groceries', group: 'Everyday' },
+  { id: 'cat-gifts-family', name: 'Gifts', group: 'Family' },
+  { id: 'cat-gifts-friends', name: 'Gifts', group: 'Friends' },
+  { id: 'cat-rta', name: 'Inflow: Ready to Assign', group: 'Internal Master Category' },
+];
+
+describe('categories', () => {
+  describe('resolveCategories', () => {
+    it('should match plain and "Group: Category" names ignoring case', () => {
+      const result = resolveCategories(
+        ['rent', 'Everyday: Groceries', 'Bills:Rent', 'Inflow: Ready to Assign'],
+        CATEGORIES
+      );
+
+      expect(result.ids).toEqual({
+        rent: 'cat-rent',
+        'Everyday: Groceries': 'cat-groceries',
+        'Bills:Rent': 'cat-rent',
+        'Inflow: Ready to Assign': 'cat-rta',
+      });
+      expect(result.unmatched).toEqual([]);
+    });
+
+    it('should need the group for names used in several groups', () => {
+      const result = resolveCategories(['Gifts', 'Friends: Gifts'], CATEGORIES);
+
+      expect(result.ids).toEqual({ 'Friends: Gifts': 'cat-gifts-friends' });
+      expect(result.unmatched).toEqual(['Gifts']);
+    });
+
+    it('should apply the user mapping before matching', () => {
+      const result = resolveCategories(['Food', 'Misc', 'Rent'], CATEGORIES, {
+        Food: 'cat-groceries',
+        Misc: '',
+      });
+
+      expect(result.ids).toEqual({ Food: 'cat-groceries', Rent: 'cat-rent' });
+      expect(result.unmatched).toEqual([]);
+    });
+  });
+
+  describe('collectCategoryNames', () => {
+    it('should collect distinct names including split lines', () => {
+      const names = collectCategoryNames([
+        { date: '2025-01-01', payee_name: 'A', amount: -1, memo: null, category_name: 'Rent' },
+        { date: '2025-01-02', payee_name: 'B', amount: -2, memo: null, category_name: null },
+        {
+          date: '2025-01-03',
+          payee_name: 'C',
+          amount: -3,
+          memo: null,
+          subtransactions: [
+            { amount: -1, category_name: 'Groceries', memo: null },
+            { amount: -2, category_name: 'Rent', memo: null },
+          ],
+        },
+      ]);
+
+      expect(names).toEqual(['Rent', 'Groceries']);
+    });
+  });
+
+  describe('flattenCategories', () => {
+    it('should skip hidden and deleted categories and groups', () => {
+      const category = (id: string, hidden = false, deleted = false) =>
+        ({ id, name: id, hidden, deleted }) as ynab.Category;
+      const groups = [
+        {
+          id: 'g1',
+          name: 'Bills',
+          hidden: false,
+          deleted: false,
+          categories: [category('Rent'), category('Old', true), category('Gone', false, true)],
+        },
+        { id: 'g2', name: 'Hidden', hidden: true, deleted: false, categories: [category('X')] },
+      ] as ynab.CategoryGroupWithCategories[];
+
+      expect(flattenCategories(groups)).toEqual([{ id: 'Rent', name: 'Rent', group: 'Bills' }]);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import type * as ynab from 'ynab';
+import type { Transaction } from './types.js';
+
+// A budget category a statement's category name can be mapped to
+export interface CategoryOption {
+  id: string;
+  name: string;
+  group: string;
+}
+
+export interface CategoryResolution {
+  // Category name from the file -> YNAB category ID
+  ids: Record<string, string>;
+  unmatched: string[];
+}
+
+/**
+ * Lists the categories transactions can be assigned to, skipping hidden and
+ * deleted ones
+ */
+export function flattenCategories(groups: ynab.CategoryGroupWithCategories[]): CategoryOption[] {
+  return groups
+    .filter((group) => !group.hidden && !group.deleted)
+    .flatMap((group) =>
+      group.categories
+        .filter((category) => !category.hidden && !category.deleted)
+        .map((category) => ({ id: category.id, name: category.name, group: group.name }))
+    );
+}
+
+/**
+ * Collects the distinct category names of transactions and their split lines
+ */
+export function collectCategoryNames(transactions: Transaction[]): string[] {
+  const names = new Set<string>();
+  for (const tx of transactions) {
+    if (tx.category_name) names.add(tx.category_name);
+    for (const sub of tx.subtransactions || []) {
+      if (sub.category_name) names.add(sub.category_name);
+    }
+  }
+  return [...names];
+}
+
+/**
+ * Matches category names from a file to budget categories, ignoring case.
+ * Names are either a category name or "Group: Category" (QIF writes
+ * "Group:Category"). The user's own mapping wins; an empty ID there means the
+ * name is left uncategorized on purpose.
+ */
+export function resolveCategories(
+  names: string[],
+  categories: CategoryOption[],
+  categoryMap: Record<string, string> = {}
+): CategoryResolution {
+  const ids: Record<string, string> = {};
+  const unmatched: string[] = [];
+
+  for (const name of names) {
+    if (name in categoryMap) {
+      const id = categoryMap[name];
+      if (id) ids[name] = id;
+      continue;
+    }
+
+    const category = findCategory(name, categories);
+    if (category) {
+      ids[name] = category.id;
+    } else {
+      unmatched.push(name);
+    }
+  }
+
+  return { ids, unmatched };
+}
+
+/**
+ * Finds the category a name refers to, either by an unambiguous category name
+ * or as "Group: Category"
+ */
+export function findCategory(
+  name: string,
+  categories: CategoryOption[]
+): CategoryOption | undefined {
+  const wanted = normalize(name);
+
+  // Names are unique within a group but not across groups, so a bare name must be unambiguous
+  const byName = categories.filter((category) => normalize(category.name) === wanted);
+  if (byName.length === 1) {
+    return byName[0];
+  }
+
+  const separator = name.indexOf(':');
+  if (separator === -1) {
+    return undefined;
+  }
+  const group = normalize(name.slice(0, separator));
+  const categoryName = normalize(name.slice(separator + 1));
+  return categories.find(
+    (category) => normalize(category.group) === group && normalize(category.name) === categoryName
+  );
+}
+
+function normalize(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toLowerCase();
+}
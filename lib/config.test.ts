@@ -2,7 +2,20 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
-import { getConfig, hasConfig, saveConfig } from './config.js';
+import {
+  findAccountForFile,
+  findAccountSettings,
+  getConfig,
+  hasConfig,
+  loadAccountSettings,
+  loadCustomFormats,
+  loadRules,
+  saveConfig,
+  saveCustomFormats,
+  saveRules,
+} from './config.js';
+import { ConfigError } from './errors.js';
+import { getBankConfigs } from './parsers/bank2ynab-fetcher.js';
 
 describe('config', () => {
   const testConfigDir = path.join(os.homedir(), '.quickynab');
@@ -164,4 +177,174 @@ describe('config', () => {
       expect(hasConfig()).toBe(true);
     });
   });
+
+  describe('custom formats', () => {
+    const formatsFile = path.join(testConfigDir, 'formats.json');
+    let originalFormats: string | null = null;
+
+    const creditUnion = {
+      name: 'Credit Union',
+      pattern: 'cu_export',
+      delimiter: ',',
+      headerRows: 1,
+      columns: ['Date', 'Payee', 'Amount'],
+      dateFormat: '%m/%d/%Y',
+    };
+
+    beforeEach(() => {
+      originalFormats = fs.existsSync(formatsFile) ? fs.readFileSync(formatsFile, 'utf-8') : null;
+      if (originalFormats !== null) {
+        fs.unlinkSync(formatsFile);
+      }
+    });
+
+    afterEach(() => {
+      if (originalFormats !== null) {
+        fs.writeFileSync(formatsFile, originalFormats, { mode: 0o600 });
+      } else if (fs.existsSync(formatsFile)) {
+        fs.unlinkSync(formatsFile);
+      }
+    });
+
+    it('should return no formats when the file does not exist', () => {
+      expect(loadCustomFormats()).toEqual({});
+    });
+
+    it('should save and load formats', () => {
+      saveCustomFormats({ 'Credit Union': creditUnion });
+
+      expect(loadCustomFormats()).toEqual({ 'Credit Union': creditUnion });
+      expect(fs.statSync(formatsFile).mode & 0o777).toBe(0o600);
+    });
+
+    it('should reject formats without a date or amount column', () => {
+      fs.mkdirSync(testConfigDir, { recursive: true });
+      fs.writeFileSync(
+        formatsFile,
+        JSON.stringify({ Broken: { ...creditUnion, name: 'Broken', columns: ['Payee', 'Amount'] } })
+      );
+
+      expect(() => loadCustomFormats()).toThrow(ConfigError);
+      expect(() => loadCustomFormats()).toThrow('columns must include Date');
+    });
+
+    it('should reject formats with an invalid filename regex', () => {
+      fs.mkdirSync(testConfigDir, { recursive: true });
+      fs.writeFileSync(
+        formatsFile,
+        JSON.stringify({
+          Broken: { ...creditUnion, name: 'Broken', pattern: 'cu_(', useRegex: true },
+        })
+      );
+
+      expect(() => loadCustomFormats()).toThrow('must be a valid regular expression with useRegex');
+    });
+
+    it('should put custom formats ahead of the bundled bank2ynab configs', () => {
+      saveCustomFormats({
+        'Credit Union': creditUnion,
+        Revolut: { ...creditUnion, name: 'Revolut', pattern: 'my-revolut' },
+      });
+
+      const configs = getBankConfigs();
+
+      expect(Object.keys(configs).slice(0, 2)).toEqual(['Credit Union', 'Revolut']);
+      expect(configs.Revolut?.pattern).toBe('my-revolut');
+    });
+  });
+
+  describe('rules', () => {
+    const rulesFile = path.join(testConfigDir, 'rules.json');
+    let originalRules: string | null = null;
+
+    beforeEach(() => {
+      originalRules = fs.existsSync(rulesFile) ? fs.readFileSync(rulesFile, 'utf-8') : null;
+      if (originalRules !== null) {
+        fs.unlinkSync(rulesFile);
+      }
+    });
+
+    afterEach(() => {
+      if (originalRules !== null) {
+        fs.writeFileSync(rulesFile, originalRules, { mode: 0o600 });
+      } else if (fs.existsSync(rulesFile)) {
+        fs.unlinkSync(rulesFile);
+      }
+    });
+
+    it('should save and load rules in order', () => {
+      const rules = [
+        { match: { payee: 'migros' }, actions: { payee: 'Migros' } },
+        { match: { minAmount: 1000 }, actions: { flag: 'blue' as const } },
+      ];
+      saveRules(rules);
+
+      expect(loadRules()).toEqual(rules);
+      expect(fs.statSync(rulesFile).mode & 0o777).toBe(0o600);
+    });
+
+    it('should reject rules without an action', () => {
+      fs.mkdirSync(testConfigDir, { recursive: true });
+      fs.writeFileSync(rulesFile, JSON.stringify([{ match: { payee: 'x' }, actions: {} }]));
+
+      expect(() => loadRules()).toThrow(ConfigError);
+    });
+  });
+
+  describe('account settings', () => {
+    const accountsFile = path.join(testConfigDir, 'accounts.json');
+    let originalAccounts: string | null = null;
+
+    beforeEach(() => {
+      originalAccounts = fs.existsSync(accountsFile)
+        ? fs.readFileSync(accountsFile, 'utf-8')
+        : null;
+      if (originalAccounts !== null) {
+        fs.unlinkSync(accountsFile);
+      }
+    });
+
+    afterEach(() => {
+      if (originalAccounts !== null) {
+        fs.writeFileSync(accountsFile, originalAccounts, { mode: 0o600 });
+      } else if (fs.existsSync(accountsFile)) {
+        fs.unlinkSync(accountsFile);
+      }
+    });
+
+    it('should load settings and find them by account ID or name', () => {
+      fs.mkdirSync(testConfigDir, { recursive: true });
+      fs.writeFileSync(
+        accountsFile,
+        JSON.stringify({ Checking: { importIdStrategy: 'occurrence' }, 'acc-2': {} })
+      );
+
+      const settings = loadAccountSettings();
+
+      expect(findAccountSettings(settings, 'acc-1', 'checking')).toEqual({
+        importIdStrategy: 'occurrence',
+      });
+      expect(findAccountSettings(settings, 'acc-2')).toEqual({});
+      expect(findAccountSettings(settings, 'acc-3', 'Savings')).toEqual({});
+    });
+
+    it('should find the account a statement file is mapped to', () => {
+      const settings = {
+        Checking: { files: ['ubs-*.csv', 'UBS_*.xlsx'] },
+        'acc-2': { files: ['revolut-*'] },
+      };
+
+      expect(findAccountForFile(settings, '/statements/UBS-2025-03.csv')).toBe('Checking');
+      expect(findAccountForFile(settings, 'ubs_2025.xlsx')).toBe('Checking');
+      expect(findAccountForFile(settings, 'downloads/revolut-march.csv')).toBe('acc-2');
+      expect(findAccountForFile(settings, 'statements/ubs-2025.ofx')).toBeUndefined();
+    });
+
+    it('should reject unknown import ID strategies', () => {
+      fs.mkdirSync(testConfigDir, { recursive: true });
+      fs.writeFileSync(accountsFile, JSON.stringify({ Checking: { importIdStrategy: 'random' } }));
+
+      expect(() => loadAccountSettings()).toThrow(ConfigError);
+    });
+  });
 });
@@ -2,11 +2,18 @@ import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { ConfigError } from './errors.js';
+import {
+  type AccountSettings,
+  accountSettingsFileSchema,
+  type CustomFormat,
+  customFormatsSchema,
+  type Rule,
+  rulesSchema,
+} from './schemas.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
-const CONFIG_DIR = path.join(os.homedir(), '.quickynab');
-const CONFIG_FILE = path.join(CONFIG_DIR, 'config');
 const LOCAL_ENV = path.join(__dirname, '..', '.env');
 
 // Native .env loading, no dependency: every supported Node has
@@ -18,6 +25,24 @@ if (fs.existsSync(LOCAL_ENV)) {
   process.loadEnvFile?.(LOCAL_ENV);
 }
 
+/**
+ * Directory of the config, formats, rules and account files; QUICKYNAB_CONFIG_DIR
+ * overrides ~/.quickynab. Read on every call so the override can change at runtime.
+ */
+function configDir(): string {
+  return process.env.QUICKYNAB_CONFIG_DIR || path.join(os.homedir(), '.quickynab');
+}
+
+function configFile(name: string): string {
+  return path.join(configDir(), name);
+}
+
+function ensureConfigDir(): void {
+  if (!fs.existsSync(configDir())) {
+    fs.mkdirSync(configDir(), { recursive: true });
+  }
+}
+
 export interface Config {
   accessToken: string;
   budgetId: string | null;
@@ -25,11 +50,12 @@ export interface Config {
 }
 
 function loadConfigFile(): Record<string, string> {
-  if (!fs.existsSync(CONFIG_FILE)) {
+  const file = configFile('config');
+  if (!fs.existsSync(file)) {
     return {};
   }
 
-  const content = fs.readFileSync(CONFIG_FILE, 'utf-8');
+  const content = fs.readFileSync(file, 'utf-8');
   const config: Record<string, string> = {};
 
   content.split('\n').forEach((line) => {
@@ -50,7 +76,7 @@ export function getConfig(): Config {
   const token = fileConfig.YNAB_ACCESS_TOKEN || process.env.YNAB_ACCESS_TOKEN;
 
   if (!token) {
-    throw new Error(
+    throw new ConfigError(
       'YNAB_ACCESS_TOKEN not found. Please run "ynab init" to set up your configuration.'
     );
   }
@@ -63,17 +89,127 @@ export function getConfig(): Config {
 }
 
 export function saveConfig(config: Record<string, string>): void {
-  if (!fs.existsSync(CONFIG_DIR)) {
-    fs.mkdirSync(CONFIG_DIR, { recursive: true });
-  }
+  ensureConfigDir();
 
   const envContent = Object.entries(config)
     .map(([key, value]) => `${key}=${value}`)
     .join('\n');
 
-  fs.writeFileSync(CONFIG_FILE, `${envContent}\n`, { mode: 0o600 });
+  fs.writeFileSync(configFile('config'), `${envContent}\n`, { mode: 0o600 });
 }
 
 export function hasConfig(): boolean {
-  return fs.existsSync(CONFIG_FILE) || fs.existsSync(LOCAL_ENV);
+  return fs.existsSync(configFile('config')) || fs.existsSync(LOCAL_ENV);
+}
+
+/**
+ * Loads the user's custom bank formats from ~/.quickynab/formats.json, keyed by name
+ */
+export function loadCustomFormats(): Record<string, CustomFormat> {
+  const file = configFile('formats.json');
+  if (!fs.existsSync(file)) {
+    return {};
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new ConfigError(`Could not read ${file}: ${(error as Error).message}`);
+  }
+
+  const result = customFormatsSchema.safeParse(data);
+  if (!result.success) {
+    throw new ConfigError(`Invalid custom formats in ${file}: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+export function saveCustomFormats(formats: Record<string, CustomFormat>): void {
+  ensureConfigDir();
+  fs.writeFileSync(configFile('formats.json'), `${JSON.stringify(formats, null, 2)}\n`, {
+    mode: 0o600,
+  });
+}
+
+/**
+ * Loads the payee/category rules, in the order they are applied
+ */
+export function loadRules(): Rule[] {
+  const file = configFile('rules.json');
+  if (!fs.existsSync(file)) {
+    return [];
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new ConfigError(`Could not read ${file}: ${(error as Error).message}`);
+  }
+
+  const result = rulesSchema.safeParse(data);
+  if (!result.success) {
+    throw new ConfigError(`Invalid rules in ${file}: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+export function saveRules(rules: Rule[]): void {
+  ensureConfigDir();
+  fs.writeFileSync(configFile('rules.json'), `${JSON.stringify(rules, null, 2)}\n`, {
+    mode: 0o600,
+  });
+}
+
+/**
+ * Loads per-account import settings, keyed by account ID or name
+ */
+export function loadAccountSettings(): Record<string, AccountSettings> {
+  const file = configFile('accounts.json');
+  if (!fs.existsSync(file)) {
+    return {};
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new ConfigError(`Could not read ${file}: ${(error as Error).message}`);
+  }
+
+  const result = accountSettingsFileSchema.safeParse(data);
+  if (!result.success) {
+    throw new ConfigError(`Invalid account settings in ${file}: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * Finds the settings of an account by its ID or, ignoring case, its name
+ */
+export function findAccountSettings(
+  settings: Record<string, AccountSettings>,
+  accountId: string | null | undefined,
+  accountName?: string | null
+): AccountSettings {
+  const keys = [accountId, accountName].flatMap((key) => (key ? [key.toLowerCase()] : []));
+  const match = Object.keys(settings).find((key) => keys.includes(key.toLowerCase()));
+  return (match && settings[match]) || {};
+}
+
+/**
+ * Finds the account whose filename patterns match a statement file, ignoring
+ * case. Returns the settings key, i.e. the account ID or name.
+ */
+export function findAccountForFile(
+  settings: Record<string, AccountSettings>,
+  filePath: string
+): string | undefined {
+  const filename = path.basename(filePath).toLowerCase();
+  return Object.keys(settings).find((key) =>
+    (settings[key]?.files || []).some((pattern) =>
+      path.matchesGlob(filename, pattern.toLowerCase())
+    )
+  );
 }
@@ -2,8 +2,16 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
-import { parseCSV, validateCSV } from './converter.js';
-import { CsvParseError } from './errors.js';
+import { Readable } from 'node:stream';
+import {
+  parseCSV,
+  parseStatement,
+  parseStatementContent,
+  readSampleRows,
+  readStream,
+  validateCSV,
+} from './converter.js';
+import { CsvParseError, UnknownFormatError, ValidationError } from './errors.js';
 
 describe('converter', () => {
   let tempDir: string;
@@ -83,6 +91,20 @@ describe('converter', () => {
       expect(transactions[1]?.amount).toBe(2500.0);
     });
 
+    it('should handle European amounts in semicolon separated files', () => {
+      const csvContent = `Date;Payee;Category;Memo;Outflow;Inflow
+2025-01-15;Store;;;1.234,56;
+2025-01-16;Refund;;;;12,5`;
+
+      const filePath = path.join(tempDir, 'ynab-european.csv');
+      fs.writeFileSync(filePath, csvContent);
+
+      const transactions = parseCSV(filePath);
+
+      expect(transactions[0]?.amount).toBe(-1234.56);
+      expect(transactions[1]?.amount).toBe(12.5);
+    });
+
     it('should handle zero amounts correctly', () => {
       const csvContent = `Date,Payee,Category,Memo,Outflow,Inflow
 2025-01-15,Transfer,,,0,0
@@ -118,18 +140,6 @@ describe('converter', () => {
       expect(() => parseCSV(filePath)).toThrow('CSV file contains no data rows');
     });
 
-    it('should extract original filename from temp file name', () => {
-      const csvContent = `Date,Payee,Category,Memo,Outflow,Inflow
-2025-01-15,Store,,,10.00,0`;
-
-      // Simulate temp file from web upload
-      const filePath = path.join(tempDir, 'ynab-abc123def456-mybank.csv');
-      fs.writeFileSync(filePath, csvContent);
-
-      const transactions = parseCSV(filePath);
-      expect(transactions).toHaveLength(1);
-    });
-
     it('should use originalFilename parameter when provided', () => {
       const csvContent = `Date,Payee,Category,Memo,Outflow,Inflow
 2025-01-15,Store,,,10.00,0`;
@@ -167,6 +177,332 @@ describe('converter', () => {
       // Negative outflow becomes positive amount
       expect(transactions[0]?.amount).toBe(50.0);
     });
+
+    it('should dispatch OFX files to the OFX parser', () => {
+      const ofxContent = `OFXHEADER:100
+DATA:OFXSGML
+
+<OFX>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20250115
+<TRNAMT>-42.00
+<FITID>12345
+<NAME>Bookshop
+</STMTTRN>
+</OFX>`;
+
+      const filePath = path.join(tempDir, 'statement.qfx');
+      fs.writeFileSync(filePath, ofxContent);
+
+      const transactions = parseCSV(filePath);
+
+      expect(transactions).toHaveLength(1);
+      expect(transactions[0]).toMatchObject({
+        date: '2025-01-15',
+        payee_name: 'Bookshop',
+        amount: -42.0,
+        import_id: 'OFX:12345',
+      });
+    });
+
+    it('should dispatch QIF files with the requested date order', () => {
+      const qifContent = `!Type:Bank
+D03/04/2025
+T-12.00
+PNewsagent
+^`;
+
+      const filePath = path.join(tempDir, 'export.qif');
+      fs.writeFileSync(filePath, qifContent);
+
+      const transactions = parseCSV(filePath, undefined, { qifDateOrder: 'dmy' });
+
+      expect(transactions).toHaveLength(1);
+      expect(transactions[0]).toMatchObject({
+        date: '2025-04-03',
+        payee_name: 'Newsagent',
+        amount: -12.0,
+      });
+    });
+
+    it('should dispatch camt XML files to the camt parser', () => {
+      const camtContent = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Ntry>
+        <Amt Ccy="CHF">25.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <BookgDt><Dt>2025-01-15</Dt></BookgDt>
+        <AddtlNtryInf>Kiosk</AddtlNtryInf>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+      const filePath = path.join(tempDir, 'camt053.xml');
+      fs.writeFileSync(filePath, camtContent);
+
+      const transactions = parseCSV(filePath);
+
+      expect(transactions).toHaveLength(1);
+      expect(transactions[0]).toMatchObject({
+        date: '2025-01-15',
+        payee_name: 'Kiosk',
+        amount: -25.0,
+      });
+    });
+  });
+
+  describe('parseStatement', () => {
+    it('should report the detected format', () => {
+      const filePath = path.join(tempDir, 'ynab-format.csv');
+      fs.writeFileSync(
+        filePath,
+        'Date,Payee,Category,Memo,Outflow,Inflow\n2025-01-15,Store,,,10.00,0'
+      );
+
+      const statement = parseStatement(filePath);
+
+      expect(statement.format).toBe('YNAB');
+      expect(statement.transactions).toHaveLength(1);
+    });
+
+    it('should surface the MT940 closing balance', () => {
+      const mt940Content = `:20:STARTUMSE
+:25:10020030/1234567
+:60F:C250101EUR100,00
+:61:2501150115D40,00NMSCNONREF
+:86:106?00KARTENZAHLUNG?20Tanken?32ARAL
+:62F:C250131EUR60,00
+-`;
+
+      const filePath = path.join(tempDir, 'statement.sta');
+      fs.writeFileSync(filePath, mt940Content);
+
+      const statement = parseStatement(filePath);
+
+      expect(statement.format).toBe('MT940');
+      expect(statement.transactions[0]).toMatchObject({ payee_name: 'ARAL', amount: -40.0 });
+      expect(statement.closingBalance).toEqual({
+        amount: 60.0,
+        date: '2025-01-31',
+        currency: 'EUR',
+      });
+    });
+
+    it('should detect the bank from the content of renamed files', () => {
+      const filePath = path.join(tempDir, 'download (1).csv');
+      fs.writeFileSync(
+        filePath,
+        `Type,Product,Started Date,Completed Date,Description,Amount,Fee,Currency,State,Balance
+CARD_PAYMENT,Current,2025-01-15 10:21:07,2025-01-16 08:00:12,Coffee Shop,-3.80,0.00,EUR,COMPLETED,96.20`
+      );
+
+      const statement = parseStatement(filePath);
+
+      expect(statement.format).toBe('Revolut');
+      expect(statement.confidence).toBeGreaterThanOrEqual(0.5);
+      expect(statement.candidates?.[0]?.name).toBe('Revolut');
+      expect(statement.transactions[0]).toMatchObject({
+        date: '2025-01-15',
+        payee_name: 'Coffee Shop',
+        amount: -3.8,
+      });
+    });
+
+    it('should keep YNAB-formatted files on the YNAB format', () => {
+      const filePath = path.join(tempDir, 'budget.csv');
+      fs.writeFileSync(
+        filePath,
+        'Date,Payee,Category,Memo,Outflow,Inflow\n2025-01-15,Store,,,10.00,0\n2025-01-16,Shop,,,5.00,0'
+      );
+
+      const statement = parseStatement(filePath);
+
+      expect(statement.format).toBe('YNAB');
+      expect(statement.confidence).toBeUndefined();
+    });
+
+    it('should use the requested bank format instead of detecting one', () => {
+      const filePath = path.join(tempDir, 'budget.csv');
+      fs.writeFileSync(
+        filePath,
+        `Type,Product,Started Date,Completed Date,Description,Amount,Fee,Currency,State,Balance
+CARD_PAYMENT,Current,2025-01-15 10:21:07,2025-01-16 08:00:12,Coffee Shop,-3.80,0.00,EUR,COMPLETED,96.20`
+      );
+
+      const statement = parseStatement(filePath, undefined, { bank: 'revolut' });
+
+      expect(statement.format).toBe('Revolut');
+      expect(statement.confidence).toBeUndefined();
+      expect(statement.transactions[0]).toMatchObject({ payee_name: 'Coffee Shop', amount: -3.8 });
+    });
+
+    it('should reject unknown bank formats', () => {
+      const filePath = path.join(tempDir, 'budget.csv');
+      fs.writeFileSync(filePath, 'Date,Payee,Outflow,Inflow\n2025-01-15,Store,10.00,');
+
+      expect(() => parseStatement(filePath, undefined, { bank: 'No Such Bank' })).toThrow(
+        ValidationError
+      );
+      expect(() => parseStatement(filePath, undefined, { bank: 'No Such Bank' })).toThrow(
+        'Unknown bank format "No Such Bank"'
+      );
+    });
+
+    it('should decode Latin-1 and UTF-16 exports', () => {
+      const content = 'Date,Payee,Category,Memo,Outflow,Inflow\n2025-01-15,Café Müller,,,3.50,0';
+      const latin1Path = path.join(tempDir, 'latin1.csv');
+      const utf16Path = path.join(tempDir, 'utf16.csv');
+      fs.writeFileSync(latin1Path, Buffer.from(content, 'latin1'));
+      fs.writeFileSync(
+        utf16Path,
+        Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(content, 'utf16le')])
+      );
+
+      expect(parseCSV(latin1Path)[0]?.payee_name).toBe('Café Müller');
+      expect(parseCSV(utf16Path)[0]?.payee_name).toBe('Café Müller');
+    });
+
+    it('should report files that match no format', () => {
+      const filePath = path.join(tempDir, 'export.txt.csv');
+      fs.writeFileSync(filePath, 'Wert;Text;Summe\n2025-01-15;Store;-10,00');
+
+      expect(() => parseStatement(filePath)).toThrow(UnknownFormatError);
+      expect(() => parseStatement(filePath)).toThrow('Headers found: Wert;Text;Summe');
+    });
+
+    it('should apply an ad-hoc column mapping', () => {
+      const filePath = path.join(tempDir, 'export.txt.csv');
+      fs.writeFileSync(filePath, 'Wert;Text;Summe\n2025-01-15;Store;-10,00');
+
+      const statement = parseStatement(filePath, undefined, {
+        format: {
+          name: 'Custom mapping',
+          pattern: '',
+          delimiter: ';',
+          headerRows: 1,
+          columns: ['Date', 'Payee', 'Amount'],
+        },
+      });
+
+      expect(statement.format).toBe('Custom mapping');
+      expect(statement.transactions).toEqual([
+        { date: '2025-01-15', payee_name: 'Store', category_name: null, memo: null, amount: -10 },
+      ]);
+    });
+
+    it('should ask for legacy .xls files to be saved as .xlsx', () => {
+      const filePath = path.join(tempDir, 'download.xls');
+      fs.writeFileSync(
+        filePath,
+        'Date,Payee,Category,Memo,Outflow,Inflow\n2025-01-15,Store,,,10.00,0'
+      );
+
+      expect(() => parseStatement(filePath)).toThrow(CsvParseError);
+      expect(() => parseStatement(filePath)).toThrow('save the file as .xlsx or CSV');
+    });
+
+    it('should explain that binary workbooks with an .xlsx name need converting', () => {
+      const legacy = Buffer.alloc(512);
+      legacy.writeUInt32BE(0xd0cf11e0, 0);
+      const filePath = path.join(tempDir, 'download.xlsx');
+      fs.writeFileSync(filePath, legacy);
+
+      expect(() => parseStatement(filePath)).toThrow(CsvParseError);
+      expect(() => parseStatement(filePath)).toThrow('save the file as .xlsx or CSV');
+    });
+  });
+
+  describe('parseStatementContent', () => {
+    it('should parse content from memory, as a string or a stream', async () => {
+      const csvContent = `Date,Payee,Category,Memo,Outflow,Inflow
+2025-01-15,Store,,,10.00,0`;
+
+      const fromString = parseStatementContent(csvContent, '');
+      const fromStream = parseStatementContent(
+        await readStream(
+          Readable.from([csvContent.slice(0, 20), Buffer.from(csvContent.slice(20))])
+        ),
+        'export.csv'
+      );
+
+      expect(fromString.format).toBe('YNAB');
+      expect(fromString.transactions).toEqual([
+        { date: '2025-01-15', payee_name: 'Store', category_name: null, memo: null, amount: -10 },
+      ]);
+      expect(fromStream.transactions).toEqual(fromString.transactions);
+    });
+
+    it('should detect the format by the filename extension', () => {
+      // MT940 without the :20: header line only looks like a statement by its extension
+      const content = ':25:CH9300762011623852957\n:28C:1/1\n:60F:C250101CHF1000,00\n';
+
+      expect(() => parseStatementContent(content, 'export.txt')).toThrow(UnknownFormatError);
+      expect(parseStatementContent(content, 'export.sta').format).toBe('MT940');
+    });
+
+    it('should read dates without a year relative to the reference date', () => {
+      const format = {
+        name: 'Card',
+        pattern: 'card',
+        columns: ['Date', 'Payee', 'Amount'],
+        dateFormat: '%d/%m',
+      };
+
+      const statement = parseStatementContent('31/12,Store,-10.00', 'export.csv', {
+        format,
+        referenceDate: new Date(2025, 0, 5),
+      });
+
+      expect(statement.transactions[0]?.date).toBe('2024-12-31');
+    });
+
+    it('should return the rows it could not read', () => {
+      const format = {
+        name: 'Card',
+        pattern: 'card',
+        headerRows: 1,
+        columns: ['Date', 'Payee', 'Amount'],
+        dateFormat: '%d.%m.%Y',
+      };
+
+      const statement = parseStatementContent(
+        'Datum,Text,Betrag\n15.01.2025,Store,-10.00\n31.02.2025,Refund,5.00',
+        'export.csv',
+        { format }
+      );
+
+      expect(statement.transactions).toHaveLength(1);
+      expect(statement.skippedRows).toEqual([
+        { row: 3, reason: 'Invalid date "31.02.2025" (expected format %d.%m.%Y)' },
+      ]);
+    });
+  });
+
+  describe('readSampleRows', () => {
+    it('should split rows with the delimiter most lines share', () => {
+      const content =
+        'Account statement\nDate;Payee;Amount\n15.01.2025;Bakery;-3,50\n\n16.01.2025;Employer;2.500,00\n';
+
+      expect(readSampleRows(content, 'statement.csv')).toEqual({
+        delimiter: ';',
+        rows: [
+          ['Account statement'],
+          ['Date', 'Payee', 'Amount'],
+          ['15.01.2025', 'Bakery', '-3,50'],
+          ['16.01.2025', 'Employer', '2.500,00'],
+        ],
+      });
+    });
+
+    it('should reject structured formats', () => {
+      const content = Buffer.from('!Type:Bank\nD01/15/2025\nT-10.00\n^\n');
+
+      expect(() => readSampleRows(content, 'statement.qif')).toThrow(ValidationError);
+    });
   });
 
   describe('validateCSV', () => {
@@ -199,6 +535,13 @@ Store,10.00`;
       expect(() => validateCSV(filePath)).toThrow('CSV file has no header line');
     });
 
+    it('should skip the header check for OFX files', () => {
+      const filePath = path.join(tempDir, 'statement.ofx');
+      fs.writeFileSync(filePath, 'OFXHEADER:100\n\n<OFX>\n</OFX>');
+
+      expect(() => validateCSV(filePath)).not.toThrow();
+    });
+
     it('should be case-insensitive for column names', () => {
       const csvContent = `DATE,PAYEE,AMOUNT
 2025-01-15,Store,10.00`;
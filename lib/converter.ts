@@ -1,42 +1,429 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import { parse } from 'csv-parse/sync';
-import { CsvParseError } from './errors.js';
+import { CsvParseError, UnknownFormatError, ValidationError } from './errors.js';
 import { getLogger } from './logger.js';
-import { findMatchingConfig, getBank2YnabConfigs } from './parsers/bank2ynab-fetcher.js';
-import { parseBank2YnabCSV } from './parsers/bank2ynab-generic.js';
-import type { CsvRecord, Transaction } from './types.js';
-
-export function parseCSV(filePath: string, originalFilename?: string): Transaction[] {
-  // Use original filename if provided (from web upload), otherwise use basename
-  let filename = path.basename(filePath);
-
-  // If filename starts with 'ynab-' (temp file), try to extract original name
-  if (filename.startsWith('ynab-') && filename.includes('-')) {
-    // Format: ynab-{random}-{originalFilename}
-    const parts = filename.split('-');
-    if (parts.length >= 3) {
-      // Join everything after the second dash (the random hash)
-      filename = parts.slice(2).join('-');
-    }
+import { detectDecimalSeparator, parseAmount } from './parsers/amount-parser.js';
+import { type BankMatch, detectBankFormats } from './parsers/bank-detector.js';
+import {
+  type Bank2YnabConfig,
+  findConfigByName,
+  getBankConfigs,
+} from './parsers/bank2ynab-fetcher.js';
+import {
+  parseBank2YnabBalance,
+  parseBank2YnabRows,
+  readBank2YnabRecords,
+} from './parsers/bank2ynab-generic.js';
+import { isCamt, parseCamt, parseCamtBalance } from './parsers/camt.js';
+import { decodeText } from './parsers/encoding.js';
+import { isMT940, parseMT940 } from './parsers/mt940.js';
+import { isOFX, parseOFX, parseOFXBalance } from './parsers/ofx.js';
+import { isQIF, parseQIF, type QifDateOrder } from './parsers/qif.js';
+import { excelSerialToIsoDate, readXlsxSheet, type XlsxSheet } from './parsers/xlsx.js';
+import type { CsvRecord, FormatMatch, ParsedStatement, Transaction } from './types.js';
+
+// File extensions accepted by the CLI and the web upload
+export const SUPPORTED_EXTENSIONS = [
+  '.csv',
+  '.ofx',
+  '.qfx',
+  '.qif',
+  '.xml',
+  '.sta',
+  '.mt940',
+  '.xlsx',
+] as const;
+
+// Minimum confidence for reading a file with a bank format instead of YNAB columns
+const MIN_BANK_CONFIDENCE = 0.5;
+
+// Number of bank formats reported as candidates
+const MAX_CANDIDATES = 3;
+
+export type FileFormat = 'csv' | 'ofx' | 'qif' | 'camt' | 'mt940' | 'xlsx';
+
+export interface ParseOptions {
+  // Day/month order for QIF files; inferred from the dates when not set
+  qifDateOrder?: QifDateOrder;
+  // Worksheet name or 1-based position for Excel files; defaults to the first sheet
+  sheet?: string;
+  // bank2ynab format name for CSV/Excel files, skipping auto-detection
+  bank?: string;
+  // Column mapping for CSV/Excel files that aren't saved as a format, e.g. from the mapping wizard
+  format?: Bank2YnabConfig;
+  // Character encoding of text files, e.g. windows-1252; detected when not set
+  encoding?: string;
+  // End of the statement period, for bank formats whose dates have no year.
+  // Defaults to the file's modification time, or today for content in memory.
+  referenceDate?: Date;
+}
+
+export interface SampleRows {
+  // Column delimiter of CSV files; null for Excel files
+  delimiter: string | null;
+  rows: string[][];
+}
+
+// Rows shown when mapping the columns of an unknown file
+const SAMPLE_ROW_LIMIT = 20;
+
+/**
+ * Throws for legacy Excel (.xls) files, which can't be read and need to be saved as .xlsx
+ */
+export function rejectLegacyExcel(filename: string): void {
+  if (path.extname(filename).toLowerCase() === '.xls') {
+    throw new CsvParseError(
+      'Legacy Excel .xls files are not supported. Please save the file as .xlsx or CSV.'
+    );
   }
+}
 
-  // Override with explicit originalFilename if provided
-  if (originalFilename) {
-    filename = originalFilename;
+/**
+ * Detects the statement format from the file content, falling back to the extension
+ */
+export function detectFileFormat(filename: string, content: string): FileFormat {
+  rejectLegacyExcel(filename);
+  const extension = path.extname(filename).toLowerCase();
+
+  // .xlsx is a zip archive
+  if (content.startsWith('PK\u0003\u0004') || extension === '.xlsx') {
+    return 'xlsx';
+  }
+  if (isOFX(content)) {
+    return 'ofx';
+  }
+  if (isQIF(content)) {
+    return 'qif';
+  }
+  if (isCamt(content)) {
+    return 'camt';
+  }
+  if (isMT940(content)) {
+    return 'mt940';
+  }
+
+  if (extension === '.ofx' || extension === '.qfx') {
+    return 'ofx';
+  }
+  if (extension === '.qif') {
+    return 'qif';
+  }
+  if (extension === '.xml') {
+    return 'camt';
+  }
+  if (extension === '.sta' || extension === '.mt940') {
+    return 'mt940';
   }
 
-  // Use bank2ynab configs (110+ bank formats, bundled at build time)
-  const bank2ynabConfigs = getBank2YnabConfigs();
-  const matchedConfig = findMatchingConfig(filename, bank2ynabConfigs);
+  return 'csv';
+}
 
+export function parseCSV(
+  filePath: string,
+  originalFilename?: string,
+  options: ParseOptions = {}
+): Transaction[] {
+  return parseStatement(filePath, originalFilename, options).transactions;
+}
+
+/**
+ * Parses a statement file, auto-detecting its format, and returns the
+ * transactions together with statement-level data such as balances
+ */
+export function parseStatement(
+  filePath: string,
+  originalFilename?: string,
+  options: ParseOptions = {}
+): ParsedStatement {
+  // An upload's original name helps detect the bank
+  return parseStatementContent(
+    fs.readFileSync(filePath),
+    originalFilename || path.basename(filePath),
+    { ...options, referenceDate: options.referenceDate ?? fs.statSync(filePath).mtime }
+  );
+}
+
+/**
+ * Parses a statement already in memory, e.g. an upload or piped input. The
+ * filename only helps detection, by its extension and bank filename patterns.
+ */
+export function parseStatementContent(
+  content: string | Buffer,
+  filename: string,
+  options: ParseOptions = {}
+): ParsedStatement {
+  const buffer = typeof content === 'string' ? Buffer.from(content) : content;
+  const fileContent = decodeText(buffer, options.encoding);
+  const fileFormat = detectFileFormat(filename, fileContent);
+
+  if (fileFormat === 'xlsx') {
+    getLogger().info('Detected Excel workbook');
+    return parseSpreadsheet(buffer, filename, options);
+  }
+
+  if (fileFormat === 'ofx') {
+    getLogger().info('Detected OFX format');
+    return {
+      format: 'OFX',
+      transactions: parseOFX(fileContent),
+      closingBalance: parseOFXBalance(fileContent),
+    };
+  }
+
+  if (fileFormat === 'qif') {
+    getLogger().info('Detected QIF format');
+    return {
+      format: 'QIF',
+      transactions: parseQIF(fileContent, { dateOrder: options.qifDateOrder }),
+    };
+  }
+
+  if (fileFormat === 'camt') {
+    getLogger().info('Detected ISO 20022 camt format');
+    return {
+      format: 'camt',
+      transactions: parseCamt(fileContent),
+      closingBalance: parseCamtBalance(fileContent),
+    };
+  }
+
+  if (fileFormat === 'mt940') {
+    getLogger().info('Detected MT940 format');
+    return parseMT940(fileContent);
+  }
+
+  const forcedConfig = resolveBankOption(options);
+  if (forcedConfig) {
+    return parseBankRecords(
+      readBank2YnabRecords(buffer, forcedConfig, { encoding: options.encoding }),
+      forcedConfig,
+      options
+    );
+  }
+
+  // Use custom formats and bank2ynab configs (110+ bank formats, bundled at build time)
+  const matches = detectBankFormats(filename, fileContent, getBankConfigs());
+  const firstLine = fileContent.split('\n')[0] || '';
+  const match = selectBankFormat(matches, firstLine.split(detectDelimiter(firstLine)));
+  const candidates = toCandidates(matches);
+
+  if (match) {
+    return {
+      ...parseBankRecords(
+        readBank2YnabRecords(buffer, match.config, { encoding: options.encoding }),
+        match.config,
+        options
+      ),
+      confidence: match.confidence,
+      candidates,
+    };
+  }
+
+  if (!hasYnabHeader(firstLine.split(detectDelimiter(firstLine)))) {
+    throw new UnknownFormatError(`Unrecognized file format. Headers found: ${firstLine.trim()}`);
+  }
+
+  getLogger().info('Using YNAB format');
+  return { format: 'YNAB', transactions: parseYnabCSV(fileContent), candidates };
+}
+
+/**
+ * Collects a stream, e.g. stdin, into one buffer to parse
+ */
+export async function readStream(stream: AsyncIterable<string | Buffer>): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Reads the first rows of a CSV or Excel file as raw cells, so that the columns
+ * of an unknown layout can be mapped by hand
+ */
+export function readSampleRows(
+  content: string | Buffer,
+  filename: string,
+  options: { delimiter?: string; sheet?: string; encoding?: string } = {}
+): SampleRows {
+  const buffer = typeof content === 'string' ? Buffer.from(content) : content;
+  const fileContent = decodeText(buffer, options.encoding);
+  const fileFormat = detectFileFormat(filename, fileContent);
+  const isNotEmpty = (row: string[]) => row.some((cell) => cell.trim() !== '');
+
+  if (fileFormat === 'xlsx') {
+    const sheet = readXlsxSheet(buffer, options.sheet);
+    return { delimiter: null, rows: sheet.rows.filter(isNotEmpty).slice(0, SAMPLE_ROW_LIMIT) };
+  }
+  if (fileFormat !== 'csv') {
+    throw new ValidationError('Only CSV and Excel files have columns to map', 'file');
+  }
+
+  const lines = fileContent
+    .split('\n')
+    .filter((line) => line.trim() !== '')
+    .slice(0, SAMPLE_ROW_LIMIT);
+  const delimiter = options.delimiter || guessDelimiter(lines);
+  const rows = parse(lines.join('\n'), {
+    columns: false,
+    skip_empty_lines: true,
+    trim: true,
+    delimiter,
+    relax_column_count: true,
+    relax_quotes: true,
+  }) as string[][];
+
+  return { delimiter, rows: rows.filter(isNotEmpty) };
+}
+
+/**
+ * Maps CSV or Excel rows to transactions with a bank2ynab config, keeping the
+ * closing balance when the bank exports a running balance and the rows that
+ * couldn't be read
+ */
+function parseBankRecords(
+  records: string[][],
+  config: Bank2YnabConfig,
+  { referenceDate }: ParseOptions
+): ParsedStatement {
+  const closingBalance = parseBank2YnabBalance(records, config, { referenceDate });
+  const { transactions, skippedRows } = parseBank2YnabRows(records, config, { referenceDate });
+  return {
+    format: config.name,
+    transactions,
+    skippedRows,
+    ...(closingBalance && { closingBalance }),
+    importIdStrategy: config.importIdStrategy,
+  };
+}
+
+/**
+ * Looks up the bank format requested by the user, if any
+ */
+function resolveBankOption({ bank, format }: ParseOptions): Bank2YnabConfig | null {
+  if (format) {
+    getLogger().info(`Using ${format.name} format`);
+    return format;
+  }
+  if (!bank) {
+    return null;
+  }
+
+  const config = findConfigByName(bank, getBankConfigs());
+  if (!config) {
+    throw new ValidationError(
+      `Unknown bank format "${bank}". Run "ynab banks" to list the available formats.`,
+      'bank'
+    );
+  }
+
+  getLogger().info(`Using ${config.name} format`);
+  return config;
+}
+
+/**
+ * Picks the bank format for a CSV/Excel file from the ranked matches.
+ * Files with YNAB column headers only use a bank format if the filename matches too.
+ */
+function selectBankFormat(matches: BankMatch[], headerRow: string[]): BankMatch | null {
+  const [best] = matches;
+  if (!best || best.confidence < MIN_BANK_CONFIDENCE) {
+    return null;
+  }
+
+  if (hasYnabHeader(headerRow) && !best.filenameMatch) {
+    return null;
+  }
+
+  getLogger().info(
+    `Detected ${best.config.name} format (${Math.round(best.confidence * 100)}% confidence)`
+  );
+  return best;
+}
+
+function hasYnabHeader(headerRow: string[]): boolean {
+  const headers = headerRow.map((header) => header.replace(/"/g, '').trim().toLowerCase());
+  return headers.includes('date') && (headers.includes('inflow') || headers.includes('outflow'));
+}
+
+function toCandidates(matches: BankMatch[]): FormatMatch[] {
+  return matches
+    .slice(0, MAX_CANDIDATES)
+    .map((match) => ({ name: match.config.name, confidence: match.confidence }));
+}
+
+/**
+ * Parses an Excel worksheet with the same bank2ynab mapping as CSV files,
+ * or as YNAB columns when no bank format matches
+ */
+function parseSpreadsheet(
+  buffer: Buffer,
+  filename: string,
+  options: ParseOptions
+): ParsedStatement {
+  const sheet = readXlsxSheet(buffer, options.sheet);
+  getLogger().info(`Reading sheet "${sheet.name}"`);
+
+  const nonEmptyRows = sheet.rows.filter((row) => row.some((cell) => cell.trim() !== ''));
+  const forcedConfig = resolveBankOption(options);
+  const matches = forcedConfig ? [] : detectBankFormats(filename, sheet.rows, getBankConfigs());
+  const match = forcedConfig ? null : selectBankFormat(matches, nonEmptyRows[0] || []);
+  const candidates = forcedConfig ? undefined : toCandidates(matches);
+
+  const matchedConfig = forcedConfig || match?.config;
   if (matchedConfig) {
-    getLogger().info(`Detected ${matchedConfig.name} format`);
-    return parseBank2YnabCSV(filePath, matchedConfig);
+    const headerRows = matchedConfig.headerRows || 0;
+    const footerRows = matchedConfig.footerRows || 0;
+    const dateColumn = (matchedConfig.columns || []).indexOf('Date');
+
+    const rows = sheet.rows
+      .slice(headerRows, footerRows > 0 ? -footerRows : undefined)
+      .filter((row) => row.some((cell) => cell.trim() !== ''))
+      .map((row) =>
+        row.map((cell, index) =>
+          index === dateColumn ? convertSerialDate(cell, sheet) : cell.trim()
+        )
+      );
+
+    return {
+      ...parseBankRecords(rows, matchedConfig, options),
+      confidence: match?.confidence,
+      candidates,
+    };
+  }
+
+  const [headers = [], ...rows] = nonEmptyRows;
+  if (!hasYnabHeader(headers)) {
+    throw new UnknownFormatError(
+      `Unrecognized worksheet layout. Headers found: ${headers.join(', ')}`
+    );
   }
 
   getLogger().info('Using YNAB format');
-  return parseYnabCSV(filePath);
+  const records = rows.map((row) => {
+    const record: CsvRecord = {};
+    headers.forEach((header, index) => {
+      record[header.trim()] = (row[index] || '').trim();
+    });
+    if (record.Date) {
+      record.Date = convertSerialDate(record.Date, sheet);
+    }
+    return record;
+  });
+
+  return { format: 'YNAB', transactions: mapYnabRecords(records), candidates };
+}
+
+/**
+ * Converts dates stored as plain numbers (cells without a date format) to ISO dates
+ */
+function convertSerialDate(value: string, sheet: XlsxSheet): string {
+  const trimmed = value.trim();
+  return /^\d{5}(\.\d+)?$/.test(trimmed)
+    ? excelSerialToIsoDate(Number(trimmed), sheet.date1904)
+    : trimmed;
 }
 
 /**
@@ -50,12 +437,37 @@ function detectDelimiter(content: string): string {
   return semicolons > commas ? ';' : ',';
 }
 
+/**
+ * Picks the delimiter that splits the most lines into the same number of columns.
+ * Unlike detectDelimiter this copes with title lines and decimal commas.
+ */
+function guessDelimiter(lines: string[]): string {
+  let best = { delimiter: ',', score: 0 };
+
+  for (const delimiter of [',', ';', '\t', '|']) {
+    const counts = new Map<number, number>();
+    for (const line of lines) {
+      const count = line.split(delimiter).length - 1;
+      if (count > 0) {
+        counts.set(count, (counts.get(count) || 0) + 1);
+      }
+    }
+
+    for (const [count, lineCount] of counts) {
+      if (count * lineCount > best.score) {
+        best = { delimiter, score: count * lineCount };
+      }
+    }
+  }
+
+  return best.delimiter;
+}
+
 /**
  * Parses a YNAB-formatted CSV file
  * Expected format: Date,Payee,Category,Memo,Outflow,Inflow
  */
-function parseYnabCSV(filePath: string): Transaction[] {
-  const fileContent = fs.readFileSync(filePath, 'utf-8');
+function parseYnabCSV(fileContent: string): Transaction[] {
   const delimiter = detectDelimiter(fileContent);
 
   const records = parse(fileContent, {
@@ -67,13 +479,24 @@ function parseYnabCSV(filePath: string): Transaction[] {
     relax_column_count: true,
   }) as CsvRecord[];
 
+  return mapYnabRecords(records);
+}
+
+/**
+ * Maps records keyed by YNAB column names to transactions
+ */
+function mapYnabRecords(records: CsvRecord[]): Transaction[] {
   if (!Array.isArray(records) || records.length === 0) {
     throw new CsvParseError('CSV file contains no data rows');
   }
 
+  const decimalSeparator = detectDecimalSeparator(
+    records.flatMap((row) => [row.Outflow, row.Inflow])
+  );
+
   return records.map((row, index) => {
-    const outflow = parseAmount(row.Outflow);
-    const inflow = parseAmount(row.Inflow);
+    const outflow = parseAmount(row.Outflow, { decimalSeparator });
+    const inflow = parseAmount(row.Inflow, { decimalSeparator });
 
     // Calculate amount (inflow is positive, outflow is negative)
     const amount = inflow - outflow;
@@ -93,29 +516,16 @@ function parseYnabCSV(filePath: string): Transaction[] {
 }
 
 /**
- * Parses an amount string and returns a number
+ * Validates that the CSV has a supported format
  */
-function parseAmount(amountStr: string | undefined): number {
-  if (!amountStr || amountStr === '' || amountStr === '0') {
-    return 0;
-  }
+export function validateCSV(filePath: string, encoding?: string): void {
+  const fileContent = decodeText(fs.readFileSync(filePath), encoding);
 
-  // Remove currency symbols, commas, and whitespace
-  const cleaned = amountStr.replace(/[^0-9.-]/g, '');
-  const amount = parseFloat(cleaned);
-
-  if (Number.isNaN(amount)) {
-    return 0;
+  // Structured formats are validated by their own parser
+  if (detectFileFormat(filePath, fileContent) !== 'csv') {
+    return;
   }
 
-  return amount;
-}
-
-/**
- * Validates that the CSV has a supported format
- */
-export function validateCSV(filePath: string): void {
-  const fileContent = fs.readFileSync(filePath, 'utf-8');
   const lines = fileContent.split('\n');
 
   if (lines.length === 0) {
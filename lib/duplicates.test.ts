@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'bun:test';
+import { checkDuplicates, excludeRows } from './duplicates.js';
+import type { Transaction } from './types.js';
+
+const tx = (date: string, amount: number, importId: string | null = null): Transaction => ({
+  date,
+  payee_name: 'Coffee',
+  category_name: null,
+  memo: null,
+  amount,
+  import_id: importId,
+});
+
+const existing = (id: string, date: string, amount: number, importId?: string) => ({
+  id,
+  date,
+  amount,
+  payee_name: `Payee ${id}`,
+  import_id: importId,
+});
+
+describe('duplicates', () => {
+  describe('checkDuplicates', () => {
+    it('should flag matching import IDs as duplicates', () => {
+      const [check] = checkDuplicates(
+        [tx('2025-03-12', -4.5, 'OFX:1')],
+        [existing('a', '2025-03-12', -4500, 'OFX:1')]
+      );
+
+      expect(check).toEqual({
+        status: 'duplicate',
+        match: { id: 'a', date: '2025-03-12', payee: 'Payee a', amount: -4.5 },
+      });
+    });
+
+    it('should flag the same amount a few days apart as a probable match', () => {
+      const checks = checkDuplicates(
+        [tx('2025-03-12', -4.5), tx('2025-03-12', -12), tx('2025-03-20', -4.5)],
+        [existing('a', '2025-03-10', -4500), existing('b', '2025-03-12', -11000)]
+      );
+
+      expect(checks.map((check) => check.status)).toEqual(['probable', 'new', 'new']);
+      expect(checks[0]?.match?.id).toBe('a');
+    });
+
+    it('should match each existing transaction only once, exact matches first', () => {
+      const checks = checkDuplicates(
+        [tx('2025-03-12', -4.5), tx('2025-03-12', -4.5, 'OFX:2'), tx('2025-03-13', -4.5)],
+        [existing('a', '2025-03-12', -4500, 'OFX:2'), existing('b', '2025-03-13', -4500)]
+      );
+
+      expect(checks.map((check) => [check.status, check.match?.id])).toEqual([
+        ['probable', 'b'],
+        ['duplicate', 'a'],
+        ['new', undefined],
+      ]);
+    });
+  });
+
+  describe('excludeRows', () => {
+    it('should drop rows by their 1-based number', () => {
+      const transactions = [tx('2025-03-01', -1), tx('2025-03-02', -2), tx('2025-03-03', -3)];
+
+      expect(excludeRows(transactions, [1, 3]).map((t) => t.amount)).toEqual([-2]);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import type * as ynab from 'ynab';
+import type { Transaction } from './types.js';
+import { listTransactions } from './uploader.js';
+
+// How far apart a bank's booking date and a hand-entered date can be
+export const PROBABLE_MATCH_DAYS = 3;
+
+/**
+ * - new: nothing in YNAB looks like this transaction
+ * - duplicate: YNAB has its import_id, so it would be skipped anyway
+ * - probable: a transaction with the same amount a few days apart, e.g. one
+ *   entered by hand, which uploading would double
+ */
+export type DuplicateStatus = 'new' | 'duplicate' | 'probable';
+
+// The YNAB transaction a parsed one was matched with
+export interface ExistingMatch {
+  id: string;
+  date: string;
+  payee: string | null;
+  amount: number;
+}
+
+export interface DuplicateCheck {
+  status: DuplicateStatus;
+  match?: ExistingMatch;
+}
+
+type ExistingTransaction = Pick<
+  ynab.TransactionDetail,
+  'id' | 'date' | 'amount' | 'payee_name' | 'import_id'
+>;
+
+/**
+ * Compares parsed transactions with the ones already in the account, returning
+ * a check per transaction. Each existing transaction matches at most one parsed
+ * one, and matching import_ids are claimed before amounts are compared.
+ */
+export function checkDuplicates(
+  transactions: Transaction[],
+  existing: ExistingTransaction[],
+  windowDays = PROBABLE_MATCH_DAYS
+): DuplicateCheck[] {
+  const claimed = new Set<string>();
+  const byImportId = new Map(existing.flatMap((tx) => (tx.import_id ? [[tx.import_id, tx]] : [])));
+
+  const checks: (DuplicateCheck | undefined)[] = transactions.map((tx) => {
+    const match = tx.import_id ? byImportId.get(tx.import_id) : undefined;
+    if (!match) return undefined;
+    claimed.add(match.id);
+    return { status: 'duplicate', match: toMatch(match) };
+  });
+
+  return transactions.map((tx, index) => {
+    const exact = checks[index];
+    if (exact) return exact;
+
+    const milliunits = Math.round(tx.amount * 1000);
+    const candidates = existing
+      .filter((other) => !claimed.has(other.id) && other.amount === milliunits)
+      .map((other) => ({ other, days: daysBetween(tx.date, other.date) }))
+      .filter(({ days }) => days <= windowDays)
+      .sort((a, b) => a.days - b.days);
+    const closest = candidates[0]?.other;
+    if (!closest) return { status: 'new' };
+
+    claimed.add(closest.id);
+    return { status: 'probable', match: toMatch(closest) };
+  });
+}
+
+/**
+ * Fetches the account's transactions around the statement's dates and checks
+ * the parsed transactions against them
+ */
+export async function findDuplicates(
+  accessToken: string,
+  budgetId: string,
+  accountId: string,
+  transactions: Transaction[]
+): Promise<DuplicateCheck[]> {
+  if (transactions.length === 0) {
+    return [];
+  }
+
+  // The API filters by start date only; later transactions just never match
+  const earliest = transactions.reduce(
+    (min, tx) => (tx.date < min ? tx.date : min),
+    transactions[0]?.date ?? ''
+  );
+  const since = new Date(`${earliest}T00:00:00Z`);
+  since.setUTCDate(since.getUTCDate() - PROBABLE_MATCH_DAYS);
+
+  const existing = await listTransactions(
+    accessToken,
+    budgetId,
+    accountId,
+    since.toISOString().slice(0, 10)
+  );
+  return checkDuplicates(transactions, existing);
+}
+
+/**
+ * Removes the transactions with the given 1-based row numbers, as numbered in
+ * the preview
+ */
+export function excludeRows(transactions: Transaction[], rows: number[]): Transaction[] {
+  const excluded = new Set(rows);
+  return transactions.filter((_, index) => !excluded.has(index + 1));
+}
+
+function toMatch(tx: ExistingTransaction): ExistingMatch {
+  return { id: tx.id, date: tx.date, payee: tx.payee_name ?? null, amount: tx.amount / 1000 };
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(Date.parse(a) - Date.parse(b)) / 86_400_000;
+}
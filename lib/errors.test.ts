@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  ConfigError,
+  CsvParseError,
+  getExitCode,
+  toErrorResult,
+  UnknownFormatError,
+  ValidationError,
+  YnabApiError,
+} from './errors.js';
+
+describe('errors', () => {
+  describe('getExitCode', () => {
+    it('should give every kind of error its own exit code', () => {
+      expect(getExitCode(new ConfigError('x'))).toBe(2);
+      expect(getExitCode(new CsvParseError('x'))).toBe(3);
+      expect(getExitCode(new UnknownFormatError('x'))).toBe(3);
+      expect(getExitCode(new YnabApiError('x'))).toBe(4);
+      expect(getExitCode(new ValidationError('x'))).toBe(5);
+      expect(getExitCode(new Error('x'))).toBe(1);
+    });
+  });
+
+  describe('toErrorResult', () => {
+    it('should carry the error code and details', () => {
+      expect(toErrorResult(new ValidationError('Bad row', 'exclude'))).toEqual({
+        code: 'VALIDATION_ERROR',
+        message: 'Bad row',
+        field: 'exclude',
+      });
+      expect(toErrorResult(new YnabApiError('Too many requests', 429))).toEqual({
+        code: 'YNAB_API_ERROR',
+        message: 'Too many requests',
+        statusCode: 429,
+      });
+      expect(toErrorResult('oops')).toEqual({ code: 'UNKNOWN_ERROR', message: 'oops' });
+    });
+  });
+});
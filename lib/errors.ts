@@ -1,3 +1,5 @@
+import { type OutputFormat, printRecord } from './output.js';
+
 // Type-safe error handling
 
 export abstract class AppError extends Error {
@@ -49,6 +51,28 @@ export class ValidationError extends AppError {
   }
 }
 
+// No bank format matches and the columns aren't in YNAB format either
+export class UnknownFormatError extends AppError {
+  readonly code = 'UNKNOWN_FORMAT' as const;
+}
+
+// Exit codes of the CLI by error code; other errors exit with 1
+export const EXIT_CODES: Record<string, number> = {
+  CONFIG_ERROR: 2,
+  CSV_PARSE_ERROR: 3,
+  UNKNOWN_FORMAT: 3,
+  YNAB_API_ERROR: 4,
+  VALIDATION_ERROR: 5,
+};
+
+// An error as the CLI's JSON output reports it
+export interface ErrorResult {
+  code: string;
+  message: string;
+  field?: string;
+  statusCode?: number;
+}
+
 // Type guard
 export function isAppError(error: unknown): error is AppError {
   return error instanceof AppError;
@@ -66,14 +90,32 @@ export function getErrorMessage(error: unknown): string {
 }
 
 // Error handler for CLI
-export function handleCliError(error: unknown): never {
+export function getExitCode(error: unknown): number {
+  return (isAppError(error) && EXIT_CODES[error.code]) || 1;
+}
+
+export function toErrorResult(error: unknown): ErrorResult {
+  return {
+    code: isAppError(error) ? error.code : 'UNKNOWN_ERROR',
+    message: getErrorMessage(error),
+    ...(error instanceof ValidationError && error.field && { field: error.field }),
+    ...(error instanceof YnabApiError && error.statusCode && { statusCode: error.statusCode }),
+  };
+}
+
+export function handleCliError(error: unknown, output: OutputFormat = 'text'): never {
   const message = getErrorMessage(error);
   console.error('Error:', message);
+  if (output === 'json') {
+    process.stdout.write(`${JSON.stringify({ error: toErrorResult(error) }, null, 2)}\n`);
+  } else if (output === 'ndjson') {
+    printRecord('error', toErrorResult(error));
+  }
 
   if (isAppError(error) && process.env.DEBUG) {
     console.error('Error code:', error.code);
     console.error('Stack:', error.stack);
   }
 
-  process.exit(1);
+  process.exit(getExitCode(error));
 }
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'bun:test';
+import { suggestMapping } from './mapping.js';
+
+describe('mapping', () => {
+  describe('suggestMapping', () => {
+    it('should map columns by their titles', () => {
+      const suggestion = suggestMapping([
+        ['Kontoauszug Girokonto'],
+        ['Buchungstag', 'Valuta', 'Empfänger', 'Verwendungszweck', 'Soll', 'Haben'],
+        ['15.01.2025', '15.01.2025', 'Bäckerei', 'Brot', '3,50', ''],
+        ['16.01.2025', '16.01.2025', 'Arbeitgeber', 'Lohn', '', '2.500,00'],
+      ]);
+
+      expect(suggestion).toEqual({
+        headerRows: 2,
+        columns: ['Date', 'skip', 'Payee', 'Memo', 'Outflow', 'Inflow'],
+        dateFormat: '%d.%m.%Y',
+      });
+    });
+
+    it('should recognise running balance columns', () => {
+      const suggestion = suggestMapping([
+        ['Date', 'Description', 'Amount', 'Balance'],
+        ['2025-01-15', 'Coffee Shop', '-3.80', '996.20'],
+      ]);
+
+      expect(suggestion.columns).toEqual(['Date', 'Payee', 'Amount', 'Running Balance']);
+    });
+
+    it('should map headerless files by their values', () => {
+      const suggestion = suggestMapping([
+        ['01/15/2025', '4711', 'Coffee Shop', '-3.80'],
+        ['01/16/2025', '4712', 'Salary', '2500.00'],
+      ]);
+
+      expect(suggestion).toEqual({
+        headerRows: 0,
+        columns: ['Date', 'skip', 'Payee', 'Amount'],
+        dateFormat: '%m/%d/%Y',
+      });
+    });
+
+    it('should not take plain numbers for amounts', () => {
+      const suggestion = suggestMapping([
+        ['Date', 'Ref', 'Details'],
+        ['2025-01-15', '123', 'Store'],
+      ]);
+
+      expect(suggestion.columns).toEqual(['Date', 'skip', 'Payee']);
+    });
+  });
+});
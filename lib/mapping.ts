@@ -0,0 +1,130 @@
+import { parseAmount } from './parsers/amount-parser.js';
+import { guessDateFormat } from './parsers/date-parser.js';
+
+// Fields a column can be mapped to; "skip" ignores the column
+export const MAPPING_FIELDS = [
+  'Date',
+  'Payee',
+  'Memo',
+  'Inflow',
+  'Outflow',
+  'Amount',
+  'Reference',
+  'Running Balance',
+  'skip',
+];
+
+export interface MappingSuggestion {
+  headerRows: number;
+  columns: string[];
+  dateFormat?: string;
+}
+
+// Header rows are looked for among the first rows only
+const MAX_HEADER_ROWS = 10;
+
+// Column titles that give the field away (English, German, French, Dutch, Spanish).
+// Order matters: "Credit amount" is an inflow rather than a signed amount.
+const HEADER_HINTS: [string, RegExp][] = [
+  ['Date', /date|datum|buchungstag|fecha/i],
+  ['Running Balance', /balance|saldo|solde|kontostand/i],
+  ['Outflow', /debit|outflow|withdrawal|paid out|soll|ausgang|débit|cargo/i],
+  ['Inflow', /credit|inflow|deposit|paid in|haben|eingang|crédit|abono/i],
+  ['Amount', /amount|betrag|montant|bedrag|importe|umsatz/i],
+  [
+    'Payee',
+    /payee|description|merchant|counterparty|name|empf[aä]nger|beg[uü]nstigter|auftraggeber|libell[eé]|omschrijving|concepto/i,
+  ],
+  ['Memo', /memo|reference|verwendungszweck|purpose|details|note|mitteilung|mededeling/i],
+];
+
+/**
+ * Guesses a column mapping for the sample rows of an unknown file: where the
+ * transactions start, which column holds what, and the date format
+ */
+export function suggestMapping(rows: string[][]): MappingSuggestion {
+  const firstDataRow = rows
+    .slice(0, MAX_HEADER_ROWS)
+    .findIndex((row) => row.some((cell) => guessDateFormat([cell]) !== undefined));
+  const headerRows = firstDataRow === -1 ? Math.min(rows.length - 1, 1) : firstDataRow;
+  const header = headerRows > 0 ? rows[headerRows - 1] || [] : [];
+  const data = rows.slice(headerRows);
+  const width = Math.max(0, ...rows.map((row) => row.length));
+
+  const columns: string[] = [];
+  const used = new Set<string>();
+  const hasAmount = () => ['Amount', 'Inflow', 'Outflow'].some((field) => used.has(field));
+
+  for (let index = 0; index < width; index++) {
+    const values = data.map((row) => row[index] || '');
+    const title = header[index] || '';
+
+    const hinted = HEADER_HINTS.find(
+      ([field, pattern]) => !used.has(field) && pattern.test(title) && fits(field, values)
+    )?.[0];
+    let field = hinted || 'skip';
+
+    if (!hinted && !used.has('Date') && guessDateFormat(values)) {
+      field = 'Date';
+    } else if (!hinted && !hasAmount() && isAmountColumn(values)) {
+      field = 'Amount';
+    }
+
+    used.add(field);
+    columns.push(field);
+  }
+
+  // Without a title to go by, the first text column is the most likely payee
+  if (!used.has('Payee')) {
+    const payeeColumn = columns.findIndex(
+      (field, index) => field === 'skip' && data.some((row) => /[a-z]{3,}/i.test(row[index] || ''))
+    );
+    const memoColumn = columns.indexOf('Memo');
+    if (payeeColumn !== -1) {
+      columns[payeeColumn] = 'Payee';
+    } else if (memoColumn !== -1) {
+      columns[memoColumn] = 'Payee';
+    }
+  }
+
+  const dateColumn = columns.indexOf('Date');
+  return {
+    headerRows,
+    columns,
+    dateFormat:
+      dateColumn === -1 ? undefined : guessDateFormat(data.map((row) => row[dateColumn] || '')),
+  };
+}
+
+function fits(field: string, values: string[]): boolean {
+  if (field === 'Date') {
+    return guessDateFormat(values) !== undefined;
+  }
+  if (['Amount', 'Inflow', 'Outflow', 'Running Balance'].includes(field)) {
+    return isAmountColumn(values, true);
+  }
+  return true;
+}
+
+/**
+ * Amount columns hold numbers with decimals or signs; plain integers are
+ * more likely IDs or reference numbers, unless the title says otherwise
+ */
+function isAmountColumn(values: string[], titled = false): boolean {
+  const filled = values.map((value) => value.trim()).filter(Boolean);
+  if (filled.length === 0) {
+    return titled;
+  }
+
+  return filled.every((value) => {
+    if (!/\d/.test(value) || /[a-z]{4,}/i.test(value)) {
+      return false;
+    }
+    try {
+      parseAmount(value);
+      return titled || /[.,]\d{1,2}\b|^[-(−]|[-)]$/.test(value);
+    } catch {
+      return false;
+    }
+  });
+}
@@ -0,0 +1,36 @@
+export const OUTPUT_FORMATS = ['text', 'json', 'ndjson'] as const;
+
+/**
+ * How the CLI prints results:
+ * - text: for people
+ * - json: one JSON document, e.g. {"budgets": [...]}
+ * - ndjson: one JSON object per line, each tagged with its type, e.g.
+ *   {"type": "budget", ...}
+ */
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * Prints a list of results for scripts, keyed by `key` in a JSON document or as
+ * NDJSON lines of the given type
+ */
+export function printRecords(
+  format: Exclude<OutputFormat, 'text'>,
+  key: string,
+  type: string,
+  records: object[]
+): void {
+  if (format === 'json') {
+    process.stdout.write(`${JSON.stringify({ [key]: records }, null, 2)}\n`);
+    return;
+  }
+  for (const record of records) {
+    printRecord(type, record);
+  }
+}
+
+/**
+ * Prints one NDJSON line, e.g. for results that stream in over time
+ */
+export function printRecord(type: string, record: object): void {
+  process.stdout.write(`${JSON.stringify({ type, ...record })}\n`);
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'bun:test';
+import { CsvParseError } from '../errors.js';
+import { detectDecimalSeparator, parseAmount } from './amount-parser.js';
+
+describe('amount-parser', () => {
+  describe('parseAmount', () => {
+    it('should parse US and European separators', () => {
+      expect(parseAmount('1,234.56')).toBe(1234.56);
+      expect(parseAmount('1.234,56')).toBe(1234.56);
+      expect(parseAmount('-12,50')).toBe(-12.5);
+      expect(parseAmount('1.234.567')).toBe(1234567);
+      expect(parseAmount('0,500')).toBe(0.5);
+    });
+
+    it('should handle apostrophe and space grouping', () => {
+      expect(parseAmount("1'234.50")).toBe(1234.5);
+      expect(parseAmount('1’234.50')).toBe(1234.5);
+      expect(parseAmount('1 234,50')).toBe(1234.5);
+      expect(parseAmount('1\u00a0234,50')).toBe(1234.5);
+    });
+
+    it('should strip currency symbols and codes', () => {
+      expect(parseAmount('$1,234.56')).toBe(1234.56);
+      expect(parseAmount('€2,500.00')).toBe(2500);
+      expect(parseAmount('CHF -45.10')).toBe(-45.1);
+      expect(parseAmount('12,00 EUR')).toBe(12);
+    });
+
+    it('should understand negative notations', () => {
+      expect(parseAmount('12.50-')).toBe(-12.5);
+      expect(parseAmount('(1,234.56)')).toBe(-1234.56);
+      expect(parseAmount('100.00 DR')).toBe(-100);
+      expect(parseAmount('100.00CR')).toBe(100);
+      expect(parseAmount('DR 5,00')).toBe(-5);
+      expect(parseAmount('−7.25')).toBe(-7.25);
+    });
+
+    it('should use the given decimal separator', () => {
+      expect(parseAmount('1,500', { decimalSeparator: ',' })).toBe(1.5);
+      expect(parseAmount('1,500', { decimalSeparator: '.' })).toBe(1500);
+      expect(parseAmount('1.500', { decimalSeparator: ',' })).toBe(1500);
+    });
+
+    it('should treat empty values and placeholders as zero', () => {
+      expect(parseAmount(undefined)).toBe(0);
+      expect(parseAmount('')).toBe(0);
+      expect(parseAmount('-')).toBe(0);
+      expect(parseAmount('n/a')).toBe(0);
+    });
+
+    it('should throw for malformed numbers', () => {
+      expect(() => parseAmount('1.2.3')).toThrow(CsvParseError);
+      expect(() => parseAmount('1.2.3')).toThrow('Invalid amount "1.2.3"');
+    });
+  });
+
+  describe('detectDecimalSeparator', () => {
+    it('should detect the separator from unambiguous values', () => {
+      expect(detectDecimalSeparator(['1,500', '-12,50', ''])).toBe(',');
+      expect(detectDecimalSeparator(['1,500', '12.5'])).toBe('.');
+      expect(detectDecimalSeparator(['1.234,00 EUR'])).toBe(',');
+    });
+
+    it('should return undefined when no value gives it away', () => {
+      expect(detectDecimalSeparator(['1,500', '42', undefined])).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { CsvParseError } from '../errors.js';
+
+export type DecimalSeparator = '.' | ',';
+
+export interface AmountParseOptions {
+  // Decimal separator of the file; detected per value when not set
+  decimalSeparator?: DecimalSeparator;
+}
+
+// Grouping characters that are never used as decimal separators:
+// apostrophes (Swiss 1'234.50) and (non-breaking) spaces
+const GROUPING_REGEX = /['’\s]/g;
+
+/**
+ * Parses an amount as written in bank statements and returns a number.
+ * Understands both 1,234.56 and 1.234,56 (separators are detected unless given),
+ * apostrophe grouping, trailing minus signs, parentheses negatives and CR/DR markers.
+ * Empty values and placeholders without digits (such as "-") are 0.
+ */
+export function parseAmount(value: string | undefined, options: AmountParseOptions = {}): number {
+  let text = (value || '').trim();
+  let negative = false;
+
+  // Accounting style (12.50) and CR/DR markers (DR is money going out)
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  const marker = text.match(/^(CR|DR)(?![a-z])|(?<![a-z])(CR|DR)\.?$/i);
+  if (marker) {
+    negative = (marker[1] || marker[2] || '').toUpperCase() === 'DR';
+    text = text.replace(marker[0], '');
+  }
+
+  // Drop currency symbols and codes, keeping digits, separators and signs
+  text = text.replace(/[^\d.,'’\s+\-−]/g, '').trim();
+  if (/^[-−]|[-−]$/.test(text)) {
+    negative = !negative;
+  }
+  text = text.replace(/[+\-−]/g, '').replace(GROUPING_REGEX, '');
+
+  if (!/\d/.test(text)) {
+    return 0;
+  }
+
+  const decimalSeparator = options.decimalSeparator || guessDecimalSeparator(text);
+  const normalized =
+    decimalSeparator === ',' ? text.replace(/\./g, '').replace(',', '.') : text.replace(/,/g, '');
+
+  if (!/^\d*\.?\d*$/.test(normalized)) {
+    throw new CsvParseError(`Invalid amount "${value}"`);
+  }
+
+  const amount = parseFloat(normalized);
+  return negative ? -amount : amount;
+}
+
+/**
+ * Detects the decimal separator from all amounts of a column, so that values like
+ * "1,500" are read consistently with the rest of the file. Returns undefined
+ * when no value gives it away.
+ */
+export function detectDecimalSeparator(
+  values: (string | undefined)[]
+): DecimalSeparator | undefined {
+  let commas = 0;
+  let dots = 0;
+
+  for (const value of values) {
+    const text = (value || '').replace(/[^\d.,]/g, '');
+    const last = text.match(/([.,])\d*$/)?.[1];
+    if (!last) continue;
+
+    // The last separator is the decimal one if both are used or it has 1-2 digits after it
+    const hasBoth = text.includes(',') && text.includes('.');
+    if (hasBoth || /[.,]\d{1,2}$/.test(text)) {
+      if (last === ',') {
+        commas++;
+      } else {
+        dots++;
+      }
+    }
+  }
+
+  if (commas === 0 && dots === 0) return undefined;
+  return commas > dots ? ',' : '.';
+}
+
+/**
+ * Guesses the decimal separator of a single amount (grouping already removed)
+ */
+function guessDecimalSeparator(text: string): DecimalSeparator {
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+
+  // Both present: whichever comes last is the decimal separator
+  if (lastComma !== -1 && lastDot !== -1) {
+    return lastComma > lastDot ? ',' : '.';
+  }
+
+  if (lastComma === -1) {
+    // "1.234.567" groups thousands; "1.234" is ambiguous and read as a thousands group
+    return /^\d{1,3}(\.\d{3})+$/.test(text) && !text.startsWith('0.') ? ',' : '.';
+  }
+
+  return /^\d{1,3}(,\d{3})+$/.test(text) && !text.startsWith('0,') ? '.' : ',';
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'bun:test';
+import { detectBankFormats } from './bank-detector.js';
+import { getBank2YnabConfigs } from './bank2ynab-fetcher.js';
+
+const CONFIGS = {
+  'Semicolon Bank': {
+    name: 'Semicolon Bank',
+    pattern: 'umsaetze',
+    delimiter: ';',
+    headerRows: 1,
+    columns: ['Date', 'Payee', 'Amount'],
+    dateFormat: '%d.%m.%Y',
+  },
+  'Comma Bank': {
+    name: 'Comma Bank',
+    pattern: 'export',
+    delimiter: ',',
+    headerRows: 1,
+    columns: ['Date', 'Payee', 'Memo', 'Amount'],
+    dateFormat: '%m/%d/%Y',
+  },
+  'Headerless Bank': {
+    name: 'Headerless Bank',
+    pattern: 'headerless',
+    delimiter: ';',
+    headerRows: 0,
+    columns: ['Date', 'Payee', 'Amount'],
+    dateFormat: '%d.%m.%Y',
+  },
+};
+
+const SEMICOLON_CONTENT = `Buchungstag;Empfänger;Betrag
+15.01.2025;Bäckerei;-3,50
+16.01.2025;Arbeitgeber;2.500,00
+`;
+
+describe('bank-detector', () => {
+  describe('detectBankFormats', () => {
+    it('should rank configs by how well the content fits', () => {
+      const matches = detectBankFormats('download (1).csv', SEMICOLON_CONTENT, CONFIGS);
+
+      expect(matches[0]?.config.name).toBe('Semicolon Bank');
+      expect(matches[0]?.filenameMatch).toBe(false);
+      expect(matches[0]?.confidence).toBe(0.65);
+      // The header row doesn't parse as data for the headerless layout
+      expect(matches[1]?.config.name).toBe('Headerless Bank');
+      expect(matches[1]?.confidence).toBeLessThan(0.65);
+      expect(matches.some((m) => m.config.name === 'Comma Bank')).toBe(false);
+    });
+
+    it('should add the filename match to the content score', () => {
+      const matches = detectBankFormats('umsaetze_2025.csv', SEMICOLON_CONTENT, CONFIGS);
+
+      expect(matches[0]).toMatchObject({ filenameMatch: true, confidence: 1 });
+    });
+
+    it('should count a saved header signature like a filename match', () => {
+      const configs = {
+        'My Bank': {
+          ...CONFIGS['Semicolon Bank'],
+          name: 'My Bank',
+          pattern: '',
+          headerSignature: ['buchungstag', 'Empfänger', 'BETRAG'],
+        },
+      };
+
+      const matches = detectBankFormats('download (1).csv', SEMICOLON_CONTENT, configs);
+
+      expect(matches[0]).toMatchObject({ filenameMatch: false, confidence: 1 });
+    });
+
+    it('should keep filename-only matches with a low confidence', () => {
+      const matches = detectBankFormats('export.csv', SEMICOLON_CONTENT, CONFIGS);
+      const commaBank = matches.find((m) => m.config.name === 'Comma Bank');
+
+      expect(commaBank?.filenameMatch).toBe(true);
+      expect(commaBank?.confidence).toBeLessThan(0.5);
+      expect(matches[0]?.config.name).toBe('Semicolon Bank');
+    });
+
+    it('should score already split spreadsheet rows', () => {
+      const rows = [
+        ['Date', 'Payee', 'Memo', 'Amount'],
+        ['01/15/2025', 'Store', 'Groceries', '-42.10'],
+        [],
+        ['01/16/2025', 'Refund', '', '10'],
+      ];
+
+      const matches = detectBankFormats('book1.xlsx', rows, CONFIGS);
+
+      expect(matches[0]?.config.name).toBe('Comma Bank');
+      expect(matches[0]?.confidence).toBe(0.65);
+    });
+
+    it('should recognise a renamed export among the bundled configs', () => {
+      const content = `Type,Product,Started Date,Completed Date,Description,Amount,Fee,Currency,State,Balance
+CARD_PAYMENT,Current,2025-01-15 10:21:07,2025-01-16 08:00:12,Coffee Shop,-3.80,0.00,EUR,COMPLETED,96.20
+TOPUP,Current,2025-01-17 09:00:00,2025-01-17 09:00:05,Top-up,50.00,0.00,EUR,COMPLETED,146.20`;
+
+      const matches = detectBankFormats('statement (2).csv', content, getBank2YnabConfigs());
+
+      expect(matches[0]?.config.name).toBe('Revolut');
+      expect(matches[0]?.confidence).toBeGreaterThanOrEqual(0.5);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { parse } from 'csv-parse/sync';
+import { parseAmount } from './amount-parser.js';
+import {
+  type Bank2YnabConfig,
+  matchesFilename,
+  matchesHeaderSignature,
+} from './bank2ynab-fetcher.js';
+import { parseDate } from './date-parser.js';
+
+export interface BankMatch {
+  config: Bank2YnabConfig;
+  // 0-1, combining the filename match with how well the content fits the layout
+  confidence: number;
+  filenameMatch: boolean;
+}
+
+// Number of data rows inspected per config
+const SAMPLE_ROWS = 20;
+
+// Given for a filename match, or a header signature match for custom formats
+const FILENAME_WEIGHT = 0.35;
+const CONTENT_WEIGHT = 0.65;
+
+// Weights of the content checks, summing up to 1
+const COLUMN_COUNT_WEIGHT = 0.3;
+const DATE_WEIGHT = 0.35;
+const AMOUNT_WEIGHT = 0.25;
+const HEADER_WEIGHT = 0.1;
+
+const AMOUNT_FIELDS = ['Inflow', 'Outflow', 'Amount'];
+
+/**
+ * Scores every bank config against a file and returns the plausible ones, best first.
+ * The content is either CSV text (split with each config's delimiter) or
+ * rows that were already read, e.g. from a spreadsheet.
+ */
+export function detectBankFormats(
+  filename: string,
+  content: string | string[][],
+  configs: Record<string, Bank2YnabConfig>
+): BankMatch[] {
+  const lines = typeof content === 'string' ? content.split('\n') : null;
+
+  return Object.values(configs)
+    .map((config) => {
+      const filenameMatch = matchesFilename(filename, config);
+      const sample = lines ? readCsvRows(lines, config) : sliceRows(content as string[][], config);
+      const identified = filenameMatch || matchesHeaderSignature(sample.header, config);
+
+      return {
+        config,
+        filenameMatch,
+        confidence: round(
+          (identified ? FILENAME_WEIGHT : 0) + CONTENT_WEIGHT * scoreRows(sample, config)
+        ),
+      };
+    })
+    .filter((match) => match.confidence > 0)
+    .sort(
+      (a, b) => b.confidence - a.confidence || Number(b.filenameMatch) - Number(a.filenameMatch)
+    );
+}
+
+interface SampleRows {
+  // Last header row, which should not look like data
+  header: string[] | null;
+  data: string[][];
+}
+
+function readCsvRows(lines: string[], config: Bank2YnabConfig): SampleRows {
+  const headerRows = config.headerRows || 0;
+  const footerRows = config.footerRows || 0;
+  // Same slicing as parseBank2YnabCSV, so the score reflects what the parser will see
+  const dataLines = lines
+    .slice(headerRows, footerRows > 0 ? -footerRows : undefined)
+    .filter((line) => line.trim() !== '')
+    .slice(0, SAMPLE_ROWS);
+
+  const parseLines = (text: string): string[][] =>
+    parse(text, {
+      columns: false,
+      skip_empty_lines: true,
+      trim: true,
+      delimiter: config.delimiter || ',',
+      relax_column_count: true,
+      relax_quotes: true,
+    }) as string[][];
+
+  try {
+    const headerLine = headerRows > 0 ? lines[headerRows - 1] : undefined;
+    return {
+      header: headerLine ? parseLines(headerLine)[0] || null : null,
+      data: parseLines(dataLines.join('\n')),
+    };
+  } catch {
+    return { header: null, data: [] };
+  }
+}
+
+function sliceRows(rows: string[][], config: Bank2YnabConfig): SampleRows {
+  const headerRows = config.headerRows || 0;
+  const footerRows = config.footerRows || 0;
+
+  return {
+    header: headerRows > 0 ? rows[headerRows - 1] || null : null,
+    data: rows
+      .slice(headerRows, footerRows > 0 ? -footerRows : undefined)
+      .filter((row) => row.some((cell) => cell.trim() !== ''))
+      .slice(0, SAMPLE_ROWS),
+  };
+}
+
+/**
+ * Rates how well rows fit a config's layout, from 0 to 1
+ */
+function scoreRows({ header, data }: SampleRows, config: Bank2YnabConfig): number {
+  const columns = config.columns || [];
+  const dateColumn = columns.indexOf('Date');
+  const amountColumns = columns.flatMap((field, index) =>
+    AMOUNT_FIELDS.includes(field) ? [index] : []
+  );
+
+  if (data.length === 0 || columns.length === 0 || dateColumn === -1) {
+    return 0;
+  }
+
+  let columnScore = 0;
+  let dateScore = 0;
+  let amountScore = 0;
+
+  for (const row of data) {
+    // A wrong delimiter shows up here too, as rows with a single field
+    if (row.length === columns.length) {
+      columnScore += 1;
+    } else if (row.length > columns.length) {
+      columnScore += 0.5;
+    }
+
+    if (isDate(row[dateColumn], config)) {
+      dateScore += 1;
+    }
+
+    const amounts = amountColumns.map((index) => row[index]?.trim() || '').filter(Boolean);
+    if (amounts.length > 0 && amounts.every(isAmount)) {
+      amountScore += 1;
+    }
+  }
+
+  // Header rows hold column titles, so a date there means the row offset is off
+  const headerScore = header && isDate(header[dateColumn], config) ? 0 : 1;
+
+  return (
+    (COLUMN_COUNT_WEIGHT * columnScore + DATE_WEIGHT * dateScore + AMOUNT_WEIGHT * amountScore) /
+      data.length +
+    HEADER_WEIGHT * headerScore * (dateScore > 0 ? 1 : 0)
+  );
+}
+
+function isDate(value: string | undefined, config: Bank2YnabConfig): boolean {
+  try {
+    return parseDate(value || '', config.dateFormat) !== '';
+  } catch {
+    return false;
+  }
+}
+
+function isAmount(value: string): boolean {
+  if (!/\d/.test(value) || /[a-z]{4,}/i.test(value)) {
+    return false;
+  }
+  try {
+    parseAmount(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
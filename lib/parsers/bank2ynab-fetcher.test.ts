@@ -1,7 +1,18 @@
 import { describe, expect, it } from 'bun:test';
-import { findMatchingConfig } from './bank2ynab-fetcher.js';
+import { findConfigByName, findMatchingConfig, getBank2YnabConfigs } from './bank2ynab-fetcher.js';
 
 describe('bank2ynab-fetcher', () => {
+  describe('getBank2YnabConfigs', () => {
+    it('should bundle the credit/debit indicator of every bank with a CDFlag column', () => {
+      const withoutFlags = Object.values(getBank2YnabConfigs()).filter(
+        (config) => config.columns?.includes('CDFlag') && config.cdFlags?.length !== 3
+      );
+
+      expect(withoutFlags.map((config) => config.name)).toEqual([]);
+      expect(getBank2YnabConfigs()['NL ING']?.cdFlags).toEqual(['CDFlag', 'Bij', 'Af']);
+    });
+  });
+
   describe('findMatchingConfig', () => {
     it('should match with regex pattern', () => {
       const configs = {
@@ -86,4 +97,25 @@ describe('bank2ynab-fetcher', () => {
       expect(findMatchingConfig('2024_12_account_statements30092025.csv', configs)).toBeDefined();
     });
   });
+
+  describe('findConfigByName', () => {
+    const configs = {
+      'DE Sparkasse': {
+        name: 'DE Sparkasse',
+        pattern: 'umsaetze',
+        delimiter: ';',
+        headerRows: 1,
+        columns: ['Date', 'Payee', 'Amount'],
+      },
+    };
+
+    it('should find configs by name regardless of case', () => {
+      expect(findConfigByName('DE Sparkasse', configs)?.name).toBe('DE Sparkasse');
+      expect(findConfigByName(' de sparkasse ', configs)?.name).toBe('DE Sparkasse');
+    });
+
+    it('should return null for unknown names', () => {
+      expect(findConfigByName('Sparkasse', configs)).toBeNull();
+    });
+  });
 });
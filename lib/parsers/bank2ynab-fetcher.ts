@@ -1,6 +1,7 @@
 import fs from 'node:fs';
+import { loadCustomFormats } from '../config.js';
 
-interface Bank2YnabConfig {
+export interface Bank2YnabConfig {
   name: string;
   pattern: string;
   useRegex?: boolean;
@@ -9,6 +10,16 @@ interface Bank2YnabConfig {
   footerRows?: number;
   columns?: string[];
   dateFormat?: string;
+  // [indicator column, inflow value, outflow value] for banks with a CDFlag column
+  cdFlags?: string[];
+  // Flips the sign of every amount, for banks that list money going out as positive
+  invertAmounts?: boolean;
+  // Header row of the file a custom format was created from, identifying it like a filename
+  headerSignature?: string[];
+  // Character encoding of the bank's exports when detection gets it wrong
+  encoding?: string;
+  // How import_ids are built for this bank's transactions, see IMPORT_ID_STRATEGIES
+  importIdStrategy?: string;
   [key: string]: string | number | boolean | string[] | undefined;
 }
 
@@ -24,6 +35,20 @@ export function getBank2YnabConfigs(): Record<string, Bank2YnabConfig> {
   return bank2ynabConfigs;
 }
 
+/**
+ * Gets the user's custom formats (~/.quickynab/formats.json) merged with the bundled
+ * bank2ynab configs. Custom formats come first and replace bundled ones of the same name.
+ */
+export function getBankConfigs(): Record<string, Bank2YnabConfig> {
+  const configs: Record<string, Bank2YnabConfig> = { ...loadCustomFormats() };
+  for (const [key, config] of Object.entries(bank2ynabConfigs)) {
+    if (!(key in configs)) {
+      configs[key] = config;
+    }
+  }
+  return configs;
+}
+
 /**
  * Finds a matching bank config for a given filename
  */
@@ -31,20 +56,47 @@ export function findMatchingConfig(
   filename: string,
   configs: Record<string, Bank2YnabConfig>
 ): Bank2YnabConfig | null {
-  for (const [_name, config] of Object.entries(configs)) {
-    try {
-      if (config.useRegex) {
-        const regex = new RegExp(config.pattern);
-        if (regex.test(filename)) {
-          return config;
-        }
-      } else {
-        if (config.pattern && filename.includes(config.pattern)) {
-          return config;
-        }
-      }
-    } catch (_error) {}
+  return Object.values(configs).find((config) => matchesFilename(filename, config)) || null;
+}
+
+/**
+ * Finds a bank config by its name, ignoring case
+ */
+export function findConfigByName(
+  name: string,
+  configs: Record<string, Bank2YnabConfig>
+): Bank2YnabConfig | null {
+  const wanted = name.trim().toLowerCase();
+  return (
+    configs[name] ||
+    Object.values(configs).find((config) => config.name.toLowerCase() === wanted) ||
+    null
+  );
+}
+
+/**
+ * Checks whether a filename matches the config's filename pattern
+ */
+export function matchesFilename(filename: string, config: Bank2YnabConfig): boolean {
+  try {
+    if (config.useRegex) {
+      return new RegExp(config.pattern).test(filename);
+    }
+    return Boolean(config.pattern) && filename.includes(config.pattern);
+  } catch (_error) {
+    return false;
   }
+}
 
-  return null;
+/**
+ * Checks whether a header row matches the config's saved header signature, ignoring case
+ */
+export function matchesHeaderSignature(header: string[] | null, config: Bank2YnabConfig): boolean {
+  const signature = config.headerSignature;
+  if (!signature || !header || signature.length !== header.length) {
+    return false;
+  }
+  return signature.every(
+    (cell, index) => cell.trim().toLowerCase() === (header[index] || '').trim().toLowerCase()
+  );
 }
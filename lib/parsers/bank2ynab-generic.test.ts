@@ -2,7 +2,13 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
-import { parseBank2YnabCSV } from './bank2ynab-generic.js';
+import { getBank2YnabConfigs } from './bank2ynab-fetcher.js';
+import {
+  parseBank2YnabBalance,
+  parseBank2YnabCSV,
+  parseBank2YnabRows,
+  readBank2YnabRecords,
+} from './bank2ynab-generic.js';
 
 describe('bank2ynab-generic', () => {
   let tmpDir: string;
@@ -99,6 +105,28 @@ describe('bank2ynab-generic', () => {
       expect(result[0]?.amount).toBe(50.0);
     });
 
+    it('should use a Reference column as the import ID', () => {
+      const csvContent = `Date,Reference,Amount,Payee
+2025-01-15,TX-0001,-4.50,Coffee
+2025-01-15,,-4.50,Coffee`;
+
+      testFile = path.join(tmpDir, 'test.csv');
+      fs.writeFileSync(testFile, csvContent);
+
+      const config = {
+        pattern: 'test',
+        delimiter: ',',
+        headerRows: 1,
+        columns: ['Date', 'Reference', 'Amount', 'Payee'],
+        dateFormat: '%Y-%m-%d',
+      };
+
+      const result = parseBank2YnabCSV(testFile, config);
+
+      expect(result[0]?.import_id).toBe('REF:TX-0001');
+      expect(result[1]?.import_id).toBeUndefined();
+    });
+
     it('should handle header and footer rows', () => {
       const csvContent = `Account Statement
 2025-01-15,50.00,Store
@@ -190,5 +218,228 @@ Total: 50.00`;
         amount: 4536.8,
       });
     });
+
+    it('should parse European amounts', () => {
+      const csvContent = `Buchungstag;Empfänger;Betrag
+15.01.2025;Bäckerei;-12,50
+16.01.2025;Arbeitgeber;1.234,56
+17.01.2025;Vermieter;-1.500`;
+
+      testFile = path.join(tmpDir, 'umsaetze.csv');
+      fs.writeFileSync(testFile, csvContent);
+
+      const result = parseBank2YnabCSV(testFile, {
+        pattern: 'umsaetze',
+        delimiter: ';',
+        headerRows: 1,
+        columns: ['Date', 'Payee', 'Amount'],
+        dateFormat: '%d.%m.%Y',
+      });
+
+      expect(result.map((t) => t.amount)).toEqual([-12.5, 1234.56, -1500]);
+    });
+
+    it('should report and skip rows with unparseable dates', () => {
+      const csvContent = `Date,Payee,Amount
+15 Jan 25,Coffee,-3.50
+Opening balance,,100.00`;
+
+      const config = {
+        pattern: 'dates',
+        headerRows: 1,
+        columns: ['Date', 'Payee', 'Amount'],
+        dateFormat: '%d %b %y',
+      };
+
+      const { transactions, skippedRows } = parseBank2YnabRows(
+        readBank2YnabRecords(Buffer.from(csvContent), config),
+        config
+      );
+
+      expect(transactions).toHaveLength(1);
+      expect(transactions[0]?.date).toBe('2025-01-15');
+      expect(skippedRows).toEqual([
+        { row: 3, reason: 'Invalid date "Opening balance" (expected format %d %b %y)' },
+      ]);
+    });
+
+    it('should report rows without a date under their row number', () => {
+      const csvContent = `Date,Payee,Amount
+15.01.2025,Coffee,-3.50
+,Fee refund,1.00
+,,
+16.01.2025,Bakery,-2.00`;
+
+      const config = {
+        pattern: 'dates',
+        headerRows: 1,
+        columns: ['Date', 'Payee', 'Amount'],
+        dateFormat: '%d.%m.%Y',
+      };
+
+      const { transactions, skippedRows } = parseBank2YnabRows(
+        readBank2YnabRecords(Buffer.from(csvContent), config),
+        config
+      );
+
+      expect(transactions.map((tx) => tx.payee_name)).toEqual(['Coffee', 'Bakery']);
+      expect(skippedRows).toEqual([{ row: 3, reason: 'Missing date' }]);
+    });
+
+    it('should sign amounts using the CDFlag indicator column', () => {
+      const csvContent = `Date,Payee,Direction,Amount
+20250115,Supermarket,Af,"12.50"
+20250116,Employer,Bij,"2000.00"
+20250117,Unknown,?,"5.00"`;
+
+      testFile = path.join(tmpDir, 'ing.csv');
+      fs.writeFileSync(testFile, csvContent);
+
+      const config = {
+        pattern: 'ing',
+        headerRows: 1,
+        columns: ['Date', 'Payee', 'CDFlag', 'Inflow'],
+        dateFormat: '%Y%m%d',
+        cdFlags: ['CDFlag', 'Bij', 'Af'],
+      };
+
+      const result = parseBank2YnabCSV(testFile, config);
+
+      expect(result.map((t) => t.amount)).toEqual([-12.5, 2000.0, 5.0]);
+    });
+
+    it('should accept a column index as CDFlag indicator', () => {
+      const csvContent = `15.01.2025;Bakery;4.20;S
+16.01.2025;Refund;10;H`;
+
+      testFile = path.join(tmpDir, 'umsaetze.csv');
+      fs.writeFileSync(testFile, csvContent);
+
+      const config = {
+        pattern: 'umsaetze',
+        delimiter: ';',
+        columns: ['Date', 'Payee', 'Inflow', 'skip'],
+        dateFormat: '%d.%m.%Y',
+        cdFlags: ['3', 'H', 'S'],
+      };
+
+      const result = parseBank2YnabCSV(testFile, config);
+
+      expect(result.map((t) => t.amount)).toEqual([-4.2, 10.0]);
+    });
+
+    it('should sign amounts of a bundled bank with a CDFlag column', () => {
+      const csvContent = `"Datum","Naam / Omschrijving","Rekening","Tegenrekening","Code","Af Bij","Bedrag (EUR)","Mutatiesoort","Mededelingen"
+"20250115","Albert Heijn","NL01INGB0001234567","","BA","Af","12.50","Betaalautomaat","Pasvolgnr 001"
+"20250116","Werkgever BV","NL01INGB0001234567","NL02ABNA0123456789","OV","Bij","2000.00","Overschrijving","Salaris"`;
+
+      testFile = path.join(tmpDir, 'ing.csv');
+      fs.writeFileSync(testFile, csvContent);
+
+      const config = getBank2YnabConfigs()['NL ING'];
+      if (!config) throw new Error('NL ING is not bundled');
+
+      const result = parseBank2YnabCSV(testFile, config);
+
+      expect(result.map((t) => [t.payee_name, t.amount])).toEqual([
+        ['Albert Heijn', -12.5],
+        ['Werkgever BV', 2000],
+      ]);
+    });
+
+    it('should decode exports in the encoding of the bank config', () => {
+      testFile = path.join(tmpDir, 'umsaetze.csv');
+      // Bytes that are valid UTF-8, but the bank exports ISO-8859-1
+      fs.writeFileSync(testFile, Buffer.from('15.01.2025;BÃ¤cker;-3,50', 'latin1'));
+
+      const config = {
+        pattern: 'umsaetze',
+        delimiter: ';',
+        columns: ['Date', 'Payee', 'Amount'],
+        dateFormat: '%d.%m.%Y',
+        encoding: 'utf-8',
+      };
+
+      expect(parseBank2YnabCSV(testFile, config)[0]?.payee_name).toBe('Bäcker');
+      expect(parseBank2YnabCSV(testFile, config, { encoding: 'latin1' })[0]?.payee_name).toBe(
+        'BÃ¤cker'
+      );
+    });
+
+    it('should flip amounts for banks that list spending as positive', () => {
+      const csvContent = `Date,Description,Amount
+01/15/2025,Restaurant,42.10
+01/16/2025,Payment,-100.00
+01/17/2025,Adjustment,0`;
+
+      testFile = path.join(tmpDir, 'card.csv');
+      fs.writeFileSync(testFile, csvContent);
+
+      const config = {
+        pattern: 'card',
+        headerRows: 1,
+        columns: ['Date', 'Payee', 'Amount'],
+        dateFormat: '%m/%d/%Y',
+        invertAmounts: true,
+      };
+
+      const result = parseBank2YnabCSV(testFile, config);
+
+      expect(result.map((t) => t.amount)).toEqual([-42.1, 100.0, 0]);
+    });
+
+    it('should take the year of dates without one from the statement, not today', () => {
+      // A December statement, downloaded early in January
+      testFile = path.join(tmpDir, 'december.csv');
+      fs.writeFileSync(testFile, '28/12,Store,-10.00\n02/01,Salary,100.00');
+      fs.utimesSync(testFile, new Date(2025, 0, 3), new Date(2025, 0, 3));
+
+      const config = {
+        pattern: 'december',
+        columns: ['Date', 'Payee', 'Amount'],
+        dateFormat: '%d/%m',
+      };
+
+      expect(parseBank2YnabCSV(testFile, config).map((t) => t.date)).toEqual([
+        '2024-12-28',
+        '2025-01-02',
+      ]);
+      expect(
+        parseBank2YnabCSV(testFile, config, { referenceDate: new Date(2023, 11, 31) }).map(
+          (t) => t.date
+        )
+      ).toEqual(['2023-12-28', '2023-01-02']);
+    });
+  });
+
+  describe('parseBank2YnabBalance', () => {
+    const config = {
+      pattern: 'test',
+      columns: ['Date', 'Payee', 'Amount', 'Running Balance'],
+      dateFormat: '%d.%m.%Y',
+    };
+
+    it('should take the running balance of the latest row, newest or oldest first', () => {
+      const oldestFirst = [
+        ['01.03.2025', 'Salary', '3000.00', '3100.00'],
+        ['02.03.2025', 'Rent', '-1500.00', '1600.00'],
+      ];
+
+      expect(parseBank2YnabBalance(oldestFirst, config)).toEqual({
+        amount: 1600,
+        date: '2025-03-02',
+        currency: null,
+      });
+      expect(parseBank2YnabBalance([...oldestFirst].reverse(), config)?.amount).toBe(1600);
+    });
+
+    it('should return null without a Running Balance column', () => {
+      expect(
+        parseBank2YnabBalance([['01.03.2025', 'Salary', '3000.00']], {
+          ...config,
+          columns: ['Date', 'Payee', 'Amount'],
+        })
+      ).toBeNull();
+    });
   });
 });
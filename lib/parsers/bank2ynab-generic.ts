@@ -1,6 +1,11 @@
 import fs from 'node:fs';
 import { parse } from 'csv-parse/sync';
-import { getLogger } from '../logger.js';
+import type { SkippedRow, StatementBalance } from '../types.js';
+import { type DecimalSeparator, detectDecimalSeparator, parseAmount } from './amount-parser.js';
+import { type DateParseOptions, parseDate } from './date-parser.js';
+import { decodeText } from './encoding.js';
+import { buildReferenceImportId } from './import-id.js';
+import { sanitizeString } from './sanitize.js';
 
 interface Transaction {
   date: string;
@@ -8,6 +13,7 @@ interface Transaction {
   category_name: string | null;
   memo: string | null;
   amount: number;
+  import_id?: string | null;
 }
 
 interface BankConfig {
@@ -17,6 +23,10 @@ interface BankConfig {
   delimiter?: string;
   dateFormat?: string;
   columns?: string[];
+  cdFlags?: string[];
+  invertAmounts?: boolean;
+  encoding?: string;
+  decimalSeparator?: DecimalSeparator;
   [key: string]: string | number | boolean | string[] | undefined;
 }
 
@@ -29,31 +39,42 @@ interface RawTransaction {
   Inflow?: string;
   Outflow?: string;
   Amount?: string;
+  // Bank transaction ID, for the reference import_id strategy
+  Reference?: string;
+  'Running Balance'?: string;
   [key: string]: string | undefined;
 }
 
-function sanitizeString(str: string | null | undefined, maxLength = 200): string | null {
-  if (!str) return null;
-
-  let cleaned = str.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '');
-  cleaned = cleaned.trim();
-
-  if (cleaned.length > maxLength) {
-    cleaned = cleaned.substring(0, maxLength);
-  }
-
-  return cleaned || null;
+export function parseBank2YnabCSV(
+  filePath: string,
+  bankConfig: BankConfig,
+  options: { encoding?: string } & DateParseOptions = {}
+): Transaction[] {
+  return parseBank2YnabRows(
+    readBank2YnabRecords(fs.readFileSync(filePath), bankConfig, options),
+    bankConfig,
+    { referenceDate: options.referenceDate ?? fs.statSync(filePath).mtime }
+  ).transactions;
 }
 
-export function parseBank2YnabCSV(filePath: string, bankConfig: BankConfig): Transaction[] {
-  const fileContent = fs.readFileSync(filePath, 'utf-8');
+/**
+ * Reads the transaction rows of CSV content as cells, without the bank's
+ * header and footer rows
+ */
+export function readBank2YnabRecords(
+  content: Buffer,
+  bankConfig: BankConfig,
+  options: { encoding?: string } = {}
+): string[][] {
+  // An explicit encoding wins over the bank's, which wins over detection
+  const fileContent = decodeText(content, options.encoding || bankConfig.encoding);
   const lines = fileContent.split('\n');
 
   const headerRows = bankConfig.headerRows || 0;
   const footerRows = bankConfig.footerRows || 0;
   const dataLines = lines.slice(headerRows, footerRows > 0 ? -footerRows : undefined);
 
-  const records = parse(dataLines.join('\n'), {
+  return parse(dataLines.join('\n'), {
     columns: false,
     skip_empty_lines: true,
     trim: true,
@@ -63,11 +84,38 @@ export function parseBank2YnabCSV(filePath: string, bankConfig: BankConfig): Tra
     relax_column_count: true,
     relax_quotes: true,
   }) as string[][];
+}
 
+/**
+ * Maps already split rows (header and footer rows removed) to transactions
+ * using the column layout of the bank config. Date formats without a year
+ * take it from options.referenceDate. Rows that can't be read are returned
+ * as skippedRows rather than failing the file.
+ */
+export function parseBank2YnabRows(
+  records: string[][],
+  bankConfig: BankConfig,
+  options: DateParseOptions = {}
+): { transactions: Transaction[]; skippedRows: SkippedRow[] } {
   const columnMapping = bankConfig.columns || [];
 
-  return records
+  // Detect the decimal separator once for the whole file, so ambiguous
+  // values like "1,500" are read like the rest of the column
+  const amountColumns = columnMapping.flatMap((field, index) =>
+    ['Inflow', 'Outflow', 'Amount'].includes(field) ? [index] : []
+  );
+  const decimalSeparator =
+    bankConfig.decimalSeparator ||
+    detectDecimalSeparator(records.flatMap((row) => amountColumns.map((index) => row[index])));
+
+  const firstRow = (bankConfig.headerRows || 0) + 1;
+  const skippedRows: SkippedRow[] = [];
+  const transactions = records
     .map((row, index) => {
+      // Rows without any content (e.g. only delimiters) aren't transactions
+      if (row.every((cell) => cell.trim() === '')) {
+        return null;
+      }
       try {
         const transaction: RawTransaction = {};
 
@@ -79,14 +127,24 @@ export function parseBank2YnabCSV(filePath: string, bankConfig: BankConfig): Tra
 
         let amount = 0;
         if (transaction.Inflow || transaction.Outflow) {
-          const inflow = parseFloat(transaction.Inflow || '0') || 0;
-          const outflow = parseFloat(transaction.Outflow || '0') || 0;
+          const inflow = parseAmount(transaction.Inflow, { decimalSeparator });
+          const outflow = parseAmount(transaction.Outflow, { decimalSeparator });
           amount = inflow - outflow;
         } else if (transaction.Amount) {
-          amount = parseFloat(transaction.Amount) || 0;
+          amount = parseAmount(transaction.Amount, { decimalSeparator });
         }
 
-        const date = parseDate(transaction.Date || '', bankConfig.dateFormat);
+        amount = applyCdFlag(amount, row, transaction, bankConfig.cdFlags);
+        if (bankConfig.invertAmounts && amount !== 0) {
+          amount = -amount;
+        }
+
+        const date = parseDate(transaction.Date || '', bankConfig.dateFormat, options);
+        if (!date) {
+          skippedRows.push({ row: firstRow + index, reason: 'Missing date' });
+          return null;
+        }
+        const reference = transaction.Reference?.trim();
 
         return {
           date,
@@ -94,72 +152,82 @@ export function parseBank2YnabCSV(filePath: string, bankConfig: BankConfig): Tra
           category_name: null,
           memo: sanitizeString(transaction.Memo || transaction.Subject || null, 100),
           amount,
+          ...(reference && { import_id: buildReferenceImportId('REF', reference) }),
         } as Transaction;
       } catch (error) {
-        getLogger().error(`Error parsing row ${index + 1}: ${(error as Error).message}`);
+        skippedRows.push({ row: firstRow + index, reason: (error as Error).message });
         return null;
       }
     })
-    .filter((t): t is Transaction => t !== null && t.date !== '');
-}
+    .filter((t): t is Transaction => t !== null);
 
-function parseDate(dateStr: string, formatStr?: string): string {
-  if (!dateStr) return '';
+  return { transactions, skippedRows };
+}
 
-  if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
-    return dateStr;
+/**
+ * Signs the amount using the bank's credit/debit indicator column.
+ * cdFlags is [column, inflow value, outflow value]; the column is a name from
+ * the column mapping (usually CDFlag) or a 0-based column index.
+ */
+function applyCdFlag(
+  amount: number,
+  row: string[],
+  transaction: RawTransaction,
+  cdFlags: string[] | undefined
+): number {
+  const [column, inflowFlag, outflowFlag] = cdFlags || [];
+  if (!column || inflowFlag === undefined || outflowFlag === undefined) {
+    return amount;
   }
 
-  if (!formatStr) {
-    return autoDetectDate(dateStr);
-  }
+  const indicator = /^\d+$/.test(column) ? row[Number(column)] : transaction[column];
+  const value = indicator?.trim().toLowerCase();
 
-  const formats: Record<string, RegExp> = {
-    '%Y-%m-%d': /^(\d{4})-(\d{2})-(\d{2})$/,
-    '%d.%m.%Y': /^(\d{2})\.(\d{2})\.(\d{4})$/,
-    '%d/%m/%Y': /^(\d{2})\/(\d{2})\/(\d{4})$/,
-    '%m/%d/%Y': /^(\d{2})\/(\d{2})\/(\d{4})$/,
-    '%Y%m%d': /^(\d{4})(\d{2})(\d{2})$/,
-  };
-
-  const regex = formats[formatStr];
-  if (regex) {
-    const match = dateStr.match(regex);
-    if (match) {
-      if (formatStr === '%Y-%m-%d' || formatStr === '%Y%m%d') {
-        return `${match[1]}-${match[2]}-${match[3]}`;
-      } else if (formatStr === '%d.%m.%Y' || formatStr === '%d/%m/%Y') {
-        return `${match[3]}-${match[2]}-${match[1]}`;
-      } else if (formatStr === '%m/%d/%Y') {
-        return `${match[3]}-${match[1]}-${match[2]}`;
-      }
-    }
+  if (value === outflowFlag.toLowerCase()) {
+    return -Math.abs(amount);
   }
-
-  return autoDetectDate(dateStr);
-}
-
-function autoDetectDate(dateStr: string): string {
-  if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
-    return dateStr;
+  if (value === inflowFlag.toLowerCase()) {
+    return Math.abs(amount);
   }
+  return amount;
+}
 
-  const ddmmyyyy = dateStr.match(/^(\d{2})[./](\d{2})[./](\d{4})$/);
-  if (ddmmyyyy?.[1] && ddmmyyyy[2] && ddmmyyyy[3]) {
-    return `${ddmmyyyy[3]}-${ddmmyyyy[2]}-${ddmmyyyy[1]}`;
+/**
+ * Reads the account balance after the latest transaction from a Running
+ * Balance column. Exports list transactions oldest or newest first, so the
+ * latest row is at whichever end has the later date.
+ */
+export function parseBank2YnabBalance(
+  records: string[][],
+  bankConfig: BankConfig,
+  options: DateParseOptions = {}
+): StatementBalance | null {
+  const columns = bankConfig.columns || [];
+  const balanceColumn = columns.indexOf('Running Balance');
+  const dateColumn = columns.indexOf('Date');
+  if (balanceColumn === -1 || dateColumn === -1) {
+    return null;
   }
 
-  const mmddyyyy = dateStr.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
-  if (mmddyyyy?.[1] && mmddyyyy[2] && mmddyyyy[3]) {
-    const month = mmddyyyy[1].padStart(2, '0');
-    const day = mmddyyyy[2].padStart(2, '0');
-    return `${mmddyyyy[3]}-${month}-${day}`;
-  }
+  const decimalSeparator =
+    bankConfig.decimalSeparator || detectDecimalSeparator(records.map((row) => row[balanceColumn]));
+  const balances = records.flatMap((row) => {
+    const value = row[balanceColumn]?.trim();
+    if (!value) return [];
+    try {
+      const date = parseDate(row[dateColumn] || '', bankConfig.dateFormat, options);
+      return date ? [{ date, amount: parseAmount(value, { decimalSeparator }) }] : [];
+    } catch {
+      // Rows with unparseable dates are reported by parseBank2YnabRows
+      return [];
+    }
+  });
 
-  const yyyymmdd = dateStr.match(/^(\d{4})(\d{2})(\d{2})$/);
-  if (yyyymmdd?.[1] && yyyymmdd[2] && yyyymmdd[3]) {
-    return `${yyyymmdd[1]}-${yyyymmdd[2]}-${yyyymmdd[3]}`;
+  const first = balances[0];
+  const last = balances[balances.length - 1];
+  if (!first || !last) {
+    return null;
   }
-
-  return dateStr;
+  const latest = first.date > last.date ? first : last;
+  return { ...latest, currency: null };
 }
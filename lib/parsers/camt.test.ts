@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'bun:test';
+import { CsvParseError } from '../errors.js';
+import { isCamt, parseCamt, parseCamtBalance } from './camt.js';
+
+const CAMT_053 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.04">
+  <BkToCstmrStmt>
+    <GrpHdr><MsgId>MSG-1</MsgId></GrpHdr>
+    <Stmt>
+      <Id>STMT-1</Id>
+      <Acct><Id><IBAN>CH9300762011623852957</IBAN></Id><Ccy>CHF</Ccy></Acct>
+      <Ntry>
+        <Amt Ccy="CHF">80.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2025-09-29</Dt></BookgDt>
+        <ValDt><Dt>2025-09-30</Dt></ValDt>
+        <AcctSvcrRef>REF-0001</AcctSvcrRef>
+        <NtryDtls>
+          <TxDtls>
+            <RltdPties>
+              <Cdtr><Nm>Migros Zuerich</Nm></Cdtr>
+            </RltdPties>
+            <RmtInf><Ustrd>Einkauf</Ustrd><Ustrd>Filiale 12</Ustrd></RmtInf>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="CHF">4536.80</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><DtTm>2025-09-26T08:00:00</DtTm></BookgDt>
+        <AcctSvcrRef>REF-0002</AcctSvcrRef>
+        <NtryDtls>
+          <TxDtls>
+            <RltdPties>
+              <Dbtr><Nm>Hopital du Valais</Nm></Dbtr>
+            </RltdPties>
+            <RmtInf><Ustrd>Paiement Salaire</Ustrd></RmtInf>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="CHF">12.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>PDNG</Sts>
+        <BookgDt><Dt>2025-09-30</Dt></BookgDt>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+const CAMT_052_BATCH = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.052.001.08">
+  <BkToCstmrAcctRpt>
+    <Rpt>
+      <Acct><Ccy>EUR</Ccy></Acct>
+      <Ntry>
+        <Amt Ccy="EUR">150.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><Dt>2025-03-01</Dt></BookgDt>
+        <AcctSvcrRef>BATCH-9</AcctSvcrRef>
+        <AddtlNtryInf>Sammelauftrag</AddtlNtryInf>
+        <NtryDtls>
+          <TxDtls>
+            <Amt Ccy="EUR">100.00</Amt>
+            <RltdPties><Cdtr><Pty><Nm>Stadtwerke &amp; Co</Nm></Pty></Cdtr></RltdPties>
+          </TxDtls>
+          <TxDtls>
+            <AmtDtls><TxAmt><Amt Ccy="EUR">50.00</Amt></TxAmt></AmtDtls>
+            <RltdPties><Cdtr><Pty><Nm>Versicherung AG</Nm></Pty></Cdtr></RltdPties>
+            <RmtInf><Strd><CdtrRefInf><Ref>RF18539007547034</Ref></CdtrRefInf></Strd></RmtInf>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+    </Rpt>
+  </BkToCstmrAcctRpt>
+</Document>`;
+
+describe('camt', () => {
+  describe('isCamt', () => {
+    it('should recognise camt documents', () => {
+      expect(isCamt(CAMT_053)).toBe(true);
+      expect(isCamt(CAMT_052_BATCH)).toBe(true);
+      expect(isCamt('<?xml version="1.0"?><rss></rss>')).toBe(false);
+    });
+  });
+
+  describe('parseCamt', () => {
+    it('should parse booked camt.053 entries', () => {
+      const transactions = parseCamt(CAMT_053);
+
+      expect(transactions).toHaveLength(2);
+      expect(transactions[0]).toEqual({
+        date: '2025-09-29',
+        payee_name: 'Migros Zuerich',
+        category_name: null,
+        memo: 'Einkauf Filiale 12',
+        amount: -80.0,
+        import_id: 'CAMT:REF-0001',
+      });
+      expect(transactions[1]).toMatchObject({
+        date: '2025-09-26',
+        payee_name: 'Hopital du Valais',
+        memo: 'Paiement Salaire',
+        amount: 4536.8,
+      });
+    });
+
+    it('should split batched entries into their transaction details', () => {
+      const transactions = parseCamt(CAMT_052_BATCH);
+
+      expect(transactions).toHaveLength(2);
+      expect(transactions[0]).toMatchObject({
+        date: '2025-03-01',
+        payee_name: 'Stadtwerke & Co',
+        memo: 'Sammelauftrag',
+        amount: -100.0,
+        import_id: 'CAMT:BATCH-9/1',
+      });
+      expect(transactions[1]).toMatchObject({
+        payee_name: 'Versicherung AG',
+        memo: 'RF18539007547034',
+        amount: -50.0,
+        import_id: 'CAMT:BATCH-9/2',
+      });
+    });
+
+    it('should keep batches without detail amounts as a single transaction', () => {
+      const content = CAMT_052_BATCH.replace('<Amt Ccy="EUR">100.00</Amt>', '');
+      const transactions = parseCamt(content);
+
+      expect(transactions).toHaveLength(1);
+      expect(transactions[0]).toMatchObject({ amount: -150.0, import_id: 'CAMT:BATCH-9' });
+    });
+
+    it('should fall back to the value date', () => {
+      const content = CAMT_053.replace('<BookgDt><Dt>2025-09-29</Dt></BookgDt>', '');
+
+      expect(parseCamt(content)[0]?.date).toBe('2025-09-30');
+    });
+
+    it('should reject XML that is not a camt document', () => {
+      expect(() => parseCamt('<?xml version="1.0"?><rss><channel/></rss>')).toThrow(CsvParseError);
+    });
+
+    it('should reject malformed XML', () => {
+      expect(() => parseCamt(CAMT_053.replace('</Stmt>', ''))).toThrow('Invalid XML');
+    });
+
+    it('should reject character references outside the Unicode range', () => {
+      for (const entity of ['&#x110000;', '&#xZZ;', '&#99999999999;']) {
+        const content = CAMT_053.replace('Migros Zuerich', `Migros ${entity}`);
+        let error: unknown;
+        try {
+          parseCamt(content);
+        } catch (e) {
+          error = e;
+        }
+        expect(error).toBeInstanceOf(CsvParseError);
+        expect((error as CsvParseError).message).toContain(entity);
+        expect((error as CsvParseError).line).toBe(18);
+      }
+    });
+
+    it('should decode valid character references', () => {
+      const [transaction] = parseCamt(
+        CAMT_053.replace('Migros Zuerich', 'Migros Z&#xFC;rich &amp; Co')
+      );
+      expect(transaction?.payee_name).toBe('Migros Zürich & Co');
+    });
+  });
+
+  describe('parseCamtBalance', () => {
+    it('should read the closing booked balance', () => {
+      const balance = (code: string, amount: string, indicator: string) =>
+        `<Bal><Tp><CdOrPrtry><Cd>${code}</Cd></CdOrPrtry></Tp><Amt Ccy="CHF">${amount}</Amt>` +
+        `<CdtDbtInd>${indicator}</CdtDbtInd><Dt><Dt>2025-09-30</Dt></Dt></Bal>`;
+      const content = CAMT_053.replace(
+        '<Ntry>',
+        `${balance('OPBD', '500.00', 'CRDT')}${balance('CLBD', '25.50', 'DBIT')}<Ntry>`
+      );
+
+      expect(parseCamtBalance(content)).toEqual({
+        amount: -25.5,
+        date: '2025-09-30',
+        currency: 'CHF',
+      });
+      expect(parseCamtBalance(CAMT_053)).toBeNull();
+    });
+  });
+});
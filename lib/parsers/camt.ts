@@ -0,0 +1,204 @@
+import { CsvParseError } from '../errors.js';
+import { getLogger } from '../logger.js';
+import type { StatementBalance, Transaction } from '../types.js';
+import { buildReferenceImportId } from './import-id.js';
+import { sanitizeString } from './sanitize.js';
+import { findChild, findChildren, parseXml, textAt, type XmlElement } from './xml.js';
+
+// Statement (053), account report (052) and debit/credit notification (054)
+const REPORT_CONTAINERS: Array<[string, string]> = [
+  ['BkToCstmrStmt', 'Stmt'],
+  ['BkToCstmrAcctRpt', 'Rpt'],
+  ['BkToCstmrDbtCdtNtfctn', 'Ntfctn'],
+];
+
+/**
+ * Checks whether the content looks like an ISO 20022 camt.052/053/054 document
+ */
+export function isCamt(content: string): boolean {
+  const head = content.slice(0, 4096);
+  return /camt\.05[234]/.test(head) || /<(\w+:)?BkToCstmr(Stmt|AcctRpt|DbtCdtNtfctn)>/.test(head);
+}
+
+/**
+ * Parses an ISO 20022 camt.053 statement or camt.052 account report
+ * Each booked <Ntry> becomes a transaction; batched entries with several
+ * <TxDtls> are split into one transaction per detail when their amounts are known.
+ */
+export function parseCamt(content: string): Transaction[] {
+  const transactions: Transaction[] = [];
+
+  for (const report of findReports(content)) {
+    const accountCurrency = textAt(report, 'Acct', 'Ccy');
+
+    for (const entry of findChildren(report, 'Ntry')) {
+      const status = textAt(entry, 'Sts', 'Cd') || textAt(entry, 'Sts');
+      if (status && status !== 'BOOK') {
+        // Pending entries get a new reference once booked, importing them would duplicate
+        continue;
+      }
+
+      transactions.push(...parseEntry(entry, accountCurrency));
+    }
+  }
+
+  return transactions;
+}
+
+/**
+ * Reads the closing booked balance (CLBD) of the last statement in the file
+ */
+export function parseCamtBalance(content: string): StatementBalance | null {
+  const balance = findReports(content)
+    .flatMap((report) => findChildren(report, 'Bal'))
+    .filter((bal) => textAt(bal, 'Tp', 'CdOrPrtry', 'Cd') === 'CLBD')
+    .pop();
+  const amountElement = findChild(balance, 'Amt');
+  const amount = readAmount(amountElement, textAt(balance, 'CdtDbtInd'), null);
+  const date = readDate(findChild(balance, 'Dt'));
+  if (amount === null || !date) {
+    return null;
+  }
+  return { amount, date, currency: amountElement?.attributes.Ccy || null };
+}
+
+function findReports(content: string): XmlElement[] {
+  const document = parseXml(content);
+
+  const container = REPORT_CONTAINERS.map(([containerName, reportName]) => ({
+    element: findChild(document, containerName),
+    reportName,
+  })).find((c) => c.element);
+
+  if (!container?.element) {
+    throw new CsvParseError('Unsupported XML file: expected a camt.052/053/054 document');
+  }
+  return findChildren(container.element, container.reportName);
+}
+
+function parseEntry(entry: XmlElement, accountCurrency: string | null): Transaction[] {
+  const date = readDate(findChild(entry, 'BookgDt')) || readDate(findChild(entry, 'ValDt'));
+  if (!date) {
+    throw new CsvParseError('Entry is missing its booking date');
+  }
+
+  const entryAmount = readEntryAmount(entry, accountCurrency);
+  if (entryAmount === null) {
+    throw new CsvParseError(`Entry on ${date} has an invalid amount`);
+  }
+
+  const entryReference = textAt(entry, 'AcctSvcrRef') || textAt(entry, 'NtryRef');
+  const entryInfo = textAt(entry, 'AddtlNtryInf');
+  const details = findChildren(findChild(entry, 'NtryDtls'), 'TxDtls');
+
+  // Batch bookings only carry per-transaction amounts in the details
+  const detailAmounts = details.map((detail) => readDetailAmount(detail, entry, accountCurrency));
+  if (details.length > 1 && detailAmounts.every((amount) => amount !== null)) {
+    return details.map((detail, index) => {
+      const reference = textAt(detail, 'Refs', 'AcctSvcrRef') || entryReference;
+      return buildTransaction(
+        date,
+        detailAmounts[index] as number,
+        detail,
+        entryInfo,
+        reference ? `${reference}/${index + 1}` : null
+      );
+    });
+  }
+
+  return [buildTransaction(date, entryAmount, details[0], entryInfo, entryReference)];
+}
+
+function buildTransaction(
+  date: string,
+  amount: number,
+  detail: XmlElement | undefined,
+  entryInfo: string | null,
+  reference: string | null
+): Transaction {
+  const payee = readCounterparty(detail, amount) || textAt(detail, 'AddtlTxInf') || entryInfo;
+  const remittance = readRemittance(detail);
+
+  return {
+    date,
+    payee_name: sanitizeString(payee),
+    category_name: null,
+    memo: sanitizeString(remittance || (payee === entryInfo ? null : entryInfo), 100),
+    amount,
+    import_id: reference ? buildReferenceImportId('CAMT', reference) : null,
+  };
+}
+
+function readDate(element: XmlElement | undefined): string | null {
+  const value = textAt(element, 'Dt') || textAt(element, 'DtTm');
+  return value?.match(/^\d{4}-\d{2}-\d{2}/)?.[0] ?? null;
+}
+
+/**
+ * Reads an <Amt> element and applies the credit/debit indicator. The indicator
+ * already describes the booking itself, also for reversals (<RvslInd>).
+ */
+function readAmount(
+  amountElement: XmlElement | undefined,
+  indicator: string | null,
+  accountCurrency: string | null
+): number | null {
+  const amount = Number(amountElement?.text);
+  if (!amountElement?.text || Number.isNaN(amount)) {
+    return null;
+  }
+
+  const currency = amountElement.attributes.Ccy;
+  if (accountCurrency && currency && currency !== accountCurrency) {
+    getLogger().error(
+      `Amount ${amountElement.text} ${currency} differs from account currency ${accountCurrency}`
+    );
+  }
+
+  return indicator === 'DBIT' ? -amount : amount;
+}
+
+function readEntryAmount(entry: XmlElement, accountCurrency: string | null): number | null {
+  return readAmount(findChild(entry, 'Amt'), textAt(entry, 'CdtDbtInd'), accountCurrency);
+}
+
+/**
+ * Detail amounts live in <Amt> (camt v8+) or <AmtDtls><TxAmt><Amt> (v2-v4).
+ * Details may omit the credit/debit indicator, in which case the entry's applies.
+ */
+function readDetailAmount(
+  detail: XmlElement,
+  entry: XmlElement,
+  accountCurrency: string | null
+): number | null {
+  return readAmount(
+    findChild(detail, 'Amt') || findChild(detail, 'AmtDtls', 'TxAmt', 'Amt'),
+    textAt(detail, 'CdtDbtInd') || textAt(entry, 'CdtDbtInd'),
+    accountCurrency
+  );
+}
+
+/**
+ * Money going out was paid to the creditor, money coming in came from the debtor.
+ * Newer versions wrap the name in a <Pty> element.
+ */
+function readCounterparty(detail: XmlElement | undefined, amount: number): string | null {
+  const parties = findChild(detail, 'RltdPties');
+  const role = amount < 0 ? 'Cdtr' : 'Dbtr';
+  return (
+    textAt(parties, role, 'Nm') ||
+    textAt(parties, role, 'Pty', 'Nm') ||
+    textAt(parties, `Ultmt${role}`, 'Nm') ||
+    textAt(parties, `Ultmt${role}`, 'Pty', 'Nm')
+  );
+}
+
+function readRemittance(detail: XmlElement | undefined): string | null {
+  const remittance = findChild(detail, 'RmtInf');
+  const unstructured = findChildren(remittance, 'Ustrd')
+    .map((u) => u.text)
+    .filter(Boolean)
+    .join(' ');
+
+  return unstructured || textAt(remittance, 'Strd', 'CdtrRefInf', 'Ref');
+}
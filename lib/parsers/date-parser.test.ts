@@ -1,66 +1,6 @@
 import { describe, expect, it } from 'bun:test';
-
-// Date parsing functions extracted for testing
-function parseDate(dateStr: string, formatStr?: string): string {
-  if (!dateStr) return '';
-
-  if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
-    return dateStr;
-  }
-
-  if (!formatStr) {
-    return autoDetectDate(dateStr);
-  }
-
-  const formats: Record<string, RegExp> = {
-    '%Y-%m-%d': /^(\d{4})-(\d{2})-(\d{2})$/,
-    '%d.%m.%Y': /^(\d{2})\.(\d{2})\.(\d{4})$/,
-    '%d/%m/%Y': /^(\d{2})\/(\d{2})\/(\d{4})$/,
-    '%m/%d/%Y': /^(\d{2})\/(\d{2})\/(\d{4})$/,
-    '%Y%m%d': /^(\d{4})(\d{2})(\d{2})$/,
-  };
-
-  const regex = formats[formatStr];
-  if (regex) {
-    const match = dateStr.match(regex);
-    if (match) {
-      if (formatStr === '%Y-%m-%d' || formatStr === '%Y%m%d') {
-        return `${match[1]}-${match[2]}-${match[3]}`;
-      } else if (formatStr === '%d.%m.%Y' || formatStr === '%d/%m/%Y') {
-        return `${match[3]}-${match[2]}-${match[1]}`;
-      } else if (formatStr === '%m/%d/%Y') {
-        return `${match[3]}-${match[1]}-${match[2]}`;
-      }
-    }
-  }
-
-  return autoDetectDate(dateStr);
-}
-
-function autoDetectDate(dateStr: string): string {
-  if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
-    return dateStr;
-  }
-
-  const ddmmyyyy = dateStr.match(/^(\d{2})[./](\d{2})[./](\d{4})$/);
-  if (ddmmyyyy?.[1] && ddmmyyyy[2] && ddmmyyyy[3]) {
-    return `${ddmmyyyy[3]}-${ddmmyyyy[2]}-${ddmmyyyy[1]}`;
-  }
-
-  const mmddyyyy = dateStr.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
-  if (mmddyyyy?.[1] && mmddyyyy[2] && mmddyyyy[3]) {
-    const month = mmddyyyy[1].padStart(2, '0');
-    const day = mmddyyyy[2].padStart(2, '0');
-    return `${mmddyyyy[3]}-${month}-${day}`;
-  }
-
-  const yyyymmdd = dateStr.match(/^(\d{4})(\d{2})(\d{2})$/);
-  if (yyyymmdd?.[1] && yyyymmdd[2] && yyyymmdd[3]) {
-    return `${yyyymmdd[1]}-${yyyymmdd[2]}-${yyyymmdd[3]}`;
-  }
-
-  return dateStr;
-}
+import { CsvParseError } from '../errors.js';
+import { autoDetectDate, guessDateFormat, parseDate } from './date-parser.js';
 
 describe('date parsing', () => {
   describe('parseDate with format string', () => {
@@ -121,14 +61,89 @@ describe('date parsing', () => {
       expect(autoDetectDate('2024-12-31')).toBe('2024-12-31');
     });
 
-    it('should return unparseable dates as-is', () => {
-      expect(autoDetectDate('invalid')).toBe('invalid');
-      expect(autoDetectDate('Jan 15, 2025')).toBe('Jan 15, 2025');
+    it('should auto-detect dates with month names', () => {
+      expect(autoDetectDate('15 Jan 2025')).toBe('2025-01-15');
+      expect(autoDetectDate('Jan 15, 2025')).toBe('2025-01-15');
+      expect(autoDetectDate('3. März 2025')).toBe('2025-03-03');
+    });
+
+    it('should return null for unrecognized dates', () => {
+      expect(autoDetectDate('invalid')).toBeNull();
+      expect(autoDetectDate('')).toBeNull();
+      expect(autoDetectDate('32.01.2025')).toBeNull();
     });
 
     it('should handle empty strings', () => {
       expect(parseDate('')).toBe('');
-      expect(autoDetectDate('')).toBe('');
+      expect(parseDate('   ', '%d.%m.%Y')).toBe('');
+    });
+  });
+
+  describe('strftime formats', () => {
+    it('should parse two-digit years', () => {
+      expect(parseDate('15.01.25', '%d.%m.%y')).toBe('2025-01-15');
+      expect(parseDate('31/12/99', '%d/%m/%y')).toBe('1999-12-31');
+    });
+
+    it('should parse localized month abbreviations', () => {
+      expect(parseDate('15 Jan 25', '%d %b %y')).toBe('2025-01-15');
+      expect(parseDate('03-Sep-2024', '%d-%b-%Y')).toBe('2024-09-03');
+      expect(parseDate('15 Dez 2024', '%d %b %Y')).toBe('2024-12-15');
+      expect(parseDate('15 févr. 2025', '%d %b %Y')).toBe('2025-02-15');
+      expect(parseDate('1 mei 2025', '%d %b %Y')).toBe('2025-05-01');
+      expect(parseDate('7 Août 2025', '%d %B %Y')).toBe('2025-08-07');
+    });
+
+    it('should accept and ignore time components', () => {
+      expect(parseDate('2025-01-15 08:30:00 +0000', '%Y-%m-%d %H:%M:%S +0000')).toBe('2025-01-15');
+      expect(parseDate('15-01-2025 / 23:59', '%d-%m-%Y / %H:%M')).toBe('2025-01-15');
+      expect(parseDate('01/15/2025 7:05 PM', '%m/%d/%Y %I:%M %p')).toBe('2025-01-15');
+      expect(() => parseDate('15-01-2025 / 24:00', '%d-%m-%Y / %H:%M')).toThrow(CsvParseError);
+    });
+
+    it('should match literal characters in the format', () => {
+      expect(parseDate('2025.01.15.', '%Y.%m.%d.')).toBe('2025-01-15');
+      expect(parseDate('2025/1/5', '%Y/%-m/%-d')).toBe('2025-01-05');
+    });
+
+    it('should infer the year of year-less dates from the statement period', () => {
+      const referenceDate = new Date(2025, 0, 10);
+
+      expect(parseDate('05.01', '%d.%m', { referenceDate })).toBe('2025-01-05');
+      expect(parseDate('28.12', '%d.%m', { referenceDate })).toBe('2024-12-28');
+      // Slightly ahead of the reference date, e.g. pending transactions
+      expect(parseDate('20.01', '%d.%m', { referenceDate })).toBe('2025-01-20');
+    });
+
+    it('should throw for dates that do not match the format', () => {
+      expect(() => parseDate('15/01/2025', '%d.%m.%Y')).toThrow(CsvParseError);
+      expect(() => parseDate('15/01/2025', '%d.%m.%Y')).toThrow(
+        'Invalid date "15/01/2025" (expected format %d.%m.%Y)'
+      );
+      expect(() => parseDate('15 Foo 2025', '%d %b %Y')).toThrow(CsvParseError);
+      expect(() => parseDate('someday')).toThrow('Unrecognized date "someday"');
+    });
+
+    it('should throw for impossible dates', () => {
+      expect(() => parseDate('30.02.2025', '%d.%m.%Y')).toThrow(CsvParseError);
+      expect(() => parseDate('29.02.2025', '%d.%m.%Y')).toThrow(CsvParseError);
+    });
+  });
+
+  describe('guessDateFormat', () => {
+    it('should pick the format that reads every value', () => {
+      expect(guessDateFormat(['15.01.2025', '', '03.02.2025'])).toBe('%d.%m.%Y');
+      expect(guessDateFormat(['01/02/2025', '01/15/2025'])).toBe('%m/%d/%Y');
+      expect(guessDateFormat(['15 Jan 2025'])).toBe('%d %b %Y');
+    });
+
+    it('should prefer day-first for ambiguous dates', () => {
+      expect(guessDateFormat(['01/02/2025'])).toBe('%d/%m/%Y');
+    });
+
+    it('should return undefined for non-dates', () => {
+      expect(guessDateFormat(['Buchungstag', '15.01.2025'])).toBeUndefined();
+      expect(guessDateFormat(['', ' '])).toBeUndefined();
     });
   });
 
@@ -0,0 +1,299 @@
+import { CsvParseError } from '../errors.js';
+
+export interface DateParseOptions {
+  // End of the statement period, used to pick the year for formats without one (default: today)
+  referenceDate?: Date;
+}
+
+type DateField =
+  | 'day'
+  | 'month'
+  | 'monthName'
+  | 'year'
+  | 'shortYear'
+  | 'dayOfYear'
+  | 'hour'
+  | 'hour12'
+  | 'minute'
+  | 'second'
+  | 'meridiem';
+
+interface CompiledFormat {
+  regex: RegExp;
+  fields: DateField[];
+}
+
+// strftime directives; directives without a field are matched but ignored
+const DIRECTIVES: Record<string, { pattern: string; field?: DateField }> = {
+  d: { pattern: '(\\d{1,2})', field: 'day' },
+  e: { pattern: '\\s?(\\d{1,2})', field: 'day' },
+  m: { pattern: '(\\d{1,2})', field: 'month' },
+  b: { pattern: '(\\p{L}+\\.?)', field: 'monthName' },
+  B: { pattern: '(\\p{L}+\\.?)', field: 'monthName' },
+  h: { pattern: '(\\p{L}+\\.?)', field: 'monthName' },
+  y: { pattern: '(\\d{2})', field: 'shortYear' },
+  Y: { pattern: '(\\d{4})', field: 'year' },
+  j: { pattern: '(\\d{1,3})', field: 'dayOfYear' },
+  a: { pattern: '\\p{L}+\\.?' },
+  A: { pattern: '\\p{L}+\\.?' },
+  H: { pattern: '(\\d{1,2})', field: 'hour' },
+  I: { pattern: '(\\d{1,2})', field: 'hour12' },
+  M: { pattern: '(\\d{2})', field: 'minute' },
+  S: { pattern: '(\\d{2})', field: 'second' },
+  f: { pattern: '\\d{1,6}' },
+  p: { pattern: '([ap]\\.?m\\.?)', field: 'meridiem' },
+  z: { pattern: '(?:Z|[+-]\\d{2}:?\\d{2})' },
+  Z: { pattern: '[a-z]{1,5}' },
+  '%': { pattern: '%' },
+};
+
+// Full month names and common abbreviations (en, de, fr, es, it, nl, pt, sv/da/no),
+// stored without diacritics
+const MONTH_NAMES: string[][] = [
+  [
+    'jan',
+    'january',
+    'januar',
+    'janv',
+    'janvier',
+    'ene',
+    'enero',
+    'gen',
+    'gennaio',
+    'januari',
+    'janeiro',
+  ],
+  [
+    'feb',
+    'february',
+    'februar',
+    'fevr',
+    'fevrier',
+    'febrero',
+    'febbraio',
+    'februari',
+    'fev',
+    'fevereiro',
+  ],
+  ['mar', 'march', 'marz', 'mrz', 'mars', 'marzo', 'mrt', 'maart', 'marco'],
+  ['apr', 'april', 'avr', 'avril', 'abr', 'abril', 'aprile'],
+  ['may', 'mai', 'mayo', 'mag', 'maggio', 'mei', 'maio', 'maj'],
+  ['jun', 'june', 'juni', 'juin', 'junio', 'giu', 'giugno', 'junho'],
+  ['jul', 'july', 'juli', 'juil', 'juillet', 'julio', 'lug', 'luglio', 'julho'],
+  ['aug', 'august', 'aout', 'ago', 'agosto', 'augustus', 'augusti'],
+  ['sep', 'sept', 'september', 'septembre', 'septiembre', 'set', 'settembre', 'setembro'],
+  ['oct', 'october', 'okt', 'oktober', 'octobre', 'octubre', 'ott', 'ottobre', 'out', 'outubro'],
+  ['nov', 'november', 'novembre', 'noviembre', 'novembro'],
+  ['dec', 'december', 'dez', 'dezember', 'decembre', 'dic', 'diciembre', 'dicembre', 'dezembro'],
+];
+
+const MONTHS = new Map<string, number>(
+  MONTH_NAMES.flatMap((names, index) => names.map((name) => [name, index + 1] as const))
+);
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Year-less dates up to a month after the reference date still count as the current year
+// (pending transactions, exports made shortly before the period ends)
+const YEAR_INFERENCE_TOLERANCE_DAYS = 31;
+
+// Formats tried when a bank config has no date format
+const AUTO_DETECT_FORMATS = ['%d %b %Y', '%d-%b-%Y', '%b %d, %Y', '%d. %B %Y'];
+
+// Layouts suggested when mapping the columns of an unknown file, most common first
+export const COMMON_DATE_FORMATS = [
+  '%Y-%m-%d',
+  '%d.%m.%Y',
+  '%d/%m/%Y',
+  '%m/%d/%Y',
+  '%d-%m-%Y',
+  '%Y/%m/%d',
+  '%Y%m%d',
+  '%d.%m.%y',
+  '%d/%m/%y',
+  '%m/%d/%y',
+  ...AUTO_DETECT_FORMATS,
+];
+
+const compiledFormats = new Map<string, CompiledFormat>();
+
+/**
+ * Parses a date written in a strftime-style format (as used by bank2ynab configs)
+ * and returns it as YYYY-MM-DD. Without a format the date is auto-detected.
+ * Throws a CsvParseError when the value doesn't match or isn't a real date.
+ */
+export function parseDate(value: string, format?: string, options: DateParseOptions = {}): string {
+  const trimmed = value.trim();
+  if (!trimmed) return '';
+
+  // Already normalized, e.g. Excel date cells
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed) && isValidDate(trimmed)) {
+    return trimmed;
+  }
+
+  const parsed = format ? parseWithFormat(trimmed, format, options) : autoDetectDate(trimmed);
+  if (!parsed) {
+    throw new CsvParseError(
+      format
+        ? `Invalid date "${trimmed}" (expected format ${format})`
+        : `Unrecognized date "${trimmed}"`
+    );
+  }
+
+  return parsed;
+}
+
+/**
+ * Recognizes the common unambiguous date layouts; returns null for anything else
+ */
+export function autoDetectDate(value: string): string | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return isValidDate(value) ? value : null;
+  }
+
+  const ddmmyyyy = value.match(/^(\d{2})[./](\d{2})[./](\d{4})$/);
+  if (ddmmyyyy?.[1] && ddmmyyyy[2] && ddmmyyyy[3]) {
+    return toIsoDate(Number(ddmmyyyy[3]), Number(ddmmyyyy[2]), Number(ddmmyyyy[1]));
+  }
+
+  const mmddyyyy = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (mmddyyyy?.[1] && mmddyyyy[2] && mmddyyyy[3]) {
+    return toIsoDate(Number(mmddyyyy[3]), Number(mmddyyyy[1]), Number(mmddyyyy[2]));
+  }
+
+  const yyyymmdd = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (yyyymmdd?.[1] && yyyymmdd[2] && yyyymmdd[3]) {
+    return toIsoDate(Number(yyyymmdd[1]), Number(yyyymmdd[2]), Number(yyyymmdd[3]));
+  }
+
+  for (const format of AUTO_DETECT_FORMATS) {
+    const parsed = parseWithFormat(value, format, {});
+    if (parsed) return parsed;
+  }
+
+  return null;
+}
+
+/**
+ * Returns the first common format that reads all non-empty values,
+ * or undefined when none does
+ */
+export function guessDateFormat(values: string[]): string | undefined {
+  const samples = values.map((value) => value.trim()).filter(Boolean);
+  if (samples.length === 0) return undefined;
+
+  return COMMON_DATE_FORMATS.find((format) =>
+    samples.every((value) => parseWithFormat(value, format, {}) !== null)
+  );
+}
+
+/**
+ * Matches the value against a strftime format; returns null when it doesn't fit
+ */
+function parseWithFormat(value: string, format: string, options: DateParseOptions): string | null {
+  const { regex, fields } = compileFormat(format);
+  const match = value.match(regex);
+  if (!match) return null;
+
+  const parts: Partial<Record<DateField, string>> = {};
+  fields.forEach((field, index) => {
+    parts[field] = match[index + 1];
+  });
+
+  if (!isValidTime(parts)) return null;
+
+  let month = parts.month ? Number(parts.month) : undefined;
+  if (parts.monthName) {
+    month = MONTHS.get(normalizeMonthName(parts.monthName));
+    if (!month) return null;
+  }
+
+  let year: number | undefined;
+  if (parts.year) {
+    year = Number(parts.year);
+  } else if (parts.shortYear) {
+    // Same pivot as Python's strptime: 69-99 are 1900s, 00-68 are 2000s
+    const shortYear = Number(parts.shortYear);
+    year = shortYear >= 69 ? 1900 + shortYear : 2000 + shortYear;
+  }
+
+  if (parts.dayOfYear && year !== undefined && month === undefined) {
+    const date = new Date(Date.UTC(year, 0, Number(parts.dayOfYear)));
+    if (date.getUTCFullYear() !== year) return null;
+    return date.toISOString().substring(0, 10);
+  }
+
+  const day = parts.day ? Number(parts.day) : undefined;
+  if (month === undefined || day === undefined) return null;
+
+  return toIsoDate(year ?? inferYear(month, day, options.referenceDate), month, day);
+}
+
+function compileFormat(format: string): CompiledFormat {
+  const cached = compiledFormats.get(format);
+  if (cached) return cached;
+
+  const fields: DateField[] = [];
+  let pattern = '';
+
+  // %-d / %_d / %0d flags (glibc) don't change how a value is matched
+  for (const token of format.match(/%[-_0^#]?[a-zA-Z%]|\s+|[^%\s]+|%/g) || []) {
+    const directive = token.startsWith('%') && token.length > 1 ? token[token.length - 1] : null;
+    const definition = directive ? DIRECTIVES[directive] : undefined;
+
+    if (definition) {
+      pattern += definition.pattern;
+      if (definition.field) fields.push(definition.field);
+    } else if (/^\s+$/.test(token)) {
+      pattern += '\\s+';
+    } else if (directive) {
+      throw new CsvParseError(`Unsupported date format directive ${token} in "${format}"`);
+    } else {
+      pattern += token.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+
+  const compiled = { regex: new RegExp(`^${pattern}$`, 'iu'), fields };
+  compiledFormats.set(format, compiled);
+  return compiled;
+}
+
+function normalizeMonthName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\.$/, '')
+    .toLowerCase();
+}
+
+function isValidTime(parts: Partial<Record<DateField, string>>): boolean {
+  if (parts.hour !== undefined && Number(parts.hour) > 23) return false;
+  if (parts.hour12 !== undefined && (Number(parts.hour12) < 1 || Number(parts.hour12) > 12)) {
+    return false;
+  }
+  if (parts.minute !== undefined && Number(parts.minute) > 59) return false;
+  // 60 and 61 allow for leap seconds, as in strptime
+  if (parts.second !== undefined && Number(parts.second) > 61) return false;
+  return true;
+}
+
+/**
+ * Picks the year for a date without one: the latest occurrence that isn't
+ * (much) later than the end of the statement period
+ */
+function inferYear(month: number, day: number, referenceDate = new Date()): number {
+  const year = referenceDate.getFullYear();
+  const reference = Date.UTC(year, referenceDate.getMonth(), referenceDate.getDate());
+  const candidate = Date.UTC(year, month - 1, day);
+  return candidate - reference > YEAR_INFERENCE_TOLERANCE_DAYS * MS_PER_DAY ? year - 1 : year;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const iso = `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  return isValidDate(iso) ? iso : null;
+}
+
+function isValidDate(iso: string): boolean {
+  const date = new Date(`${iso}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(iso);
+}
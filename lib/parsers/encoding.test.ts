@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'bun:test';
+import { ValidationError } from '../errors.js';
+import { decodeText, detectEncoding, normalizeEncoding } from './encoding.js';
+
+const TEXT = 'Datum;Empfänger;Betrag\n15.01.2025;Café Müller;-3,50 €\n';
+
+function utf16be(text: string): Buffer {
+  return Buffer.from(text, 'utf16le').swap16();
+}
+
+describe('encoding', () => {
+  describe('detectEncoding', () => {
+    it('should recognise byte order marks', () => {
+      expect(detectEncoding(Buffer.from([0xef, 0xbb, 0xbf, 0x41]))).toBe('utf-8');
+      expect(detectEncoding(Buffer.from([0xff, 0xfe, 0x41, 0x00]))).toBe('utf-16le');
+      expect(detectEncoding(Buffer.from([0xfe, 0xff, 0x00, 0x41]))).toBe('utf-16be');
+    });
+
+    it('should recognise UTF-16 without a byte order mark', () => {
+      expect(detectEncoding(Buffer.from(TEXT, 'utf16le'))).toBe('utf-16le');
+      expect(detectEncoding(utf16be(TEXT))).toBe('utf-16be');
+    });
+
+    it('should tell UTF-8 from single-byte encodings', () => {
+      expect(detectEncoding(Buffer.from(TEXT, 'utf-8'))).toBe('utf-8');
+      expect(detectEncoding(Buffer.from('Empfänger', 'latin1'))).toBe('windows-1252');
+    });
+
+    it('should not take binary files for UTF-16', () => {
+      const legacyXls = Buffer.alloc(512);
+      legacyXls.writeUInt32BE(0xd0cf11e0, 0);
+
+      expect(detectEncoding(legacyXls)).not.toStartWith('utf-16');
+    });
+  });
+
+  describe('decodeText', () => {
+    it('should decode detected encodings', () => {
+      expect(decodeText(Buffer.from(TEXT, 'utf16le'))).toBe(TEXT);
+      expect(decodeText(utf16be(TEXT))).toBe(TEXT);
+      expect(decodeText(Buffer.from('Café Müller', 'latin1'))).toBe('Café Müller');
+    });
+
+    it('should map the Windows-1252 range 0x80-0x9F', () => {
+      const bytes = Buffer.from([0x80, 0x20, 0x93, 0x4f, 0x4b, 0x94, 0x20, 0x96]);
+
+      expect(decodeText(bytes)).toBe('€ “OK” –');
+      expect(decodeText(bytes, 'iso-8859-1')).toBe('\u0080 \u0093OK\u0094 \u0096');
+    });
+
+    it('should strip byte order marks', () => {
+      const withBom = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(TEXT, 'utf16le')]);
+
+      expect(decodeText(withBom)).toBe(TEXT);
+      expect(decodeText(Buffer.from(`\uFEFF${TEXT}`, 'utf-8'))).toBe(TEXT);
+    });
+
+    it('should use the given encoding over detection', () => {
+      expect(decodeText(Buffer.from('Müller', 'utf-8'), 'latin1')).toBe('MÃ¼ller');
+    });
+  });
+
+  describe('normalizeEncoding', () => {
+    it('should accept common aliases', () => {
+      expect(normalizeEncoding('UTF8')).toBe('utf-8');
+      expect(normalizeEncoding('cp1252')).toBe('windows-1252');
+      expect(normalizeEncoding('latin1')).toBe('iso-8859-1');
+      expect(normalizeEncoding('UTF-16')).toBe('utf-16le');
+    });
+
+    it('should reject unknown encodings', () => {
+      expect(() => normalizeEncoding('ebcdic')).toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { ValidationError } from '../errors.js';
+
+export const TEXT_ENCODINGS = [
+  'utf-8',
+  'utf-16le',
+  'utf-16be',
+  'windows-1252',
+  'iso-8859-1',
+] as const;
+
+export type TextEncoding = (typeof TEXT_ENCODINGS)[number];
+
+// Bytes inspected when guessing the encoding of a file without a byte order mark
+const SNIFF_BYTES = 4096;
+
+// Windows-1252 characters for bytes 0x80-0x9F, which are control characters in
+// ISO-8859-1; the five unassigned bytes map to themselves
+const WINDOWS_1252_HIGH = [
+  0x20ac, 0x81, 0x201a, 0x192, 0x201e, 0x2026, 0x2020, 0x2021, 0x2c6, 0x2030, 0x160, 0x2039, 0x152,
+  0x8d, 0x17d, 0x8f, 0x90, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014, 0x2dc, 0x2122,
+  0x161, 0x203a, 0x153, 0x9d, 0x17e, 0x178,
+];
+
+/**
+ * Guesses the character encoding of a text file: byte order marks first, then
+ * UTF-16 without BOM (ASCII text leaves every other byte zero), then UTF-8 if the
+ * bytes are valid UTF-8. Anything else is taken as Windows-1252, the usual
+ * encoding of Western European bank exports and a superset of ISO-8859-1.
+ */
+export function detectEncoding(buffer: Buffer): TextEncoding {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) return 'utf-8';
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) return 'utf-16le';
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) return 'utf-16be';
+
+  const sample = buffer.subarray(0, SNIFF_BYTES);
+  const utf16 = detectUtf16(sample);
+  if (utf16) return utf16;
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+/**
+ * Decodes file contents to a string, detecting the encoding unless one is given.
+ * A leading byte order mark is removed.
+ */
+export function decodeText(buffer: Buffer, encoding?: string): string {
+  const resolved = encoding ? normalizeEncoding(encoding) : detectEncoding(buffer);
+  const text = decodeWith(buffer, resolved);
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+/**
+ * Validates an encoding name, accepting common aliases such as latin1 or cp1252
+ */
+export function normalizeEncoding(name: string): TextEncoding {
+  const key = name.trim().toLowerCase().replace(/_/g, '-');
+  const aliases: Record<string, TextEncoding> = {
+    utf8: 'utf-8',
+    'utf-16': 'utf-16le',
+    utf16le: 'utf-16le',
+    utf16be: 'utf-16be',
+    cp1252: 'windows-1252',
+    windows1252: 'windows-1252',
+    latin1: 'iso-8859-1',
+    'latin-1': 'iso-8859-1',
+    'iso8859-1': 'iso-8859-1',
+  };
+  const encoding = aliases[key] || TEXT_ENCODINGS.find((supported) => supported === key);
+
+  if (!encoding) {
+    throw new ValidationError(
+      `Unsupported encoding "${name}". Use one of: ${TEXT_ENCODINGS.join(', ')}`,
+      'encoding'
+    );
+  }
+  return encoding;
+}
+
+function decodeWith(buffer: Buffer, encoding: TextEncoding): string {
+  switch (encoding) {
+    case 'utf-8':
+      return buffer.toString('utf-8');
+    case 'utf-16le':
+      return buffer.subarray(0, buffer.length - (buffer.length % 2)).toString('utf16le');
+    case 'utf-16be':
+      return Buffer.from(buffer.subarray(0, buffer.length - (buffer.length % 2)))
+        .swap16()
+        .toString('utf16le');
+    case 'iso-8859-1':
+      return buffer.toString('latin1');
+    case 'windows-1252':
+      return buffer
+        .toString('latin1')
+        .replace(/[\u0080-\u009f]/g, (char) =>
+          String.fromCharCode(WINDOWS_1252_HIGH[char.charCodeAt(0) - 0x80] as number)
+        );
+  }
+}
+
+/**
+ * Recognizes UTF-16 text without a byte order mark by its zero bytes: mostly
+ * ASCII content leaves the high byte of each character zero
+ */
+function detectUtf16(sample: Buffer): TextEncoding | null {
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let index = 0; index + 1 < sample.length; index += 2) {
+    if (sample[index] === 0) evenZeros++;
+    if (sample[index + 1] === 0) oddZeros++;
+  }
+
+  const pairs = Math.floor(sample.length / 2);
+  if (pairs === 0) return null;
+
+  // Binary files (such as legacy .xls) have zero bytes at both positions
+  if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) return 'utf-16le';
+  if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) return 'utf-16be';
+  return null;
+}
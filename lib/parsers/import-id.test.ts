@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'bun:test';
+import type { Transaction } from '../types.js';
+import { assignImportIds, buildReferenceImportId, generateHashImportId } from './import-id.js';
+
+const tx = (payee: string, amount: number, importId: string | null = null): Transaction => ({
+  date: '2025-03-12',
+  payee_name: payee,
+  category_name: null,
+  memo: null,
+  amount,
+  import_id: importId,
+});
+
+describe('import-id', () => {
+  describe('assignImportIds', () => {
+    it('should keep bank references and hash rows without one', () => {
+      const [withReference, withoutReference] = assignImportIds(
+        [tx('Coffee', -4.5, 'OFX:123'), tx('Coffee', -4.5)],
+        'reference'
+      );
+
+      expect(withReference?.import_id).toBe('OFX:123');
+      expect(withoutReference?.import_id).toBe(generateHashImportId(tx('Coffee', -4.5)));
+    });
+
+    it('should number identical amounts on the same day in file order', () => {
+      const ids = assignImportIds(
+        [tx('Coffee', -4.5, 'OFX:1'), tx('Bakery', -12), tx('Coffee', -4.5, 'OFX:2')],
+        'occurrence'
+      ).map((t) => t.import_id);
+
+      expect(ids).toEqual([
+        'YNAB:-4500:2025-03-12:1',
+        'YNAB:-12000:2025-03-12:1',
+        'YNAB:-4500:2025-03-12:2',
+      ]);
+    });
+
+    it('should ignore bank references with the hash strategy', () => {
+      const [hashed] = assignImportIds([tx('Coffee', -4.5, 'OFX:123')], 'hash');
+
+      expect(hashed?.import_id).toBe(generateHashImportId(tx('Coffee', -4.5)));
+    });
+  });
+
+  describe('buildReferenceImportId', () => {
+    it('should hash references that would exceed 36 characters', () => {
+      const importId = buildReferenceImportId('CAMT', 'A'.repeat(40));
+
+      expect(importId).toHaveLength(36);
+      expect(importId.startsWith('CAMT:')).toBe(true);
+      expect(buildReferenceImportId('CAMT', 'A'.repeat(40))).toBe(importId);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import crypto from 'node:crypto';
+import type { Transaction } from '../types.js';
+
+// YNAB rejects import_ids longer than 36 characters
+const MAX_IMPORT_ID_LENGTH = 36;
+
+/**
+ * How import_ids are built, which decides what YNAB treats as a duplicate:
+ * - reference: the bank's own transaction ID (OFX FITID, camt reference or a
+ *   Reference column), falling back to hash for rows without one
+ * - occurrence: YNAB's file import scheme, numbering transactions with the same
+ *   amount and date, so two identical coffees on one day are both imported
+ * - hash: amount and date plus a hash of payee and memo
+ */
+export const IMPORT_ID_STRATEGIES = ['reference', 'occurrence', 'hash'] as const;
+
+export type ImportIdStrategy = (typeof IMPORT_ID_STRATEGIES)[number];
+
+// Matches the import_ids of earlier versions, so re-imports are still detected as duplicates
+export const DEFAULT_IMPORT_ID_STRATEGY: ImportIdStrategy = 'reference';
+
+/**
+ * Builds a YNAB import_id from a bank-provided transaction reference, which
+ * stays stable across downloads. Long references are hashed to fit YNAB's
+ * length limit.
+ */
+export function buildReferenceImportId(prefix: string, reference: string): string {
+  const importId = `${prefix}:${reference}`;
+  if (importId.length <= MAX_IMPORT_ID_LENGTH) {
+    return importId;
+  }
+
+  const hash = crypto.createHash('sha256').update(reference).digest('hex');
+  return `${prefix}:${hash.substring(0, MAX_IMPORT_ID_LENGTH - prefix.length - 1)}`;
+}
+
+/**
+ * Sets the import_id of every transaction according to the strategy. Runs on
+ * the parsed statement, before rules rename payees, so the IDs don't change
+ * when the rules do.
+ */
+export function assignImportIds(
+  transactions: Transaction[],
+  strategy: ImportIdStrategy = DEFAULT_IMPORT_ID_STRATEGY
+): Transaction[] {
+  const occurrences = new Map<string, number>();
+
+  return transactions.map((tx) => {
+    if (strategy === 'reference') {
+      return { ...tx, import_id: tx.import_id || generateHashImportId(tx) };
+    }
+    if (strategy === 'hash') {
+      return { ...tx, import_id: generateHashImportId(tx) };
+    }
+
+    // Numbered in file order, like YNAB does for imported files
+    const key = `${toMilliunits(tx.amount)}:${tx.date}`;
+    const occurrence = (occurrences.get(key) || 0) + 1;
+    occurrences.set(key, occurrence);
+    return { ...tx, import_id: `YNAB:${key}:${occurrence}` };
+  });
+}
+
+/**
+ * Generates a unique import_id for duplicate detection
+ * Format: YNAB:[milliunit_amount]:[iso_date]:[occurrence]
+ * Max length: 36 characters
+ *
+ * The occurrence is derived from a hash of payee+memo to ensure the same
+ * transaction always generates the same import_id, regardless of upload order
+ * or what other transactions are in the batch. This enables proper duplicate
+ * detection across multiple file uploads.
+ */
+export function generateHashImportId(transaction: Transaction): string {
+  const milliunits = toMilliunits(transaction.amount);
+
+  // Create deterministic occurrence from hash of payee+memo
+  // This ensures same transaction = same import_id across different uploads
+  const uniqueData = `${transaction.payee_name || ''}:${transaction.memo || ''}`;
+  const hash = crypto.createHash('sha256').update(uniqueData).digest('hex');
+
+  // Take last 4 chars of hash as occurrence (stays within 36 char limit)
+  // Convert to number for cleaner format
+  const occurrence = parseInt(hash.substring(hash.length - 4), 16);
+
+  // YNAB format: YNAB:[milliunit_amount]:[iso_date]:[occurrence]
+  return `YNAB:${milliunits}:${transaction.date}:${occurrence}`;
+}
+
+function toMilliunits(amount: number): number {
+  return Math.round(amount * 1000);
+}
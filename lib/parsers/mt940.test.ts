@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'bun:test';
+import { CsvParseError } from '../errors.js';
+import { isMT940, parseMT940 } from './mt940.js';
+
+const GERMAN_STATEMENT = `{1:F01DEUTDEFFAXXX0000000000}{2:O9401200250101DEUTDEFFAXXX00000000002501011200N}{4:
+:20:STARTUMSE
+:25:10020030/1234567
+:28C:00001/001
+:60F:C250101EUR1234,56
+:61:2501150115DR50,00NMSCNONREF
+:86:106?00KARTENZAHLUNG?109310?20EREF+2025011512345?21SVWZ+Einkauf Rewe Berlin?22 Filiale 7?30BYLADEM1001?31DE02120300000000
+202051?32REWE MARKT GMBH
+:61:2501310201CR2000,NMSCNONREF//BANK-REF-1
+:86:166?00GUTSCHRIFT?20Gehalt Januar?32ARBEITGEBER AG
+:62F:C250131EUR3184,56
+-}`;
+
+const DUTCH_STATEMENT = `:20:940S250301
+:25:NL91ABNA0417164300
+:28C:1
+:60F:C250228EUR500,00
+:61:250301D25,50N078NONREF
+:86:/TRTP/SEPA OVERBOEKING/IBAN/NL69INGB0123456789/BIC/INGBNL2A/NAME/J. Jansen/REMI/Factuur 2025/
+03/EREF/NOTPROVIDED
+:62F:C250301EUR474,50
+-`;
+
+describe('mt940', () => {
+  describe('isMT940', () => {
+    it('should recognise MT940 statements', () => {
+      expect(isMT940(GERMAN_STATEMENT)).toBe(true);
+      expect(isMT940(DUTCH_STATEMENT)).toBe(true);
+      expect(isMT940('Date,Payee,Amount\n')).toBe(false);
+    });
+  });
+
+  describe('parseMT940', () => {
+    it('should parse statement lines with German ?-subfields', () => {
+      const statement = parseMT940(GERMAN_STATEMENT);
+
+      expect(statement.format).toBe('MT940');
+      expect(statement.transactions).toHaveLength(2);
+      expect(statement.transactions[0]).toEqual({
+        date: '2025-01-15',
+        payee_name: 'REWE MARKT GMBH',
+        category_name: null,
+        memo: 'Einkauf Rewe Berlin Filiale 7',
+        amount: -50.0,
+        import_id: null,
+      });
+      expect(statement.transactions[1]).toMatchObject({
+        payee_name: 'ARBEITGEBER AG',
+        memo: 'Gehalt Januar',
+        amount: 2000.0,
+      });
+    });
+
+    it('should build import IDs from the bank reference', () => {
+      const statement = parseMT940(
+        GERMAN_STATEMENT.replace(
+          ':61:2501150115DR50,00NMSCNONREF',
+          ':61:2501150115DR50,00NMSCNONREF//NONREF'
+        )
+      );
+
+      expect(statement.transactions.map((tx) => tx.import_id)).toEqual([null, 'MT940:BANK-REF-1']);
+    });
+
+    it('should take the booking year from the value date around New Year', () => {
+      const statement = parseMT940(GERMAN_STATEMENT);
+
+      // Value date 2025-01-31, entry date 02-01
+      expect(statement.transactions[1]?.date).toBe('2025-02-01');
+
+      const yearEnd = GERMAN_STATEMENT.replace(':61:2501150115DR', ':61:2501011231DR');
+      expect(parseMT940(yearEnd).transactions[0]?.date).toBe('2024-12-31');
+    });
+
+    it('should read opening and closing balances', () => {
+      const statement = parseMT940(GERMAN_STATEMENT);
+
+      expect(statement.openingBalance).toEqual({
+        amount: 1234.56,
+        date: '2025-01-01',
+        currency: 'EUR',
+      });
+      expect(statement.closingBalance).toEqual({
+        amount: 3184.56,
+        date: '2025-01-31',
+        currency: 'EUR',
+      });
+    });
+
+    it('should parse Dutch /KEY/ information', () => {
+      const statement = parseMT940(DUTCH_STATEMENT);
+
+      expect(statement.transactions).toHaveLength(1);
+      expect(statement.transactions[0]).toMatchObject({
+        date: '2025-03-01',
+        payee_name: 'J. Jansen',
+        memo: 'Factuur 2025/03',
+        amount: -25.5,
+      });
+      expect(statement.closingBalance?.amount).toBe(474.5);
+    });
+
+    it('should handle unstructured information and reversals', () => {
+      const content = `:20:REF
+:25:123456
+:60F:D250101CHF10,00
+:61:250105RD10,00NTRFREF
+:86:Refund card fee
+Reversal of booking 4711
+:62F:C250105CHF0,00`;
+
+      const statement = parseMT940(content);
+
+      expect(statement.openingBalance?.amount).toBe(-10.0);
+      expect(statement.transactions[0]).toMatchObject({
+        payee_name: 'Refund card fee',
+        memo: 'Reversal of booking 4711',
+        amount: 10.0,
+      });
+    });
+
+    it('should throw on malformed statement lines', () => {
+      const content = GERMAN_STATEMENT.replace(':61:2501150115DR50,00', ':61:garbage');
+
+      expect(() => parseMT940(content)).toThrow(CsvParseError);
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { CsvParseError } from '../errors.js';
+import type { ParsedStatement, StatementBalance, Transaction } from '../types.js';
+import { buildReferenceImportId } from './import-id.js';
+import { sanitizeString } from './sanitize.js';
+
+interface Mt940Field {
+  tag: string;
+  value: string;
+  line: number;
+}
+
+// :61: value date, optional entry date, mark, optional funds code, amount, type, references
+const STATEMENT_LINE_REGEX =
+  /^(\d{2})(\d{2})(\d{2})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d*)([NFS][A-Z0-9]{3})([^/\n]*)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/;
+
+// :60F:, :62F: and friends: mark, date, currency, amount
+const BALANCE_REGEX = /^([CD])(\d{2})(\d{2})(\d{2})([A-Z]{3})(\d+,\d*)/;
+
+/**
+ * Checks whether the content looks like a SWIFT MT940 statement
+ */
+export function isMT940(content: string): boolean {
+  const head = content.slice(0, 4096);
+  return /^:20:/m.test(head) && /^:(25|60[FM]|61):/m.test(head);
+}
+
+/**
+ * Parses a SWIFT MT940 statement
+ * Every :61: statement line becomes a transaction, described by the :86: that follows it.
+ * Opening/closing balances come from the first :60F: and the last :62F:.
+ */
+export function parseMT940(content: string): ParsedStatement {
+  const fields = readFields(content);
+  if (!fields.some((f) => f.tag === '61' || f.tag.startsWith('60'))) {
+    throw new CsvParseError('File is not a valid MT940 statement', 1);
+  }
+
+  const transactions: Transaction[] = [];
+  let openingBalance: StatementBalance | null = null;
+  let closingBalance: StatementBalance | null = null;
+
+  for (const [index, field] of fields.entries()) {
+    if (field.tag === '60F' || field.tag === '60M') {
+      openingBalance ??= parseBalance(field);
+    } else if (field.tag === '62F' || field.tag === '62M') {
+      closingBalance = parseBalance(field);
+    } else if (field.tag === '61') {
+      const next = fields[index + 1];
+      transactions.push(parseStatementLine(field, next?.tag === '86' ? next : undefined));
+    }
+  }
+
+  return { format: 'MT940', transactions, openingBalance, closingBalance };
+}
+
+/**
+ * Splits the file into :tag: fields, joining continuation lines and
+ * ignoring SWIFT block headers ({1:...}{4:) and the '-' trailers.
+ */
+function readFields(content: string): Mt940Field[] {
+  const fields: Mt940Field[] = [];
+  const lines = content.split(/\r?\n/);
+
+  for (const [index, line] of lines.entries()) {
+    const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (match?.[1]) {
+      fields.push({ tag: match[1], value: match[2] || '', line: index + 1 });
+      continue;
+    }
+
+    const current = fields[fields.length - 1];
+    if (current && line.trim() && !/^-}?$/.test(line.trim()) && !line.startsWith('{')) {
+      current.value += `\n${line}`;
+    }
+  }
+
+  return fields;
+}
+
+function parseBalance(field: Mt940Field): StatementBalance {
+  const match = field.value.match(BALANCE_REGEX);
+  if (!match?.[1] || !match[5] || !match[6]) {
+    throw new CsvParseError(`Invalid balance in :${field.tag}:`, field.line);
+  }
+
+  const amount = parseAmount(match[6]);
+  return {
+    amount: match[1] === 'D' ? -amount : amount,
+    date: toIsoDate(toFullYear(match[2] as string), match[3] as string, match[4] as string),
+    currency: match[5],
+  };
+}
+
+function parseStatementLine(field: Mt940Field, details: Mt940Field | undefined): Transaction {
+  const match = field.value.match(STATEMENT_LINE_REGEX);
+  if (!match?.[1] || !match[2] || !match[3] || !match[5] || !match[7]) {
+    throw new CsvParseError(`Invalid :61: statement line: ${field.value}`, field.line);
+  }
+
+  const [, year, valueMonth, valueDay, entryDate, mark, , amountStr] = match;
+  const amount = parseAmount(amountStr as string);
+  // C credit, D debit, RC reversal of credit, RD reversal of debit
+  const sign = mark === 'D' || mark === 'RC' ? -1 : 1;
+
+  // Prefer the entry (booking) date, whose year may differ from the value date around New Year
+  const valueYear = toFullYear(year as string);
+  let date = toIsoDate(valueYear, valueMonth as string, valueDay as string);
+  if (entryDate) {
+    const entryMonth = entryDate.substring(0, 2);
+    let entryYear = valueYear;
+    if (entryMonth === '12' && valueMonth === '01') entryYear -= 1;
+    if (entryMonth === '01' && valueMonth === '12') entryYear += 1;
+    date = toIsoDate(entryYear, entryMonth, entryDate.substring(2));
+  }
+
+  const info = parseInformation(details?.value || '');
+  const supplementary = match[11]?.trim() || null;
+  // The bank's own reference (after //); NONREF means there is none
+  const reference = match[10]?.trim();
+
+  return {
+    date,
+    payee_name: sanitizeString(info.payee || supplementary),
+    category_name: null,
+    memo: sanitizeString(info.memo, 100),
+    amount: sign * amount,
+    import_id:
+      reference && reference.toUpperCase() !== 'NONREF'
+        ? buildReferenceImportId('MT940', reference)
+        : null,
+  };
+}
+
+/**
+ * Reads payee and purpose from :86:, which comes in three flavours:
+ * - German structured: 3-digit code followed by ?nn subfields
+ *   (?00 booking text, ?20-?29 and ?60-?63 purpose, ?32-?33 payee name)
+ * - Dutch structured: /NAME/.../REMI/... keyword pairs
+ * - Unstructured free text
+ */
+function parseInformation(value: string): { payee: string | null; memo: string | null } {
+  const germanMatch = value.match(/^\d{3}(\D)/);
+  const separator = germanMatch?.[1];
+  if (separator && /\d{2}/.test(value.substring(4, 6))) {
+    const subfields = new Map<number, string>();
+    const joined = value.replace(/\n/g, '');
+    for (const part of joined.substring(4).split(separator)) {
+      if (/^\d{2}/.test(part)) {
+        const code = Number(part.substring(0, 2));
+        subfields.set(code, (subfields.get(code) || '') + part.substring(2));
+      }
+    }
+
+    const collect = (from: number, to: number) =>
+      Array.from(subfields.entries())
+        .filter(([code]) => code >= from && code <= to)
+        .map(([, text]) => text)
+        .join('');
+
+    const purpose = `${collect(20, 29)}${collect(60, 63)}`;
+    const payee = collect(32, 33).trim();
+
+    return {
+      payee: payee || subfields.get(0) || null,
+      memo: extractSepaPurpose(purpose) || subfields.get(0) || null,
+    };
+  }
+
+  if (/^\/[A-Z]{2,4}\//.test(value)) {
+    const joined = value.replace(/\n/g, '');
+    const keywords = new Map<string, string>();
+    for (const match of joined.matchAll(/\/([A-Z]{2,4})\/([^/]*(?:\/(?![A-Z]{2,4}\/)[^/]*)*)/g)) {
+      if (match[1]) keywords.set(match[1], (match[2] || '').trim());
+    }
+
+    return {
+      payee: keywords.get('NAME') || null,
+      memo: keywords.get('REMI') || keywords.get('TRTP') || null,
+    };
+  }
+
+  const lines = value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+  return { payee: lines[0] || null, memo: lines.slice(1).join(' ') || null };
+}
+
+/**
+ * SEPA purposes carry keywords (EREF+, MREF+, SVWZ+, ...); the actual text is SVWZ+.
+ */
+function extractSepaPurpose(purpose: string): string | null {
+  if (!/[A-Z]{4}\+/.test(purpose)) {
+    return purpose.trim() || null;
+  }
+
+  const svwz = purpose.match(/SVWZ\+(.*?)(?=(?:EREF|KREF|MREF|CRED|DEBT|ABWA|ABWE|IBAN|BIC)\+|$)/);
+  return svwz?.[1]?.trim() || null;
+}
+
+function parseAmount(value: string): number {
+  return parseFloat(value.replace(',', '.'));
+}
+
+function toFullYear(year: string): number {
+  return Number(year) < 80 ? 2000 + Number(year) : 1900 + Number(year);
+}
+
+function toIsoDate(year: number, month: string, day: string): string {
+  return `${year}-${month}-${day}`;
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'bun:test';
+import { CsvParseError } from '../errors.js';
+import { isOFX, parseOFX, parseOFXBalance } from './ofx.js';
+
+const SGML_STATEMENT = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+SECURITY:NONE
+ENCODING:USASCII
+CHARSET:1252
+COMPRESSION:NONE
+OLDFILEUID:NONE
+NEWFILEUID:NONE
+
+<OFX>
+<BANKMSGSRSV1>
+<STMTTRNRS>
+<STMTRS>
+<CURDEF>USD
+<BANKTRANLIST>
+<DTSTART>20250101
+<DTEND>20250131
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20250115120000.000[-5:EST]
+<TRNAMT>-50.00
+<FITID>202501150001
+<NAME>COFFEE &amp; CO
+<MEMO>Card purchase
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20250116
+<TRNAMT>3000,00
+<FITID>202501160002
+<NAME>EMPLOYER INC
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS>
+</STMTTRNRS>
+</BANKMSGSRSV1>
+</OFX>`;
+
+const XML_STATEMENT = `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>
+<OFX>
+  <CREDITCARDMSGSRSV1>
+    <CCSTMTTRNRS>
+      <CCSTMTRS>
+        <BANKTRANLIST>
+          <STMTTRN>
+            <TRNTYPE>DEBIT</TRNTYPE>
+            <DTPOSTED>20250201</DTPOSTED>
+            <TRNAMT>-12.34</TRNAMT>
+            <FITID>a-very-long-transaction-identifier-from-the-bank-0001</FITID>
+            <PAYEE>
+              <NAME>Grocery Store</NAME>
+            </PAYEE>
+          </STMTTRN>
+        </BANKTRANLIST>
+      </CCSTMTRS>
+    </CCSTMTTRNRS>
+  </CREDITCARDMSGSRSV1>
+</OFX>`;
+
+describe('ofx', () => {
+  describe('isOFX', () => {
+    it('should recognise SGML and XML statements', () => {
+      expect(isOFX(SGML_STATEMENT)).toBe(true);
+      expect(isOFX(XML_STATEMENT)).toBe(true);
+    });
+
+    it('should not match CSV content', () => {
+      expect(isOFX('Date,Payee,Amount\n2025-01-15,Store,10.00')).toBe(false);
+    });
+  });
+
+  describe('parseOFX', () => {
+    it('should parse SGML statements', () => {
+      const transactions = parseOFX(SGML_STATEMENT);
+
+      expect(transactions).toHaveLength(2);
+      expect(transactions[0]).toEqual({
+        date: '2025-01-15',
+        payee_name: 'COFFEE & CO',
+        category_name: null,
+        memo: 'Card purchase',
+        amount: -50.0,
+        import_id: 'OFX:202501150001',
+      });
+      expect(transactions[1]).toMatchObject({
+        date: '2025-01-16',
+        payee_name: 'EMPLOYER INC',
+        memo: null,
+        amount: 3000.0,
+      });
+    });
+
+    it('should parse XML statements with a PAYEE aggregate', () => {
+      const transactions = parseOFX(XML_STATEMENT);
+
+      expect(transactions).toHaveLength(1);
+      expect(transactions[0]).toMatchObject({
+        date: '2025-02-01',
+        payee_name: 'Grocery Store',
+        amount: -12.34,
+      });
+    });
+
+    it('should hash FITIDs that exceed the import_id length limit', () => {
+      const importId = parseOFX(XML_STATEMENT)[0]?.import_id;
+
+      expect(importId).toMatch(/^OFX:[0-9a-f]{32}$/);
+      expect(importId?.length).toBe(36);
+      expect(parseOFX(XML_STATEMENT)[0]?.import_id).toBe(importId);
+    });
+
+    it('should fall back to the memo when there is no name', () => {
+      const content = SGML_STATEMENT.replace('<NAME>COFFEE &amp; CO\n', '');
+
+      expect(parseOFX(content)[0]).toMatchObject({
+        payee_name: 'Card purchase',
+        memo: null,
+      });
+    });
+
+    it('should throw on invalid amounts', () => {
+      const content = SGML_STATEMENT.replace('<TRNAMT>-50.00', '<TRNAMT>n/a');
+
+      expect(() => parseOFX(content)).toThrow(CsvParseError);
+      expect(() => parseOFX(content)).toThrow('invalid TRNAMT');
+    });
+
+    it('should throw on non-OFX content', () => {
+      expect(() => parseOFX('Date,Payee\n')).toThrow('not a valid OFX/QFX statement');
+    });
+  });
+
+  describe('parseOFXBalance', () => {
+    it('should read the ledger balance', () => {
+      const content = SGML_STATEMENT.replace(
+        '</BANKTRANLIST>',
+        '</BANKTRANLIST>\n<LEDGERBAL>\n<BALAMT>1234,56\n<DTASOF>20250131120000\n'
+      );
+
+      expect(parseOFXBalance(content)).toEqual({
+        amount: 1234.56,
+        date: '2025-01-31',
+        currency: 'USD',
+      });
+    });
+
+    it('should return null without a ledger balance', () => {
+      expect(parseOFXBalance(XML_STATEMENT)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { CsvParseError } from '../errors.js';
+import type { StatementBalance, Transaction } from '../types.js';
+import { buildReferenceImportId } from './import-id.js';
+import { sanitizeString } from './sanitize.js';
+
+/**
+ * Checks whether the content looks like an OFX/QFX statement.
+ * OFX 1.x starts with an SGML header block, OFX 2.x is XML with an <?OFX ?> instruction.
+ */
+export function isOFX(content: string): boolean {
+  const head = content.slice(0, 2048).trimStart();
+  return head.startsWith('OFXHEADER') || /<\?OFX\s/i.test(head) || /<OFX>/i.test(head);
+}
+
+/**
+ * Parses an OFX/QFX statement (SGML 1.x or XML 2.x)
+ * Bank and credit card statements both list their entries as <STMTTRN> aggregates.
+ */
+export function parseOFX(content: string): Transaction[] {
+  if (!isOFX(content)) {
+    throw new CsvParseError('File is not a valid OFX/QFX statement');
+  }
+
+  const blocks = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+
+  return blocks.map((block, index) => {
+    const dateStr = readTag(block, 'DTPOSTED') || readTag(block, 'DTUSER');
+    const date = parseOFXDate(dateStr);
+    if (!date) {
+      throw new CsvParseError(`Transaction ${index + 1} has an invalid DTPOSTED: ${dateStr}`);
+    }
+
+    const amountStr = readTag(block, 'TRNAMT');
+    const amount = parseOFXAmount(amountStr);
+    if (amount === null) {
+      throw new CsvParseError(`Transaction ${index + 1} has an invalid TRNAMT: ${amountStr}`);
+    }
+
+    // <NAME> may sit directly in STMTTRN or inside a <PAYEE> aggregate
+    const name = sanitizeString(readTag(block, 'NAME'));
+    const memo = sanitizeString(readTag(block, 'MEMO'), 100);
+    const fitid = readTag(block, 'FITID');
+
+    return {
+      date,
+      payee_name: name || memo,
+      category_name: null,
+      memo: name ? memo : null,
+      amount,
+      import_id: fitid ? buildReferenceImportId('OFX', fitid) : null,
+    };
+  });
+}
+
+/**
+ * Reads the ledger balance (<LEDGERBAL>) the statement closes with
+ */
+export function parseOFXBalance(content: string): StatementBalance | null {
+  const block = content.match(/<LEDGERBAL>[\s\S]*?(<\/LEDGERBAL>|<DTASOF>[^<\r\n]*)/i)?.[0];
+  if (!block) return null;
+
+  const amount = parseOFXAmount(readTag(block, 'BALAMT'));
+  const date = parseOFXDate(readTag(block, 'DTASOF'));
+  if (amount === null || !date) return null;
+
+  return { amount, date, currency: readTag(content, 'CURDEF') };
+}
+
+/**
+ * Reads the value of a leaf element. SGML leaves are usually unclosed
+ * (<TRNAMT>-12.50), XML ones are closed; both end at the next tag or newline.
+ */
+function readTag(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1]?.trim();
+  return value ? decodeEntities(value) : null;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * OFX dates are YYYYMMDD, optionally followed by time, milliseconds and a
+ * timezone (20250115120000.000[-5:EST]). Only the calendar date is kept.
+ */
+function parseOFXDate(value: string | null): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  return `${match[1]}-${match[2]}-${match[3]}`;
+}
+
+function parseOFXAmount(value: string | null): number | null {
+  if (!value) return null;
+
+  // The spec allows a comma as decimal separator
+  const normalized = value.replace(/\s/g, '').replace(',', '.');
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(normalized)) return null;
+
+  return parseFloat(normalized);
+}
@@ -0,0 +1,195 @@
+import { describe, expect, it } from 'bun:test';
+import { CsvParseError } from '../errors.js';
+import { isQIF, parseQIF } from './qif.js';
+
+describe('qif', () => {
+  describe('isQIF', () => {
+    it('should recognise QIF headers', () => {
+      expect(isQIF('!Type:Bank\nD01/15/2025\n^')).toBe(true);
+      expect(isQIF('!Account\nNChecking\n^\n!Type:Bank\n')).toBe(true);
+      expect(isQIF('Date,Payee,Amount\n')).toBe(false);
+    });
+  });
+
+  describe('parseQIF', () => {
+    it('should parse bank transactions', () => {
+      const content = `!Type:Bank
+D01/15/2025
+T-1,234.56
+PLandlord
+MJanuary rent
+LHousing:Rent
+^
+D1/16'25
+U3000.00
+PEmployer
+^`;
+
+      const transactions = parseQIF(content);
+
+      expect(transactions).toHaveLength(2);
+      expect(transactions[0]).toEqual({
+        date: '2025-01-15',
+        payee_name: 'Landlord',
+        category_name: 'Housing:Rent',
+        memo: 'January rent',
+        amount: -1234.56,
+      });
+      expect(transactions[1]).toMatchObject({
+        date: '2025-01-16',
+        payee_name: 'Employer',
+        category_name: null,
+        amount: 3000.0,
+      });
+    });
+
+    it('should infer European date order from unambiguous dates', () => {
+      const content = `!Type:Bank
+D05.01.2025
+T-10,00
+PBakery
+^
+D25.01.2025
+T-20,50
+PButcher
+^`;
+
+      const transactions = parseQIF(content);
+
+      expect(transactions[0]?.date).toBe('2025-01-05');
+      expect(transactions[1]?.date).toBe('2025-01-25');
+      expect(transactions[1]?.amount).toBe(-20.5);
+    });
+
+    it('should honour an explicit date order for ambiguous dates', () => {
+      const content = `!Type:Bank
+D03/04/2025
+T-10.00
+^`;
+
+      expect(parseQIF(content)[0]?.date).toBe('2025-03-04');
+      expect(parseQIF(content, { dateOrder: 'dmy' })[0]?.date).toBe('2025-04-03');
+    });
+
+    it('should read split lines as subtransactions', () => {
+      const content = `!Type:CCard
+D2025-02-01
+T-100.00
+PSupermarket
+SFood:Groceries
+EWeekly shop
+$-80.00
+SHousehold
+$-20.00
+^`;
+
+      const [transaction] = parseQIF(content);
+
+      expect(transaction?.category_name).toBeNull();
+      expect(transaction?.subtransactions).toEqual([
+        { amount: -80.0, category_name: 'Food:Groceries', memo: 'Weekly shop' },
+        { amount: -20.0, category_name: 'Household', memo: null },
+      ]);
+    });
+
+    it('should drop splits that do not add up to the total', () => {
+      const content = `!Type:Bank
+D2025-02-01
+T-100.00
+SFood
+$-80.00
+^`;
+
+      const [transaction] = parseQIF(content);
+
+      expect(transaction?.amount).toBe(-100.0);
+      expect(transaction?.subtransactions).toBeUndefined();
+    });
+
+    it('should treat transfers as uncategorised', () => {
+      const content = `!Type:Bank
+D01/15/2025
+T-500.00
+L[Savings]
+^`;
+
+      expect(parseQIF(content)[0]?.category_name).toBeNull();
+    });
+
+    it('should skip account and category list sections', () => {
+      const content = `!Account
+NChecking
+TBank
+^
+!Type:Cat
+NGroceries
+E
+^
+!Type:Bank
+D01/15/2025
+T-5.00
+PCafe
+^`;
+
+      const transactions = parseQIF(content);
+
+      expect(transactions).toHaveLength(1);
+      expect(transactions[0]?.payee_name).toBe('Cafe');
+    });
+
+    it('should read thousands separators consistently with the rest of the file', () => {
+      const content = `!Type:Bank
+D01/15/2025
+T-1,234
+PRent
+^
+D01/16/2025
+T-12.50
+PLunch
+^`;
+
+      const transactions = parseQIF(content);
+
+      expect(transactions[0]?.amount).toBe(-1234);
+      expect(transactions[1]?.amount).toBe(-12.5);
+    });
+
+    it('should read comma decimals when the file uses them', () => {
+      const content = `!Type:Bank
+D15.01.2025
+T-1.234,50
+^
+D16.01.2025
+T-12,5
+^`;
+
+      const transactions = parseQIF(content);
+
+      expect(transactions[0]?.amount).toBe(-1234.5);
+      expect(transactions[1]?.amount).toBe(-12.5);
+    });
+
+    it('should reject dates that do not exist', () => {
+      const content = `!Type:Bank
+D02/31/2025
+T-5.00
+^`;
+
+      expect(() => parseQIF(content)).toThrow('Invalid or missing date: 02/31/2025');
+    });
+
+    it('should throw with the line number on invalid dates', () => {
+      const content = `!Type:Bank
+Dsometime
+T-5.00
+^`;
+
+      expect(() => parseQIF(content)).toThrow(CsvParseError);
+      try {
+        parseQIF(content);
+      } catch (error) {
+        expect((error as CsvParseError).line).toBe(2);
+      }
+    });
+  });
+});
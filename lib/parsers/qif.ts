@@ -0,0 +1,258 @@
+import { CsvParseError } from '../errors.js';
+import { getLogger } from '../logger.js';
+import type { SubTransaction, Transaction } from '../types.js';
+import { type DecimalSeparator, detectDecimalSeparator, parseAmount } from './amount-parser.js';
+import { parseDate } from './date-parser.js';
+import { sanitizeString } from './sanitize.js';
+
+/**
+ * Day/month order of QIF dates. Quicken writes US dates (mdy), European
+ * exports use dmy; the file itself does not say which one it is.
+ */
+export type QifDateOrder = 'mdy' | 'dmy';
+
+export interface QifOptions {
+  dateOrder?: QifDateOrder;
+}
+
+// Record codes that hold amounts: total (T, U) and split ($) amounts
+const AMOUNT_CODES = ['T', 'U', '$'];
+
+// Sections that hold lists (categories, classes, ...) or investment trades rather than transactions
+const NON_TRANSACTION_TYPES = ['cat', 'class', 'memorized', 'invst', 'prices', 'security'];
+
+interface QifRecord {
+  line: number;
+  fields: Array<[string, string]>;
+}
+
+/**
+ * Checks whether the content looks like a QIF file
+ */
+export function isQIF(content: string): boolean {
+  return /^\s*!(Type|Account|Option|Clear)\b/i.test(content.slice(0, 512));
+}
+
+/**
+ * Parses a QIF (Quicken Interchange Format) file
+ * Transactions are blocks of single-letter records terminated by '^'.
+ */
+export function parseQIF(content: string, options: QifOptions = {}): Transaction[] {
+  if (!isQIF(content)) {
+    throw new CsvParseError('File is not a valid QIF file (missing !Type header)', 1);
+  }
+
+  const records = readRecords(content);
+  const dateOrder = options.dateOrder || inferDateOrder(records);
+  // Detected across the whole file so that 1,234 is read like the file's other amounts
+  const decimalSeparator = detectDecimalSeparator(
+    records.flatMap((record) =>
+      record.fields.filter(([code]) => AMOUNT_CODES.includes(code)).map(([, value]) => value)
+    )
+  );
+
+  return records.map((record) => {
+    let dateStr: string | undefined;
+    let amountStr: string | undefined;
+    let payee: string | undefined;
+    let memo: string | undefined;
+    let category: string | undefined;
+    const splits: SubTransaction[] = [];
+
+    for (const [code, value] of record.fields) {
+      switch (code) {
+        case 'D':
+          dateStr = value;
+          break;
+        case 'T':
+        case 'U':
+          amountStr ??= value;
+          break;
+        case 'P':
+          payee = value;
+          break;
+        case 'M':
+          memo = value;
+          break;
+        case 'L':
+          category = value;
+          break;
+        case 'S':
+          splits.push({ amount: 0, category_name: parseCategory(value), memo: null });
+          break;
+        case 'E': {
+          const split = splits[splits.length - 1];
+          if (split) split.memo = sanitizeString(value, 100);
+          break;
+        }
+        case '$': {
+          const split = splits[splits.length - 1];
+          if (split) split.amount = parseQifAmount(value, record.line, decimalSeparator) ?? 0;
+          break;
+        }
+      }
+    }
+
+    const date = parseQifDate(dateStr, dateOrder);
+    if (!date) {
+      throw new CsvParseError(`Invalid or missing date: ${dateStr ?? ''}`, record.line);
+    }
+
+    let amount =
+      amountStr !== undefined ? parseQifAmount(amountStr, record.line, decimalSeparator) : null;
+    if (amount === null && splits.length > 0) {
+      amount = sumAmounts(splits);
+    }
+    if (amount === null) {
+      throw new CsvParseError('Missing transaction amount', record.line);
+    }
+
+    const transaction: Transaction = {
+      date,
+      payee_name: sanitizeString(payee),
+      category_name: splits.length > 0 ? null : parseCategory(category),
+      memo: sanitizeString(memo, 100),
+      amount,
+    };
+
+    if (splits.length > 0) {
+      // YNAB rejects splits that don't add up to the parent amount
+      if (sumAmounts(splits) === amount) {
+        transaction.subtransactions = splits;
+      } else {
+        getLogger().error(
+          `Ignoring splits on line ${record.line}: they don't add up to the transaction amount`
+        );
+      }
+    }
+
+    return transaction;
+  });
+}
+
+/**
+ * Splits the file into transaction records, skipping account and list sections
+ */
+function readRecords(content: string): QifRecord[] {
+  const records: QifRecord[] = [];
+  const lines = content.split(/\r?\n/);
+
+  let inTransactions = false;
+  let current: QifRecord | null = null;
+
+  for (const [index, rawLine] of lines.entries()) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith('!')) {
+      const type = line
+        .match(/^!Type:(.*)$/i)?.[1]
+        ?.trim()
+        .toLowerCase();
+      inTransactions = type !== undefined && !NON_TRANSACTION_TYPES.includes(type);
+      current = null;
+      continue;
+    }
+
+    if (!inTransactions) continue;
+
+    if (line.startsWith('^')) {
+      if (current) records.push(current);
+      current = null;
+      continue;
+    }
+
+    current ??= { line: index + 1, fields: [] };
+    current.fields.push([line.charAt(0), line.substring(1).trim()]);
+  }
+
+  // Tolerate a missing '^' after the last record
+  if (current) records.push(current);
+
+  return records;
+}
+
+/**
+ * Picks the date order from dates that can only be read one way (e.g. 25/01/2025).
+ * Falls back to US order, which is what Quicken writes.
+ */
+function inferDateOrder(records: QifRecord[]): QifDateOrder {
+  for (const record of records) {
+    const dateStr = record.fields.find(([code]) => code === 'D')?.[1];
+    const parts = dateStr ? splitDate(dateStr) : null;
+    if (!parts || parts.iso) continue;
+
+    if (parts.first > 12) return 'dmy';
+    if (parts.second > 12) return 'mdy';
+  }
+
+  return 'mdy';
+}
+
+function splitDate(
+  dateStr: string
+): { first: number; second: number; year: number; iso: boolean } | null {
+  // Quicken writes 1/15'25 for years after 1999 and pads with spaces
+  const normalized = dateStr.replace(/\s/g, '');
+
+  const iso = normalized.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (iso) {
+    return { first: Number(iso[2]), second: Number(iso[3]), year: Number(iso[1]), iso: true };
+  }
+
+  const match = normalized.match(/^(\d{1,2})[/.-](\d{1,2})(?:[/.-]|')(\d{2}|\d{4})$/);
+  if (!match?.[1] || !match[2] || !match[3]) return null;
+
+  let year = Number(match[3]);
+  if (match[3].length === 2) {
+    year += normalized.includes("'") || year < 70 ? 2000 : 1900;
+  }
+
+  return { first: Number(match[1]), second: Number(match[2]), year, iso: false };
+}
+
+function parseQifDate(dateStr: string | undefined, dateOrder: QifDateOrder): string | null {
+  const parts = dateStr ? splitDate(dateStr) : null;
+  if (!parts) return null;
+
+  const month = parts.iso || dateOrder === 'mdy' ? parts.first : parts.second;
+  const day = parts.iso || dateOrder === 'mdy' ? parts.second : parts.first;
+
+  // The shared date parser rejects dates that don't exist, such as 02/31
+  try {
+    return parseDate(
+      `${parts.year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`,
+      '%Y-%m-%d'
+    );
+  } catch {
+    return null;
+  }
+}
+
+function parseQifAmount(
+  value: string,
+  line: number,
+  decimalSeparator: DecimalSeparator | undefined
+): number | null {
+  if (!/\d/.test(value)) return null;
+
+  try {
+    return parseAmount(value, { decimalSeparator });
+  } catch {
+    throw new CsvParseError(`Invalid amount: ${value}`, line);
+  }
+}
+
+/**
+ * Transfers are written as [Account Name]; those have no YNAB category.
+ * A trailing /Class is dropped.
+ */
+function parseCategory(value: string | undefined): string | null {
+  if (!value || value.startsWith('[')) return null;
+  return sanitizeString(value.split('/')[0]);
+}
+
+function sumAmounts(splits: SubTransaction[]): number {
+  // Round to cents to avoid floating point drift when comparing with the total
+  return Math.round(splits.reduce((sum, split) => sum + split.amount, 0) * 100) / 100;
+}
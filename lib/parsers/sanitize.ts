@@ -0,0 +1,16 @@
+/**
+ * Strips control characters and trims a free-text field coming from a bank
+ * export, truncating it to maxLength. Empty results become null.
+ */
+export function sanitizeString(str: string | null | undefined, maxLength = 200): string | null {
+  if (!str) return null;
+
+  let cleaned = str.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '');
+  cleaned = cleaned.trim();
+
+  if (cleaned.length > maxLength) {
+    cleaned = cleaned.substring(0, maxLength);
+  }
+
+  return cleaned || null;
+}
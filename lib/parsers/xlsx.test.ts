@@ -0,0 +1,197 @@
+import { describe, expect, it } from 'bun:test';
+import zlib from 'node:zlib';
+import { CsvParseError } from '../errors.js';
+import { excelSerialToIsoDate, isLegacyXls, isXlsx, readXlsxSheet } from './xlsx.js';
+
+/**
+ * Builds a zip archive with deflated entries (CRCs are left empty, the reader ignores them)
+ */
+function createZip(files: Record<string, string>): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBuffer = Buffer.from(name, 'utf-8');
+    const data = zlib.deflateRawSync(Buffer.from(content, 'utf-8'));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(Buffer.byteLength(content), 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(Buffer.byteLength(content), 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, nameBuffer, data);
+    centralParts.push(central, nameBuffer);
+    offset += local.length + nameBuffer.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(centralParts.length / 2, 8);
+  end.writeUInt16LE(centralParts.length / 2, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+const WORKBOOK = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+  <sheets>
+    <sheet name="Summary" sheetId="1" r:id="rId1"/>
+    <sheet name="Transactions" sheetId="2" r:id="rId2"/>
+  </sheets>
+</workbook>`;
+
+const RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/>
+  <Relationship Id="rId2" Type="worksheet" Target="/xl/worksheets/sheet2.xml"/>
+</Relationships>`;
+
+const SHARED_STRINGS = `<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" count="4" uniqueCount="4">
+  <si><t>Date</t></si>
+  <si><t>Payee</t></si>
+  <si><r><t xml:space="preserve">Coffee </t></r><r><rPr><b/></rPr><t>&amp; Co</t></r></si>
+  <si><t>Amount</t></si>
+</sst>`;
+
+// Style 0 is general, 1 the built-in d/m/yyyy format, 2 a custom "dd.mm.yyyy" format
+const STYLES = `<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+  <numFmts count="1"><numFmt numFmtId="164" formatCode="dd\\.mm\\.yyyy"/></numFmts>
+  <cellXfs count="3">
+    <xf numFmtId="0"/>
+    <xf numFmtId="14"/>
+    <xf numFmtId="164"/>
+  </cellXfs>
+</styleSheet>`;
+
+const SUMMARY_SHEET = `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+  <sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>Overview</t></is></c></row></sheetData>
+</worksheet>`;
+
+const TRANSACTIONS_SHEET = `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+  <sheetData>
+    <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="D1" t="s"><v>3</v></c></row>
+    <row r="2"><c r="A2" s="1"><v>45672</v></c><c r="B2" t="s"><v>2</v></c><c r="D2"><v>-4.3000000000000007</v></c></row>
+    <row r="4"><c r="A4" s="2"><v>45673.5</v></c><c r="B4" t="str"><v>Refund</v></c><c r="D4"><v>12</v></c></row>
+  </sheetData>
+</worksheet>`;
+
+function createWorkbook(overrides: Record<string, string> = {}): Buffer {
+  return createZip({
+    '[Content_Types].xml': '<Types/>',
+    'xl/workbook.xml': WORKBOOK,
+    'xl/_rels/workbook.xml.rels': RELATIONSHIPS,
+    'xl/sharedStrings.xml': SHARED_STRINGS,
+    'xl/styles.xml': STYLES,
+    'xl/worksheets/sheet1.xml': SUMMARY_SHEET,
+    'xl/worksheets/sheet2.xml': TRANSACTIONS_SHEET,
+    ...overrides,
+  });
+}
+
+describe('xlsx', () => {
+  describe('format detection', () => {
+    it('should recognise zip-based workbooks and legacy binary files', () => {
+      const legacy = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+      expect(isXlsx(createWorkbook())).toBe(true);
+      expect(isXlsx(Buffer.from('Date,Payee\n'))).toBe(false);
+      expect(isLegacyXls(legacy)).toBe(true);
+      expect(isLegacyXls(createWorkbook())).toBe(false);
+    });
+  });
+
+  describe('excelSerialToIsoDate', () => {
+    it('should convert serials from both date systems', () => {
+      expect(excelSerialToIsoDate(45672)).toBe('2025-01-15');
+      expect(excelSerialToIsoDate(45672.75)).toBe('2025-01-15');
+      expect(excelSerialToIsoDate(44210, true)).toBe('2025-01-15');
+    });
+  });
+
+  describe('readXlsxSheet', () => {
+    it('should read the first sheet by default', () => {
+      const sheet = readXlsxSheet(createWorkbook());
+
+      expect(sheet.name).toBe('Summary');
+      expect(sheet.rows).toEqual([['Overview']]);
+    });
+
+    it('should select sheets by name or position', () => {
+      expect(readXlsxSheet(createWorkbook(), 'transactions').name).toBe('Transactions');
+      expect(readXlsxSheet(createWorkbook(), '2').name).toBe('Transactions');
+      expect(() => readXlsxSheet(createWorkbook(), 'Missing')).toThrow(
+        'Available sheets: Summary, Transactions'
+      );
+    });
+
+    it('should keep row and column positions and convert date cells', () => {
+      const { rows } = readXlsxSheet(createWorkbook(), 'Transactions');
+
+      expect(rows).toEqual([
+        ['Date', 'Payee', '', 'Amount'],
+        ['2025-01-15', 'Coffee & Co', '', '-4.3'],
+        [],
+        ['2025-01-16', 'Refund', '', '12'],
+      ]);
+    });
+
+    it('should honour the 1904 date system', () => {
+      const workbook = createWorkbook({
+        'xl/workbook.xml': WORKBOOK.replace('<sheets>', '<workbookPr date1904="1"/><sheets>'),
+      });
+
+      const { rows, date1904 } = readXlsxSheet(workbook, 'Transactions');
+
+      expect(date1904).toBe(true);
+      expect(rows[1]?.[0]).toBe('2029-01-16');
+    });
+
+    it('should reject cell references outside the sheet limits', () => {
+      const sheet = (reference: string) => ({
+        'xl/worksheets/sheet1.xml': `<worksheet><sheetData><row><c r="${reference}" t="inlineStr"><is><t>x</t></is></c></row></sheetData></worksheet>`,
+      });
+
+      expect(() => readXlsxSheet(createWorkbook(sheet('XFE1')))).toThrow(
+        'cell XFE1 is out of range'
+      );
+    });
+
+    it('should reject far-away references instead of padding up to them', () => {
+      const farAway = {
+        'xl/worksheets/sheet1.xml': `<worksheet><sheetData><row r="1048576"><c r="XFD1048576" t="inlineStr"><is><t>x</t></is></c></row></sheetData></worksheet>`,
+      };
+      const outOfRange = {
+        'xl/worksheets/sheet1.xml':
+          '<worksheet><sheetData><row r="1048577"/></sheetData></worksheet>',
+      };
+
+      expect(() => readXlsxSheet(createWorkbook(farAway))).toThrow(CsvParseError);
+      expect(() => readXlsxSheet(createWorkbook(farAway))).toThrow('Worksheet is too large');
+      expect(() => readXlsxSheet(createWorkbook(outOfRange))).toThrow(
+        'row 1048577 is out of range'
+      );
+    });
+
+    it('should reject legacy binary .xls files', () => {
+      const legacy = Buffer.alloc(512);
+      legacy.writeUInt32BE(0xd0cf11e0, 0);
+
+      expect(() => readXlsxSheet(legacy)).toThrow(CsvParseError);
+      expect(() => readXlsxSheet(legacy)).toThrow('save the file as .xlsx or CSV');
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import { CsvParseError } from '../errors.js';
+import { findChild, findChildren, parseXml, type XmlElement } from './xml.js';
+import { isZip, readZip } from './zip.js';
+
+// Built-in number formats that display dates (ECMA-376 18.8.30, plus CJK variants)
+const BUILTIN_DATE_FORMATS = new Set([
+  14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 45, 46, 47, 50, 51,
+  52, 53, 54, 55, 56, 57, 58,
+]);
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Excel's sheet size limits
+const MAX_ROWS = 1_048_576;
+const MAX_COLUMNS = 16_384;
+// Cells kept per sheet, counting the empty ones that keep positions. Far more
+// than any statement, but a single far-away reference can't allocate millions.
+const MAX_CELLS = 1_000_000;
+
+export interface XlsxSheet {
+  name: string;
+  rows: string[][];
+  // Whether serial dates count from 1904-01-01 (old Mac workbooks)
+  date1904: boolean;
+}
+
+/**
+ * Checks whether the buffer is an Office Open XML spreadsheet (a zip archive)
+ */
+export function isXlsx(buffer: Buffer): boolean {
+  return isZip(buffer);
+}
+
+/**
+ * Checks for the OLE2 compound document signature of legacy binary .xls files
+ */
+export function isLegacyXls(buffer: Buffer): boolean {
+  return buffer.length >= 8 && buffer.readUInt32BE(0) === 0xd0cf11e0;
+}
+
+/**
+ * Converts an Excel serial date (days since 1899-12-30, or 1904-01-01 for
+ * workbooks created with the Mac 1904 date system) into an ISO date
+ */
+export function excelSerialToIsoDate(serial: number, date1904 = false): string {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  return new Date(epoch + Math.floor(serial) * MS_PER_DAY).toISOString().substring(0, 10);
+}
+
+/**
+ * Reads one worksheet of an .xlsx workbook as rows of cell text.
+ * The sheet is picked by name or 1-based position, defaulting to the first one.
+ * Row positions are preserved (empty rows stay as empty arrays) so header and
+ * footer row counts from bank configs keep working. Date cells come out as ISO dates.
+ */
+export function readXlsxSheet(buffer: Buffer, sheet?: string): XlsxSheet {
+  if (isLegacyXls(buffer)) {
+    throw new CsvParseError(
+      'Legacy binary .xls files are not supported. Please save the file as .xlsx or CSV.'
+    );
+  }
+  if (!isXlsx(buffer)) {
+    throw new CsvParseError('File is not a valid .xlsx workbook');
+  }
+
+  const files = readZip(buffer);
+  const workbook = parseXml(readEntry(files, 'xl/workbook.xml'));
+  const date1904 = ['1', 'true'].includes(
+    findChild(workbook, 'workbookPr')?.attributes.date1904 ?? ''
+  );
+
+  const { name, path: sheetPath } = resolveSheetPath(files, workbook, sheet);
+  const sharedStrings = files.has('xl/sharedStrings.xml')
+    ? findChildren(parseXml(readEntry(files, 'xl/sharedStrings.xml')), 'si').map(collectText)
+    : [];
+  const dateStyles = files.has('xl/styles.xml')
+    ? readDateStyles(parseXml(readEntry(files, 'xl/styles.xml')))
+    : new Set<number>();
+
+  const sheetData = findChild(parseXml(readEntry(files, sheetPath)), 'sheetData');
+  const rows: string[][] = [];
+  let size = 0;
+  // Positions come from the file, so they are checked before padding up to them
+  const reserve = (count: number) => {
+    size += Math.max(count, 0);
+    if (size > MAX_CELLS) {
+      throw new CsvParseError(`Worksheet is too large to import (over ${MAX_CELLS} cells)`);
+    }
+  };
+
+  for (const [rowIndex, row] of findChildren(sheetData, 'row').entries()) {
+    const rowNumber = row.attributes.r ? Number(row.attributes.r) : rowIndex + 1;
+    if (!Number.isInteger(rowNumber) || rowNumber < 1 || rowNumber > MAX_ROWS) {
+      throw new CsvParseError(`Invalid .xlsx workbook: row ${row.attributes.r} is out of range`);
+    }
+    const cells: string[] = [];
+
+    for (const [cellIndex, cell] of findChildren(row, 'c').entries()) {
+      const column = cell.attributes.r ? columnIndex(cell.attributes.r) : cellIndex;
+      if (column >= MAX_COLUMNS) {
+        throw new CsvParseError(
+          `Invalid .xlsx workbook: cell ${cell.attributes.r} is out of range`
+        );
+      }
+      reserve(column + 1 - cells.length);
+      while (cells.length < column) cells.push('');
+      cells[column] = readCell(cell, sharedStrings, dateStyles, date1904);
+    }
+
+    reserve(rowNumber - rows.length);
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows[rowNumber - 1] = cells;
+  }
+
+  return { name, rows, date1904 };
+}
+
+function readEntry(files: Map<string, Buffer>, name: string): string {
+  const file = files.get(name);
+  if (!file) {
+    throw new CsvParseError(`Invalid .xlsx workbook: ${name} is missing`);
+  }
+  return file.toString('utf-8');
+}
+
+function resolveSheetPath(
+  files: Map<string, Buffer>,
+  workbook: XmlElement,
+  sheet: string | undefined
+): { name: string; path: string } {
+  const sheets = findChildren(findChild(workbook, 'sheets'), 'sheet');
+  if (sheets.length === 0) {
+    throw new CsvParseError('Workbook contains no sheets');
+  }
+
+  let selected = sheets[0] as XmlElement;
+  if (sheet) {
+    const byName = sheets.find((s) => s.attributes.name?.toLowerCase() === sheet.toLowerCase());
+    const byPosition = /^\d+$/.test(sheet) ? sheets[Number(sheet) - 1] : undefined;
+    const match = byName || byPosition;
+    if (!match) {
+      const names = sheets.map((s) => s.attributes.name).join(', ');
+      throw new CsvParseError(`Sheet "${sheet}" not found. Available sheets: ${names}`);
+    }
+    selected = match;
+  }
+
+  // r:id points into the workbook relationships, which hold the worksheet path
+  const relationships = parseXml(readEntry(files, 'xl/_rels/workbook.xml.rels'));
+  const target = findChildren(relationships, 'Relationship').find(
+    (r) => r.attributes.Id === selected.attributes.id
+  )?.attributes.Target;
+  if (!target) {
+    throw new CsvParseError(
+      `Invalid .xlsx workbook: sheet "${selected.attributes.name}" has no data`
+    );
+  }
+
+  return {
+    name: selected.attributes.name || '',
+    path: target.startsWith('/') ? target.substring(1) : `xl/${target}`,
+  };
+}
+
+/**
+ * Returns the indexes of cell styles (cellXfs) that format numbers as dates
+ */
+function readDateStyles(styles: XmlElement): Set<number> {
+  const customFormats = new Map<number, string>();
+  for (const numFmt of findChildren(findChild(styles, 'numFmts'), 'numFmt')) {
+    customFormats.set(Number(numFmt.attributes.numFmtId), numFmt.attributes.formatCode || '');
+  }
+
+  const dateStyles = new Set<number>();
+  for (const [index, xf] of findChildren(findChild(styles, 'cellXfs'), 'xf').entries()) {
+    const formatId = Number(xf.attributes.numFmtId);
+    const customFormat = customFormats.get(formatId);
+    if (
+      customFormat !== undefined
+        ? isDateFormatCode(customFormat)
+        : BUILTIN_DATE_FORMATS.has(formatId)
+    ) {
+      dateStyles.add(index);
+    }
+  }
+
+  return dateStyles;
+}
+
+function isDateFormatCode(formatCode: string): boolean {
+  // Ignore quoted literals, escaped characters and [colour]/[locale] sections
+  const stripped = formatCode.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, '');
+  return /[dmy]/i.test(stripped);
+}
+
+function readCell(
+  cell: XmlElement,
+  sharedStrings: string[],
+  dateStyles: Set<number>,
+  date1904: boolean
+): string {
+  const value = findChild(cell, 'v')?.text ?? '';
+
+  switch (cell.attributes.t) {
+    case 's':
+      return sharedStrings[Number(value)] ?? '';
+    case 'inlineStr':
+      return collectText(findChild(cell, 'is'));
+    case 'b':
+      return value === '1' ? 'TRUE' : 'FALSE';
+    case 'd':
+      return value.substring(0, 10);
+    case 'str':
+    case 'e':
+      return value;
+  }
+
+  if (value === '') {
+    return '';
+  }
+
+  const number = Number(value);
+  if (dateStyles.has(Number(cell.attributes.s))) {
+    return excelSerialToIsoDate(number, date1904);
+  }
+
+  // Drop binary floating point noise such as 12.300000000000001
+  return String(Number(number.toPrecision(15)));
+}
+
+/**
+ * Concatenates the <t> runs of a (possibly rich text) string, skipping phonetic hints
+ */
+function collectText(element: XmlElement | undefined): string {
+  if (!element) return '';
+  if (element.name === 't') return element.text;
+  return element.children
+    .filter((child) => child.name !== 'rPh')
+    .map(collectText)
+    .join('');
+}
+
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0]?.toUpperCase() || 'A';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
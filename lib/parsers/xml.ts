@@ -0,0 +1,134 @@
+import { CsvParseError } from '../errors.js';
+
+/**
+ * Minimal XML element tree, enough for reading bank statements.
+ * Namespace prefixes are dropped from element and attribute names, and text
+ * is trimmed unless xml:space="preserve" is set.
+ */
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const TOKEN_REGEX =
+  /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+const ATTRIBUTE_REGEX = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Parses an XML document and returns its root element
+ */
+export function parseXml(content: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+
+  for (const match of content.matchAll(TOKEN_REGEX)) {
+    const [, cdata, closeTag, openTag, rawAttributes, selfClosing, text] = match;
+    const lineAt = (offset: number) => lineNumber(content, match.index + offset);
+    const current = stack[stack.length - 1] as XmlElement;
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (text !== undefined) {
+      current.text += decodeEntities(text, lineAt);
+    } else if (openTag) {
+      const element: XmlElement = {
+        name: localName(openTag),
+        attributes: readAttributes(rawAttributes || '', () => lineAt(0)),
+        children: [],
+        text: '',
+      };
+      current.children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+    } else if (closeTag) {
+      if (stack.length === 1 || current.name !== localName(closeTag)) {
+        throw new CsvParseError(`Invalid XML: unexpected closing tag </${closeTag}>`);
+      }
+      if (current.attributes.space !== 'preserve') {
+        current.text = current.text.trim();
+      }
+      stack.pop();
+    }
+  }
+
+  const [documentElement] = root.children;
+  if (stack.length !== 1 || !documentElement) {
+    throw new CsvParseError('Invalid XML: document is incomplete');
+  }
+
+  return documentElement;
+}
+
+/**
+ * Returns the first descendant following the given path of element names
+ */
+export function findChild(
+  element: XmlElement | undefined,
+  ...path: string[]
+): XmlElement | undefined {
+  let current = element;
+  for (const name of path) {
+    current = current?.children.find((c) => c.name === name);
+  }
+  return current;
+}
+
+/**
+ * Returns all direct children with the given name
+ */
+export function findChildren(element: XmlElement | undefined, name: string): XmlElement[] {
+  return element?.children.filter((c) => c.name === name) || [];
+}
+
+/**
+ * Returns the text of the element at the given path, or null when missing or empty
+ */
+export function textAt(element: XmlElement | undefined, ...path: string[]): string | null {
+  return findChild(element, ...path)?.text || null;
+}
+
+function localName(name: string): string {
+  return name.substring(name.indexOf(':') + 1);
+}
+
+function lineNumber(content: string, index: number): number {
+  let line = 1;
+  for (let i = content.indexOf('\n'); i !== -1 && i < index; i = content.indexOf('\n', i + 1)) {
+    line++;
+  }
+  return line;
+}
+
+function readAttributes(raw: string, lineAt: () => number): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted] of raw.matchAll(ATTRIBUTE_REGEX)) {
+    if (name) {
+      attributes[localName(name)] = decodeEntities(doubleQuoted ?? singleQuoted ?? '', lineAt);
+    }
+  }
+  return attributes;
+}
+
+function decodeEntities(value: string, lineAt: (offset: number) => number): string {
+  return value.replace(
+    /&(#[^;&\s]*|lt|gt|quot|apos|amp);/gi,
+    (entity, code: string, offset: number) => {
+      const lower = code.toLowerCase();
+      if (!lower.startsWith('#')) {
+        return { lt: '<', gt: '>', quot: '"', apos: "'", amp: '&' }[lower] as string;
+      }
+      const codePoint = /^#x[0-9a-f]+$/.test(lower)
+        ? parseInt(lower.substring(2), 16)
+        : /^#\d+$/.test(lower)
+          ? parseInt(lower.substring(1), 10)
+          : Number.NaN;
+      if (!Number.isFinite(codePoint) || codePoint > 0x10ffff) {
+        throw new CsvParseError(`Invalid XML: bad character reference ${entity}`, lineAt(offset));
+      }
+      return String.fromCodePoint(codePoint);
+    }
+  );
+}
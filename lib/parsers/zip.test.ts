@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'bun:test';
+import zlib from 'node:zlib';
+import { CsvParseError } from '../errors.js';
+import { isZip, readZip } from './zip.js';
+
+interface Entry {
+  name: string;
+  content: Buffer;
+  // Uncompressed size written to the central directory, if not the real one
+  declaredSize?: number;
+}
+
+/**
+ * Builds a zip archive with deflated entries (CRCs are left empty, the reader ignores them)
+ */
+function createZip(entries: Entry[]): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const { name, content, declaredSize = content.length } of entries) {
+    const nameBuffer = Buffer.from(name, 'utf-8');
+    const data = zlib.deflateRawSync(content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(declaredSize, 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(declaredSize, 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, nameBuffer, data);
+    centralParts.push(central, nameBuffer);
+    offset += local.length + nameBuffer.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+const entry = (name: string, content: string): Entry => ({ name, content: Buffer.from(content) });
+
+describe('zip', () => {
+  it('should read deflated entries', () => {
+    const files = readZip(createZip([entry('a.txt', 'hello'), entry('dir/b.txt', 'world')]));
+
+    expect(isZip(createZip([entry('a.txt', 'hello')]))).toBe(true);
+    expect(files.get('a.txt')?.toString()).toBe('hello');
+    expect(files.get('dir/b.txt')?.toString()).toBe('world');
+  });
+
+  describe('corrupt archives', () => {
+    it('should reject files too short to hold a zip directory', () => {
+      expect(() => readZip(Buffer.from('PK'))).toThrow(CsvParseError);
+    });
+
+    it('should reject a central directory that points past the end', () => {
+      const zip = createZip([entry('a.txt', 'hello')]);
+      // Offset of the central directory in the end record
+      zip.writeUInt32LE(zip.length + 100, zip.length - 6);
+
+      expect(() => readZip(zip)).toThrow('entry points past the end of the file');
+    });
+
+    it('should reject a local header offset past the end', () => {
+      const zip = createZip([entry('a.txt', 'hello')]);
+      const centralOffset = zip.readUInt32LE(zip.length - 6);
+      zip.writeUInt32LE(0xffffff, centralOffset + 42);
+
+      expect(() => readZip(zip)).toThrow('entry points past the end of the file');
+    });
+
+    it('should reject truncated archives', () => {
+      const zip = createZip([entry('a.txt', 'hello'.repeat(100))]);
+      const end = zip.subarray(zip.length - 22);
+      // Keep the end record, but drop the compressed data before it
+      const truncated = Buffer.concat([zip.subarray(0, 40), end]);
+
+      expect(() => readZip(truncated)).toThrow(CsvParseError);
+    });
+
+    it('should reject entries that do not inflate', () => {
+      const zip = createZip([entry('a.txt', 'hello')]);
+      // The deflated data starts after the 30-byte local header and the name
+      zip.fill(0xff, 35, 40);
+
+      expect(() => readZip(zip)).toThrow('could not inflate a.txt');
+    });
+  });
+
+  describe('oversized archives', () => {
+    const big = { name: 'sheet.xml', content: Buffer.alloc(4096, 'a') };
+
+    it('should reject entries declared larger than the limit', () => {
+      expect(() => readZip(createZip([big]), 1024)).toThrow('Zip archive too large');
+    });
+
+    it('should stop inflating entries that lie about their size', () => {
+      expect(() => readZip(createZip([{ ...big, declaredSize: 10 }]), 1024)).toThrow(
+        'sheet.xml unpacks to more than 1024 bytes'
+      );
+    });
+
+    it('should count all entries towards the limit', () => {
+      const half = { name: 'a.xml', content: Buffer.alloc(600, 'a') };
+
+      expect(() => readZip(createZip([half, { ...half, name: 'b.xml' }]), 1024)).toThrow(
+        'Zip archive too large'
+      );
+    });
+  });
+});
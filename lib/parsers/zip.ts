@@ -0,0 +1,117 @@
+import zlib from 'node:zlib';
+import { CsvParseError } from '../errors.js';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/**
+ * Checks for the local file header signature that every zip archive starts with
+ */
+export function isZip(buffer: Buffer): boolean {
+  return buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_FILE_HEADER;
+}
+
+// Workbooks compress well, but no bank export comes near this once unpacked
+export const MAX_UNCOMPRESSED_SIZE = 100 * 1024 * 1024;
+
+/**
+ * Reads all files of a zip archive into memory, keyed by their path.
+ * Supports stored and deflated entries, which is all Office documents use.
+ * Archives that unpack to more than `maxSize` bytes in total are rejected.
+ */
+export function readZip(buffer: Buffer, maxSize = MAX_UNCOMPRESSED_SIZE): Map<string, Buffer> {
+  const endOffset = findEndOfCentralDirectory(buffer);
+  const entryCount = buffer.readUInt16LE(endOffset + 10);
+  let offset = buffer.readUInt32LE(endOffset + 16);
+  let remaining = maxSize;
+
+  const files = new Map<string, Buffer>();
+
+  for (let i = 0; i < entryCount; i++) {
+    checkRange(buffer, offset, 46);
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new CsvParseError('Invalid zip archive: corrupt central directory');
+    }
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    checkRange(buffer, offset + 46, nameLength);
+    const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    if (uncompressedSize > remaining) {
+      throw new CsvParseError(
+        `Zip archive too large: ${name} unpacks to ${uncompressedSize} bytes`
+      );
+    }
+
+    // The local header repeats name and extra field, with possibly different lengths
+    checkRange(buffer, localOffset, 30);
+    const dataStart =
+      localOffset +
+      30 +
+      buffer.readUInt16LE(localOffset + 26) +
+      buffer.readUInt16LE(localOffset + 28);
+    checkRange(buffer, dataStart, compressedSize);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    let content: Buffer;
+    if (method === 0) {
+      content = data;
+    } else if (method === 8) {
+      content = inflate(data, name, remaining);
+    } else {
+      throw new CsvParseError(`Unsupported zip compression method ${method} for ${name}`);
+    }
+    remaining -= content.length;
+    if (remaining < 0) {
+      throw new CsvParseError(`Zip archive too large: ${name} unpacks to ${content.length} bytes`);
+    }
+    files.set(name, content);
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return files;
+}
+
+// Declared sizes may lie, so inflating stops at the limit as well
+function inflate(data: Buffer, name: string, maxLength: number): Buffer {
+  try {
+    return zlib.inflateRawSync(data, { maxOutputLength: Math.max(maxLength, 1) });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new CsvParseError(
+        `Zip archive too large: ${name} unpacks to more than ${maxLength} bytes`
+      );
+    }
+    throw new CsvParseError(`Invalid zip archive: could not inflate ${name}`);
+  }
+}
+
+function checkRange(buffer: Buffer, start: number, length: number): void {
+  if (start + length > buffer.length) {
+    throw new CsvParseError('Invalid zip archive: entry points past the end of the file');
+  }
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  if (buffer.length < 22) {
+    throw new CsvParseError('Invalid zip archive: end of central directory not found');
+  }
+
+  // The record is 22 bytes plus an optional comment of up to 64KB
+  const minOffset = Math.max(0, buffer.length - 22 - 0xffff);
+  for (let offset = buffer.length - 22; offset >= minOffset; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+
+  throw new CsvParseError('Invalid zip archive: end of central directory not found');
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'bun:test';
+import { prepareTransactions } from './prepare.js';
+import type { ParsedStatement } from './types.js';
+
+const statement = (importIdStrategy?: string): ParsedStatement => ({
+  format: 'Test bank',
+  importIdStrategy,
+  transactions: [
+    {
+      date: '2025-03-12',
+      payee_name: 'POS 4411 MIGROS',
+      category_name: null,
+      memo: null,
+      amount: -4.5,
+    },
+  ],
+});
+
+describe('prepare', () => {
+  describe('prepareTransactions', () => {
+    const options = { rules: [], accountSettings: {}, context: {} };
+
+    it('should pick the strategy of the import, then the account, then the bank format', () => {
+      const accountSettings = { Checking: { importIdStrategy: 'hash' as const } };
+      const context = { accountId: 'acc-1', accountName: 'Checking' };
+
+      expect(
+        prepareTransactions(statement('hash'), { ...options, importIdStrategy: 'occurrence' })
+          .importIdStrategy
+      ).toBe('occurrence');
+      expect(
+        prepareTransactions(statement('occurrence'), { ...options, accountSettings, context })
+          .importIdStrategy
+      ).toBe('hash');
+      expect(prepareTransactions(statement('occurrence'), options).importIdStrategy).toBe(
+        'occurrence'
+      );
+      expect(prepareTransactions(statement('bogus'), options).importIdStrategy).toBe('reference');
+    });
+
+    it('should let the defaults of the import win over the account settings', () => {
+      const prepared = prepareTransactions(statement(), {
+        ...options,
+        accountSettings: { 'acc-1': { cleared: 'cleared', approved: true, flag: 'blue' } },
+        context: { accountId: 'acc-1' },
+        defaults: { approved: false },
+      });
+
+      expect(prepared.defaults).toEqual({ cleared: 'cleared', approved: false, flag: 'blue' });
+    });
+
+    it('should assign import IDs before rules rename the payee', () => {
+      const prepared = prepareTransactions(statement('occurrence'), {
+        ...options,
+        rules: [{ match: { payee: 'migros' }, actions: { payee: 'Migros' } }],
+      });
+
+      expect(prepared.transactions[0]).toMatchObject({
+        payee_name: 'Migros',
+        import_id: 'YNAB:-4500:2025-03-12:1',
+      });
+      expect(prepared.changed).toBe(1);
+    });
+  });
+});
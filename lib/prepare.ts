@@ -0,0 +1,77 @@
+import { findAccountSettings } from './config.js';
+import {
+  assignImportIds,
+  DEFAULT_IMPORT_ID_STRATEGY,
+  IMPORT_ID_STRATEGIES,
+  type ImportIdStrategy,
+} from './parsers/import-id.js';
+import { applyRules, type RuleContext, type RulesResult, usesAccount } from './rules.js';
+import type { AccountSettings, Rule } from './schemas.js';
+import type { ParsedStatement } from './types.js';
+import { listAccounts, type UploadOptions } from './uploader.js';
+
+// Cleared state, approval and flag of the created transactions
+export type TransactionDefaults = Pick<UploadOptions, 'cleared' | 'approved' | 'flag'>;
+
+export interface PrepareOptions {
+  rules: Rule[];
+  accountSettings: Record<string, AccountSettings>;
+  // The account being imported into, if known yet
+  context: RuleContext;
+  // Chosen for this import; wins over the account's and the bank format's strategy
+  importIdStrategy?: ImportIdStrategy;
+  // Chosen for this import; each one given wins over the account's setting
+  defaults?: TransactionDefaults;
+}
+
+export interface PreparedImport extends RulesResult {
+  importIdStrategy: ImportIdStrategy;
+  defaults: TransactionDefaults;
+}
+
+/**
+ * Turns a parsed statement into the transactions to upload: assigns import_ids
+ * with the strategy for this account and bank format, then applies the rules.
+ * Also settles the cleared state, approval and flag to upload them with.
+ */
+export function prepareTransactions(
+  statement: ParsedStatement,
+  { rules, accountSettings, context, importIdStrategy, defaults = {} }: PrepareOptions
+): PreparedImport {
+  const settings = findAccountSettings(accountSettings, context.accountId, context.accountName);
+  const strategy =
+    importIdStrategy ||
+    settings.importIdStrategy ||
+    IMPORT_ID_STRATEGIES.find((known) => known === statement.importIdStrategy) ||
+    DEFAULT_IMPORT_ID_STRATEGY;
+
+  return {
+    ...applyRules(assignImportIds(statement.transactions, strategy), rules, context),
+    importIdStrategy: strategy,
+    defaults: {
+      cleared: defaults.cleared ?? settings.cleared,
+      approved: defaults.approved ?? settings.approved,
+      flag: defaults.flag ?? settings.flag,
+    },
+  };
+}
+
+/**
+ * Builds the account context for an import. Rules and account settings may
+ * name the account instead of giving its ID, so the name is looked up when
+ * one of them could need it.
+ */
+export async function resolveAccountContext(
+  accessToken: string,
+  budgetId: string | null | undefined,
+  accountId: string | null | undefined,
+  { rules, accountSettings }: Pick<PrepareOptions, 'rules' | 'accountSettings'>
+): Promise<RuleContext> {
+  const needsName =
+    usesAccount(rules) || Object.keys(accountSettings).some((key) => key !== accountId);
+  if (!accountId || !budgetId || !needsName) {
+    return { accountId };
+  }
+  const accounts = await listAccounts(accessToken, budgetId);
+  return { accountId, accountName: accounts.find((account) => account.id === accountId)?.name };
+}
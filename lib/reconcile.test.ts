@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'bun:test';
+import { compareBalance } from './reconcile.js';
+
+const closing = { amount: 1250.5, date: '2025-03-31', currency: 'EUR' };
+
+describe('reconcile', () => {
+  describe('compareBalance', () => {
+    it('should leave out transactions dated after the statement', () => {
+      const check = compareBalance(closing, { balance: 1200500, type: 'checking' }, [
+        { date: '2025-03-31', amount: -20000 },
+        { date: '2025-04-02', amount: -50000 },
+      ]);
+
+      expect(check).toEqual({
+        date: '2025-03-31',
+        currency: 'EUR',
+        statement: 1250.5,
+        ynab: 1250.5,
+        difference: 0,
+        matches: true,
+      });
+    });
+
+    it('should report the difference', () => {
+      const check = compareBalance(closing, { balance: 1240000, type: 'checking' }, []);
+
+      expect(check.matches).toBe(false);
+      expect(check.difference).toBe(10.5);
+    });
+
+    it('should accept a positive amount owed on credit cards', () => {
+      const owed = { ...closing, amount: 300 };
+
+      expect(compareBalance(owed, { balance: -300000, type: 'creditCard' }, []).matches).toBe(true);
+      expect(compareBalance(owed, { balance: -310000, type: 'creditCard' }, []).difference).toBe(
+        10
+      );
+      expect(compareBalance(owed, { balance: -300000, type: 'checking' }, []).matches).toBe(false);
+    });
+  });
+});
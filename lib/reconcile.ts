@@ -0,0 +1,79 @@
+import type * as ynab from 'ynab';
+import type { StatementBalance } from './types.js';
+import { getAccount, listTransactions } from './uploader.js';
+
+// Banks report what is owed on these as a positive balance, YNAB as a negative one
+const LIABILITY_TYPES: string[] = [
+  'creditCard',
+  'lineOfCredit',
+  'otherLiability',
+  'mortgage',
+  'autoLoan',
+  'studentLoan',
+  'personalLoan',
+  'medicalDebt',
+  'otherDebt',
+];
+
+export interface BalanceCheck {
+  date: string;
+  currency: string | null;
+  // Balance the statement closes with
+  statement: number;
+  // YNAB working balance on the statement date, i.e. without later transactions
+  ynab: number;
+  // statement - ynab, after accounting for the sign of liability accounts
+  difference: number;
+  matches: boolean;
+}
+
+/**
+ * Compares a statement's closing balance with the YNAB account. Transactions
+ * dated after the statement are taken out of the account's working balance, so
+ * entries made since the export don't count as a discrepancy.
+ */
+export function compareBalance(
+  closing: StatementBalance,
+  account: Pick<ynab.Account, 'balance' | 'type'>,
+  transactions: Pick<ynab.TransactionDetail, 'date' | 'amount'>[]
+): BalanceCheck {
+  const later = transactions
+    .filter((tx) => tx.date > closing.date)
+    .reduce((sum, tx) => sum + tx.amount, 0);
+  const ynabMilliunits = account.balance - later;
+
+  let statementMilliunits = Math.round(closing.amount * 1000);
+  if (
+    LIABILITY_TYPES.includes(account.type) &&
+    Math.sign(statementMilliunits) === -Math.sign(ynabMilliunits)
+  ) {
+    statementMilliunits = -statementMilliunits;
+  }
+  const difference = statementMilliunits - ynabMilliunits;
+
+  return {
+    date: closing.date,
+    currency: closing.currency,
+    statement: closing.amount,
+    ynab: ynabMilliunits / 1000,
+    difference: difference / 1000,
+    matches: difference === 0,
+  };
+}
+
+/**
+ * Fetches the account and its transactions after the statement date and
+ * compares the balances
+ */
+export async function checkBalance(
+  accessToken: string,
+  budgetId: string,
+  accountId: string,
+  closing: StatementBalance
+): Promise<BalanceCheck> {
+  const [account, transactions] = await Promise.all([
+    getAccount(accessToken, budgetId, accountId),
+    listTransactions(accessToken, budgetId, accountId, closing.date),
+  ]);
+  return compareBalance(closing, account, transactions);
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'bun:test';
+import { applyRules, describeRule, matchesRule } from './rules.js';
+import { type Rule, ruleSchema } from './schemas.js';
+import type { Transaction } from './types.js';
+
+const tx = (payee: string, amount: number, memo: string | null = null): Transaction => ({
+  date: '2025-03-12',
+  payee_name: payee,
+  category_name: null,
+  memo,
+  amount,
+});
+
+describe('rules', () => {
+  describe('applyRules', () => {
+    it('should rename payees and set category, memo and flag', () => {
+      const rules: Rule[] = [
+        {
+          match: { payee: 'migros' },
+          actions: { payee: 'Migros', category: 'Everyday: Groceries', flag: 'green' },
+        },
+        { match: { memo: 'reimbursable' }, actions: { memo: '' } },
+      ];
+
+      const result = applyRules(
+        [tx('POS 4411 MIGROS ZH-1234 12.03', -42.5, 'Reimbursable'), tx('SBB CFF', -8)],
+        rules
+      );
+
+      expect(result.transactions[0]).toMatchObject({
+        payee_name: 'Migros',
+        category_name: 'Everyday: Groceries',
+        flag_color: 'green',
+        memo: null,
+      });
+      expect(result.transactions[1]).toMatchObject({ payee_name: 'SBB CFF', category_name: null });
+      expect(result.changed).toBe(1);
+    });
+
+    it('should apply rules in order, each seeing the earlier changes', () => {
+      const rules: Rule[] = [
+        {
+          match: { payee: '^POS \\d+ (COOP|MIGROS)', useRegex: true },
+          actions: { payee: 'Groceries store' },
+        },
+        { match: { payee: 'groceries store' }, actions: { category: 'Groceries' } },
+        { match: { payee: 'store' }, actions: { category: 'Shopping' } },
+      ];
+
+      const [renamed] = applyRules([tx('POS 12 COOP-1234', -10)], rules).transactions;
+
+      expect(renamed).toMatchObject({ payee_name: 'Groceries store', category_name: 'Shopping' });
+    });
+
+    it('should skip transactions and match amount ranges', () => {
+      const rules: Rule[] = [
+        { match: { payee: 'transfer', minAmount: -100, maxAmount: 0 }, actions: { skip: true } },
+      ];
+
+      const result = applyRules(
+        [tx('Transfer to savings', -50), tx('Transfer to savings', -500), tx('Transfer in', 50)],
+        rules
+      );
+
+      expect(result.skipped).toBe(1);
+      expect(result.transactions.map((t) => t.amount)).toEqual([-500, 50]);
+    });
+  });
+
+  describe('matchesRule', () => {
+    const rule: Rule = { match: { account: 'Checking' }, actions: { flag: 'red' } };
+
+    it('should match accounts by ID or name', () => {
+      expect(matchesRule(tx('A', 1), rule, { accountId: 'abc', accountName: 'checking' })).toBe(
+        true
+      );
+      expect(
+        matchesRule(tx('A', 1), { ...rule, match: { account: 'abc' } }, { accountId: 'abc' })
+      ).toBe(true);
+    });
+
+    it('should not match account rules while the account is unknown', () => {
+      expect(matchesRule(tx('A', 1), rule)).toBe(false);
+    });
+  });
+
+  describe('ruleSchema', () => {
+    it('should require a condition and an action', () => {
+      expect(ruleSchema.safeParse({ match: {}, actions: { skip: true } }).success).toBe(false);
+      expect(ruleSchema.safeParse({ match: { payee: 'x' }, actions: {} }).success).toBe(false);
+      expect(
+        ruleSchema.safeParse({ match: { payee: '(', useRegex: true }, actions: { skip: true } })
+          .success
+      ).toBe(false);
+    });
+  });
+
+  describe('describeRule', () => {
+    it('should summarize conditions and actions', () => {
+      expect(
+        describeRule({
+          name: 'Shops',
+          match: { payee: 'migros', maxAmount: 0 },
+          actions: { payee: 'Migros', flag: 'green' },
+        })
+      ).toBe('Shops: if payee contains "migros" and amount <= 0 then payee → "Migros", flag green');
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import type { Rule } from './schemas.js';
+import type { Transaction } from './types.js';
+
+// The account being imported into, for rules that only apply to one account
+export interface RuleContext {
+  accountId?: string | null;
+  accountName?: string | null;
+}
+
+export interface RulesResult {
+  // Transactions to import, with the rule actions applied
+  transactions: Transaction[];
+  // Imported transactions that at least one rule matched
+  changed: number;
+  skipped: number;
+}
+
+/**
+ * Applies rules to parsed transactions before they are uploaded. Rules run in
+ * order and each sees the result of the ones before it, so a rule can match on
+ * a payee an earlier rule renamed. A matching skip rule drops the transaction.
+ */
+export function applyRules(
+  transactions: Transaction[],
+  rules: Rule[],
+  context: RuleContext = {}
+): RulesResult {
+  const result: Transaction[] = [];
+  let changed = 0;
+  let skipped = 0;
+
+  for (const transaction of transactions) {
+    let tx = transaction;
+    let skip = false;
+
+    for (const rule of rules) {
+      if (!matchesRule(tx, rule, context)) continue;
+
+      const { payee, memo, category, flag } = rule.actions;
+      tx = {
+        ...tx,
+        payee_name: payee ?? tx.payee_name,
+        memo: memo === undefined ? tx.memo : memo || null,
+        category_name: category ?? tx.category_name,
+        flag_color: flag ?? tx.flag_color,
+      };
+      if (rule.actions.skip) {
+        skip = true;
+        break;
+      }
+    }
+
+    if (skip) {
+      skipped++;
+    } else {
+      result.push(tx);
+      if (tx !== transaction) changed++;
+    }
+  }
+
+  return { transactions: result, changed, skipped };
+}
+
+/**
+ * Checks whether every condition of a rule holds for a transaction. Rules tied
+ * to an account never match while the account is unknown.
+ */
+export function matchesRule(tx: Transaction, rule: Rule, context: RuleContext = {}): boolean {
+  const { payee, memo, useRegex, minAmount, maxAmount, account } = rule.match;
+
+  const matchesText = (pattern: string, value: string | null | undefined) =>
+    useRegex
+      ? new RegExp(pattern, 'i').test(value || '')
+      : (value || '').toLowerCase().includes(pattern.toLowerCase());
+
+  if (payee !== undefined && !matchesText(payee, tx.payee_name)) return false;
+  if (memo !== undefined && !matchesText(memo, tx.memo)) return false;
+  if (minAmount !== undefined && tx.amount < minAmount) return false;
+  if (maxAmount !== undefined && tx.amount > maxAmount) return false;
+
+  if (account !== undefined) {
+    const wanted = account.toLowerCase();
+    return (
+      context.accountId?.toLowerCase() === wanted || context.accountName?.toLowerCase() === wanted
+    );
+  }
+  return true;
+}
+
+/**
+ * Whether any rule depends on the account
+ */
+export function usesAccount(rules: Rule[]): boolean {
+  return rules.some((rule) => rule.match.account !== undefined);
+}
+
+/**
+ * One-line summary of a rule, e.g. for "ynab rule list"
+ */
+export function describeRule(rule: Rule): string {
+  const { payee, memo, useRegex, minAmount, maxAmount, account } = rule.match;
+  const text = (value: string) => (useRegex ? `/${value}/` : `"${value}"`);
+
+  const conditions = [
+    payee !== undefined && `payee ${useRegex ? 'matches' : 'contains'} ${text(payee)}`,
+    memo !== undefined && `memo ${useRegex ? 'matches' : 'contains'} ${text(memo)}`,
+    minAmount !== undefined && `amount >= ${minAmount}`,
+    maxAmount !== undefined && `amount <= ${maxAmount}`,
+    account !== undefined && `account is "${account}"`,
+  ].filter(Boolean);
+
+  const { actions } = rule;
+  const effects = actions.skip
+    ? ['skip']
+    : [
+        actions.payee !== undefined && `payee → "${actions.payee}"`,
+        actions.memo !== undefined && `memo → "${actions.memo}"`,
+        actions.category !== undefined && `category → "${actions.category}"`,
+        actions.flag !== undefined && `flag ${actions.flag}`,
+      ].filter(Boolean);
+
+  const label = rule.name ? `${rule.name}: ` : '';
+  return `${label}if ${conditions.join(' and ')} then ${effects.join(', ')}`;
+}
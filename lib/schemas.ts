@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { TEXT_ENCODINGS } from './parsers/encoding.js';
+import { IMPORT_ID_STRATEGIES } from './parsers/import-id.js';
+import type { FlagColor } from './types.js';
 
 // Environment variables schema
 export const envSchema = z.object({
@@ -7,6 +10,8 @@ export const envSchema = z.object({
   YNAB_ACCESS_TOKEN: z.string().optional(),
   YNAB_BUDGET_ID: z.string().optional(),
   YNAB_ACCOUNT_ID: z.string().optional(),
+  // Directory to import dropped statement files from, like "ynab watch"
+  WATCH_DIR: z.string().optional(),
   ALLOWED_ORIGINS: z
     .string()
     .optional()
@@ -22,6 +27,16 @@ export const transactionSchema = z.object({
   category_name: z.string().nullable().optional(),
   memo: z.string().nullable(),
   amount: z.number(),
+  import_id: z.string().max(36).nullable().optional(),
+  subtransactions: z
+    .array(
+      z.object({
+        amount: z.number(),
+        category_name: z.string().nullable().optional(),
+        memo: z.string().nullable(),
+      })
+    )
+    .optional(),
 });
 
 // Config schema
@@ -31,6 +46,171 @@ export const configSchema = z.object({
   accountId: z.string().nullable(),
 });
 
+// User-defined bank format, in the same shape as the bundled bank2ynab configs
+export const customFormatSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    pattern: z.string().default(''),
+    useRegex: z.boolean().optional(),
+    delimiter: z.string().length(1).optional(),
+    headerRows: z.number().int().min(0).optional(),
+    footerRows: z.number().int().min(0).optional(),
+    columns: z
+      .array(z.string().trim().min(1))
+      .refine((columns) => columns.includes('Date'), 'columns must include Date')
+      .refine(
+        (columns) => columns.some((column) => ['Amount', 'Inflow', 'Outflow'].includes(column)),
+        'columns must include Amount, Inflow or Outflow'
+      ),
+    dateFormat: z.string().optional(),
+    // [indicator column, inflow value, outflow value]
+    cdFlags: z.array(z.string()).length(3).optional(),
+    // For banks that list money going out as positive amounts
+    invertAmounts: z.boolean().optional(),
+    headerSignature: z.array(z.string()).max(100).optional(),
+    encoding: z.enum(TEXT_ENCODINGS).optional(),
+    importIdStrategy: z.enum(IMPORT_ID_STRATEGIES).optional(),
+  })
+  .refine(({ useRegex, pattern }) => !useRegex || isRegex(pattern), {
+    message: 'must be a valid regular expression with useRegex',
+    path: ['pattern'],
+  });
+
+export type CustomFormat = z.infer<typeof customFormatSchema>;
+
+export const customFormatsSchema = z.record(z.string(), customFormatSchema);
+
+export const FLAG_COLORS = [
+  'red',
+  'orange',
+  'yellow',
+  'green',
+  'blue',
+  'purple',
+] as const satisfies readonly FlagColor[];
+
+// Cleared states imported transactions can start in
+export const CLEARED_STATES = ['cleared', 'uncleared'] as const;
+
+export type ClearedState = (typeof CLEARED_STATES)[number];
+
+// Settings for imports into one account, keyed by account ID or name in accounts.json
+export const accountSettingsSchema = z.object({
+  importIdStrategy: z.enum(IMPORT_ID_STRATEGIES).optional(),
+  cleared: z.enum(CLEARED_STATES).optional(),
+  approved: z.boolean().optional(),
+  // Rules that set a flag win over this one
+  flag: z.enum(FLAG_COLORS).optional(),
+  // Glob patterns of statement filenames that "ynab import" sends to this account
+  files: z.array(z.string().trim().min(1).max(200)).optional(),
+});
+
+export type AccountSettings = z.infer<typeof accountSettingsSchema>;
+
+export const accountSettingsFileSchema = z.record(z.string(), accountSettingsSchema);
+
+// History of "ynab watch": SHA-256 of an imported file's content -> the file
+export const importedFilesSchema = z.record(
+  z.string(),
+  z.object({ file: z.string(), importedAt: z.string() })
+);
+
+export type ImportedFiles = z.infer<typeof importedFilesSchema>;
+
+// Payee rename / categorisation rule; every condition given must match
+export const ruleSchema = z.object({
+  name: z.string().trim().max(100).optional(),
+  match: z
+    .object({
+      // Case-insensitive substrings, or regular expressions with useRegex
+      payee: z.string().min(1).max(500).optional(),
+      memo: z.string().min(1).max(500).optional(),
+      useRegex: z.boolean().optional(),
+      // Inclusive bounds on the signed amount, outflows being negative
+      minAmount: z.number().optional(),
+      maxAmount: z.number().optional(),
+      // Account ID or name
+      account: z.string().trim().min(1).max(200).optional(),
+    })
+    .refine(
+      ({ useRegex: _useRegex, ...conditions }) =>
+        Object.values(conditions).some((value) => value !== undefined),
+      'match needs at least one condition'
+    )
+    .refine(
+      ({ useRegex, payee, memo }) =>
+        !useRegex || [payee, memo].every((pattern) => pattern === undefined || isRegex(pattern)),
+      'match has an invalid regular expression'
+    ),
+  actions: z
+    .object({
+      payee: z.string().trim().min(1).max(200).optional(),
+      memo: z.string().max(500).optional(),
+      category: z.string().trim().min(1).max(200).optional(),
+      flag: z.enum(FLAG_COLORS).optional(),
+      skip: z.boolean().optional(),
+    })
+    .refine(
+      (actions) => Object.values(actions).some((value) => value !== undefined && value !== false),
+      'actions needs at least one action'
+    ),
+});
+
+export type Rule = z.infer<typeof ruleSchema>;
+
+export const rulesSchema = z.array(ruleSchema);
+
+function isRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Column mapping passed as JSON in a query parameter, e.g. by the mapping wizard
+const formatParamSchema = z
+  .string()
+  .max(4000)
+  .transform((value, ctx) => {
+    try {
+      return JSON.parse(value) as unknown;
+    } catch {
+      ctx.addIssue({ code: 'custom', message: 'format must be JSON' });
+      return z.NEVER;
+    }
+  })
+  .pipe(customFormatSchema);
+
+// Category name -> YNAB category ID chosen by the user; an empty ID leaves the name uncategorized
+const categoryMapParamSchema = z
+  .string()
+  .max(8000)
+  .transform((value, ctx) => {
+    try {
+      return JSON.parse(value) as unknown;
+    } catch {
+      ctx.addIssue({ code: 'custom', message: 'categoryMap must be JSON' });
+      return z.NEVER;
+    }
+  })
+  .pipe(z.record(z.string().max(200), z.string().max(100)));
+
+// Comma-separated 1-based row numbers of the preview, e.g. "3,7"
+export const rowListSchema = z
+  .string()
+  .max(8000)
+  .regex(/^\d+(,\d+)*$/, 'Expected comma-separated row numbers')
+  .transform((value) => value.split(',').map(Number));
+
+// A calendar date such as "2025-01-31", as local midnight
+export const dateParamSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date like 2025-01-31')
+  .transform((value) => new Date(`${value}T00:00:00`))
+  .refine((date) => !Number.isNaN(date.getTime()), 'Invalid date');
+
 // Upload query parameters schema
 export const uploadQuerySchema = z.object({
   dryRun: z
@@ -39,6 +219,36 @@ export const uploadQuerySchema = z.object({
     .transform((val) => val === 'true'),
   budgetId: z.string().optional(),
   accountId: z.string().optional(),
+  qifDateOrder: z.enum(['mdy', 'dmy']).optional(),
+  sheet: z.string().max(100).optional(),
+  bank: z.string().max(200).optional(),
+  format: formatParamSchema.optional(),
+  encoding: z.enum(TEXT_ENCODINGS).optional(),
+  // End of the statement period, for bank formats whose dates have no year
+  statementDate: dateParamSchema.optional(),
+  categoryMap: categoryMapParamSchema.optional(),
+  importIdStrategy: z.enum(IMPORT_ID_STRATEGIES).optional(),
+  exclude: rowListSchema.optional(),
+  // Mark the imported transactions cleared if the statement's closing balance matches
+  markCleared: z
+    .string()
+    .optional()
+    .transform((val) => val === 'true'),
+  // Override the account's defaults for the imported transactions
+  cleared: z.enum(CLEARED_STATES).optional(),
+  approved: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((val) => (val === undefined ? undefined : val === 'true')),
+  flag: z.enum(FLAG_COLORS).optional(),
+});
+
+// Mapping wizard query parameters schema
+export const mappingQuerySchema = z.object({
+  delimiter: z.string().length(1).optional(),
+  sheet: z.string().max(100).optional(),
+  format: formatParamSchema.optional(),
+  encoding: z.enum(TEXT_ENCODINGS).optional(),
 });
 
 // Helper to validate and throw on error
@@ -6,6 +6,57 @@ export interface Transaction {
   category_name?: string | null;
   memo: string | null;
   amount: number;
+  // Stable ID provided by the statement itself (e.g. OFX FITID)
+  import_id?: string | null;
+  // Split lines; their amounts add up to the transaction amount
+  subtransactions?: SubTransaction[];
+  // Set by rules
+  flag_color?: FlagColor | null;
+}
+
+export type FlagColor = 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple';
+
+export interface SubTransaction {
+  amount: number;
+  category_name?: string | null;
+  memo: string | null;
+}
+
+export interface StatementBalance {
+  amount: number;
+  date: string;
+  currency: string | null;
+}
+
+// A bank format candidate for a CSV/Excel file
+export interface FormatMatch {
+  name: string;
+  // 0-1
+  confidence: number;
+}
+
+// A statement row that couldn't be read as a transaction
+export interface SkippedRow {
+  // 1-based row in the file, counting the bank's header rows
+  row: number;
+  reason: string;
+}
+
+// A parsed file: its transactions plus what the statement says about itself
+export interface ParsedStatement {
+  // Detected format, e.g. 'YNAB', 'OFX' or a bank2ynab bank name
+  format: string;
+  transactions: Transaction[];
+  openingBalance?: StatementBalance | null;
+  closingBalance?: StatementBalance | null;
+  // How well the file matched the chosen bank format, for bank2ynab formats
+  confidence?: number;
+  // Best matching bank formats, including the chosen one
+  candidates?: FormatMatch[];
+  // import_id strategy set by the bank format
+  importIdStrategy?: string;
+  // Rows left out because they couldn't be read, for bank formats
+  skippedRows?: SkippedRow[];
 }
 
 export interface Budget {
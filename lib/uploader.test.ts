@@ -1,8 +1,16 @@
 import { beforeEach, describe, expect, it, vi } from 'bun:test';
 import type { Config } from './config.js';
-import { YnabApiError } from './errors.js';
+import { ValidationError, YnabApiError } from './errors.js';
 import type { Transaction } from './types.js';
-import { listAccounts, listBudgets, uploadTransactions } from './uploader.js';
+import {
+  listAccounts,
+  listBudgets,
+  listTransactions,
+  parseRetryAfter,
+  resolveAccountId,
+  resolveBudgetId,
+  uploadTransactions,
+} from './uploader.js';
 
 // Mock the ynab module
 vi.mock('ynab', () => {
@@ -13,10 +21,17 @@ vi.mock('ynab', () => {
     accounts: {
       getAccounts: vi.fn(),
     },
+    categories: {
+      getCategories: vi.fn(),
+    },
     transactions: {
       createTransactions: vi.fn(),
+      getTransactionsByAccount: vi.fn(),
+      withPostMiddleware: vi.fn(),
     },
   };
+  // The uploader reads response headers through a middleware copy of the API
+  mockAPI.transactions.withPostMiddleware.mockImplementation(() => mockAPI.transactions);
 
   return {
     API: vi.fn(() => mockAPI),
@@ -26,7 +41,11 @@ vi.mock('ynab', () => {
 interface MockYnabAPI {
   plans: { getPlans: ReturnType<typeof vi.fn> };
   accounts: { getAccounts: ReturnType<typeof vi.fn> };
-  transactions: { createTransactions: ReturnType<typeof vi.fn> };
+  categories: { getCategories: ReturnType<typeof vi.fn> };
+  transactions: {
+    createTransactions: ReturnType<typeof vi.fn>;
+    getTransactionsByAccount: ReturnType<typeof vi.fn>;
+  };
 }
 
 describe('uploader', () => {
@@ -147,6 +166,7 @@ describe('uploader', () => {
       expect(result.success).toBe(true);
       expect(result.imported).toBe(0);
       expect(result.duplicates).toBe(1);
+      expect(result.duplicateImportIds).toEqual(['dup1']);
     });
 
     it('should throw YnabApiError on API error', async () => {
@@ -166,6 +186,108 @@ describe('uploader', () => {
       );
     });
 
+    it('should populate the status code of API errors', async () => {
+      const transactions: Transaction[] = [
+        { date: '2025-01-15', payee_name: 'Store', amount: -10.0, memo: null, category_name: null },
+      ];
+
+      mockYnabAPI.transactions.createTransactions.mockRejectedValue({
+        error: { id: '400', name: 'bad_request', detail: 'Bad request' },
+      });
+
+      const error = await uploadTransactions(transactions, mockConfig).catch((e) => e);
+
+      expect(error).toBeInstanceOf(YnabApiError);
+      expect(error.statusCode).toBe(400);
+      // Client errors are not retried
+      expect(mockYnabAPI.transactions.createTransactions).toHaveBeenCalledTimes(1);
+    });
+
+    it('should upload in chunks', async () => {
+      const transactions: Transaction[] = Array.from({ length: 5 }, (_, i) => ({
+        date: '2025-01-15',
+        payee_name: `Store ${i}`,
+        amount: -1 - i,
+        memo: null,
+      }));
+
+      mockYnabAPI.transactions.createTransactions.mockImplementation(
+        async (_planId: string, body: { transactions: unknown[] }) => ({
+          data: {
+            transaction_ids: body.transactions.map((_, i) => `tx${i}`),
+            duplicate_import_ids: [],
+            transactions: [],
+          },
+        })
+      );
+
+      const result = await uploadTransactions(transactions, mockConfig, null, null, {
+        chunkSize: 2,
+      });
+
+      expect(mockYnabAPI.transactions.createTransactions).toHaveBeenCalledTimes(3);
+      expect(result.imported).toBe(5);
+      expect(result.chunks.map((chunk) => [chunk.start, chunk.count])).toEqual([
+        [0, 2],
+        [2, 2],
+        [4, 1],
+      ]);
+    });
+
+    it('should retry rate limited and failed requests', async () => {
+      const transactions: Transaction[] = [
+        { date: '2025-01-15', payee_name: 'Store', amount: -10.0, memo: null, category_name: null },
+      ];
+
+      mockYnabAPI.transactions.createTransactions
+        .mockRejectedValueOnce({
+          error: { id: '429', name: 'too_many_requests', detail: 'Slow down' },
+        })
+        .mockRejectedValueOnce({
+          error: { id: '503', name: 'service_unavailable', detail: 'Down' },
+        })
+        .mockResolvedValueOnce({
+          data: { transaction_ids: ['tx1'], duplicate_import_ids: [], transactions: [] },
+        });
+
+      const result = await uploadTransactions(transactions, mockConfig, null, null, {
+        retryDelayMs: 0,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.imported).toBe(1);
+      expect(mockYnabAPI.transactions.createTransactions).toHaveBeenCalledTimes(3);
+    });
+
+    it('should report a partial upload when a later chunk fails', async () => {
+      const transactions: Transaction[] = Array.from({ length: 3 }, (_, i) => ({
+        date: '2025-01-15',
+        payee_name: `Store ${i}`,
+        amount: -1 - i,
+        memo: null,
+      }));
+
+      mockYnabAPI.transactions.createTransactions
+        .mockResolvedValueOnce({
+          data: { transaction_ids: ['tx1'], duplicate_import_ids: ['dup'], transactions: [] },
+        })
+        .mockRejectedValue({
+          error: { id: '429', name: 'too_many_requests', detail: 'Slow down' },
+        });
+
+      const result = await uploadTransactions(transactions, mockConfig, null, null, {
+        chunkSize: 2,
+        maxRetries: 1,
+        retryDelayMs: 0,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.imported).toBe(1);
+      expect(result.duplicates).toBe(1);
+      expect(result.chunks[1]).toMatchObject({ start: 2, imported: 0, statusCode: 429 });
+      expect(result.error).toContain('Uploaded 2 of 3 transactions');
+    });
+
     it('should auto-select budget when only one exists', async () => {
       const configWithoutBudget: Config = {
         accessToken: 'test-token',
@@ -374,6 +496,159 @@ describe('uploader', () => {
       expect(importId1).not.toBe(importId2);
     });
 
+    it('should apply the cleared, approved and flag defaults', async () => {
+      const transaction = (flag_color: Transaction['flag_color']): Transaction => ({
+        date: '2025-01-15',
+        payee_name: 'Store',
+        amount: -50.0,
+        memo: null,
+        category_name: null,
+        flag_color,
+      });
+
+      mockYnabAPI.transactions.createTransactions.mockResolvedValue({
+        data: { transaction_ids: ['tx1', 'tx2'], duplicate_import_ids: [], transactions: [] },
+      });
+
+      await uploadTransactions([transaction(null), transaction('red')], mockConfig, null, null, {
+        cleared: 'cleared',
+        approved: true,
+        flag: 'blue',
+      });
+
+      const sent = mockYnabAPI.transactions.createTransactions.mock.calls[0]![1].transactions;
+      expect(sent[0]).toMatchObject({ cleared: 'cleared', approved: true, flag_color: 'blue' });
+      // A flag set by a rule wins
+      expect(sent[1]).toMatchObject({ flag_color: 'red' });
+    });
+
+    it('should use the import_id provided by the statement', async () => {
+      const transaction: Transaction = {
+        date: '2025-01-15',
+        payee_name: 'Store',
+        amount: -50.0,
+        memo: null,
+        category_name: null,
+        import_id: 'OFX:202501150001',
+      };
+
+      mockYnabAPI.transactions.createTransactions.mockResolvedValue({
+        data: {
+          transaction_ids: ['tx1'],
+          duplicate_import_ids: [],
+          transactions: [],
+        },
+      });
+
+      await uploadTransactions([transaction], mockConfig);
+
+      const calls = mockYnabAPI.transactions.createTransactions.mock.calls;
+      expect(calls[0]![1].transactions[0]!.import_id).toBe('OFX:202501150001');
+    });
+
+    it('should set category IDs from category names and the user mapping', async () => {
+      const transactions: Transaction[] = [
+        {
+          date: '2025-02-01',
+          payee_name: 'A',
+          amount: -5,
+          memo: null,
+          category_name: 'Bills: Rent',
+        },
+        { date: '2025-02-02', payee_name: 'B', amount: -6, memo: null, category_name: 'Food' },
+        { date: '2025-02-03', payee_name: 'C', amount: -7, memo: null, category_name: 'Misc' },
+      ];
+
+      mockYnabAPI.categories.getCategories.mockResolvedValue({
+        data: {
+          category_groups: [
+            {
+              id: 'g1',
+              name: 'Bills',
+              hidden: false,
+              deleted: false,
+              categories: [{ id: 'cat-rent', name: 'Rent', hidden: false, deleted: false }],
+            },
+            {
+              id: 'g2',
+              name: 'Everyday',
+              hidden: false,
+              deleted: false,
+              categories: [
+                { id: 'cat-groceries', name: 'Groceries', hidden: false, deleted: false },
+              ],
+            },
+          ],
+        },
+      });
+      mockYnabAPI.transactions.createTransactions.mockResolvedValue({
+        data: {
+          transaction_ids: ['tx1', 'tx2', 'tx3'],
+          duplicate_import_ids: [],
+          transactions: [],
+        },
+      });
+
+      const result = await uploadTransactions(transactions, mockConfig, null, null, {
+        categoryMap: { Food: 'cat-groceries' },
+      });
+
+      expect(mockYnabAPI.categories.getCategories).toHaveBeenCalledWith('budget-123');
+      const sent = mockYnabAPI.transactions.createTransactions.mock.calls[0]![1].transactions;
+      expect(sent.map((tx: { category_id?: string }) => tx.category_id)).toEqual([
+        'cat-rent',
+        'cat-groceries',
+        undefined,
+      ]);
+      expect(result.unmatchedCategories).toEqual(['Misc']);
+    });
+
+    it('should send split lines as subtransactions', async () => {
+      const transaction: Transaction = {
+        date: '2025-02-01',
+        payee_name: 'Supermarket',
+        amount: -100.0,
+        memo: null,
+        category_name: null,
+        subtransactions: [
+          { amount: -80.0, category_name: 'Groceries', memo: 'Weekly shop' },
+          { amount: -20.0, category_name: 'Household', memo: null },
+        ],
+      };
+
+      mockYnabAPI.categories.getCategories.mockResolvedValue({
+        data: {
+          category_groups: [
+            {
+              id: 'g1',
+              name: 'Everyday',
+              hidden: false,
+              deleted: false,
+              categories: [
+                { id: 'cat-groceries', name: 'Groceries', hidden: false, deleted: false },
+              ],
+            },
+          ],
+        },
+      });
+
+      mockYnabAPI.transactions.createTransactions.mockResolvedValue({
+        data: {
+          transaction_ids: ['tx1'],
+          duplicate_import_ids: [],
+          transactions: [],
+        },
+      });
+
+      await uploadTransactions([transaction], mockConfig);
+
+      const calls = mockYnabAPI.transactions.createTransactions.mock.calls;
+      expect(calls[0]![1].transactions[0]!.subtransactions).toEqual([
+        { amount: -80000, category_id: 'cat-groceries', memo: 'Weekly shop' },
+        { amount: -20000, category_id: undefined, memo: undefined },
+      ]);
+    });
+
     it('should generate same import_id for identical transactions across batches', async () => {
       const transaction: Transaction = {
         date: '2025-01-15',
@@ -416,6 +691,17 @@ describe('uploader', () => {
     });
   });
 
+  describe('parseRetryAfter', () => {
+    it('should read seconds and HTTP dates', () => {
+      const now = Date.parse('2025-01-15T10:00:00Z');
+
+      expect(parseRetryAfter('30', now)).toBe(30000);
+      expect(parseRetryAfter('Wed, 15 Jan 2025 10:01:00 GMT', now)).toBe(60000);
+      expect(parseRetryAfter(null, now)).toBeUndefined();
+      expect(parseRetryAfter('soon', now)).toBeUndefined();
+    });
+  });
+
   describe('listBudgets', () => {
     it('should return list of budgets', async () => {
       mockYnabAPI.plans.getPlans.mockResolvedValue({
@@ -466,4 +752,62 @@ describe('uploader', () => {
       expect(accounts).toHaveLength(0);
     });
   });
+
+  describe('listTransactions', () => {
+    it('should return the account transactions since a date without deleted ones', async () => {
+      mockYnabAPI.transactions.getTransactionsByAccount.mockResolvedValue({
+        data: {
+          transactions: [
+            { id: 'tx1', date: '2025-01-15', amount: -4500, deleted: false },
+            { id: 'tx2', date: '2025-01-16', amount: -4500, deleted: true },
+          ],
+        },
+      });
+
+      const transactions = await listTransactions(
+        'test-token',
+        'budget-123',
+        'account-456',
+        '2025-01-12'
+      );
+
+      expect(transactions.map((tx) => tx.id)).toEqual(['tx1']);
+      expect(mockYnabAPI.transactions.getTransactionsByAccount).toHaveBeenCalledWith(
+        'budget-123',
+        'account-456',
+        '2025-01-12'
+      );
+    });
+  });
+
+  describe('resolveBudgetId and resolveAccountId', () => {
+    const budgetId = '1b2c3d4e-0000-4000-8000-00000000000a';
+
+    it('should take IDs as they are', async () => {
+      expect(await resolveBudgetId('test-token', budgetId)).toBe(budgetId);
+      expect(mockYnabAPI.plans.getPlans).not.toHaveBeenCalled();
+    });
+
+    it('should find budgets and accounts by name ignoring case', async () => {
+      mockYnabAPI.plans.getPlans.mockResolvedValue({
+        data: { plans: [{ id: budgetId, name: 'Household' }] },
+      });
+      mockYnabAPI.accounts.getAccounts.mockResolvedValue({
+        data: { accounts: [{ id: 'account1', name: 'Checking', closed: false }] },
+      });
+
+      expect(await resolveBudgetId('test-token', 'household')).toBe(budgetId);
+      expect(await resolveAccountId('test-token', budgetId, ' Checking ')).toBe('account1');
+    });
+
+    it('should list the accounts when the name matches none', async () => {
+      mockYnabAPI.accounts.getAccounts.mockResolvedValue({
+        data: { accounts: [{ id: 'account1', name: 'Checking', closed: false }] },
+      });
+
+      const promise = resolveAccountId('test-token', budgetId, 'Savings');
+      await expect(promise).rejects.toThrow(ValidationError);
+      await expect(promise).rejects.toThrow('Checking (account1)');
+    });
+  });
 });
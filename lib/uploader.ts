@@ -1,26 +1,80 @@
-import crypto from 'node:crypto';
 import * as ynab from 'ynab';
+import {
+  type CategoryOption,
+  collectCategoryNames,
+  flattenCategories,
+  resolveCategories,
+} from './categories.js';
 import type { Config } from './config.js';
-import { YnabApiError } from './errors.js';
+import { getErrorMessage, ValidationError, YnabApiError } from './errors.js';
 import { getLogger } from './logger.js';
-import type { Transaction } from './types.js';
+import { generateHashImportId } from './parsers/import-id.js';
+import type { ClearedState } from './schemas.js';
+import type { FlagColor, Transaction } from './types.js';
+
+export interface UploadOptions {
+  // Category name -> category ID for names the user assigned by hand
+  categoryMap?: Record<string, string>;
+  // Transactions sent per request
+  chunkSize?: number;
+  maxRetries?: number;
+  // Delay before the first retry, doubled for every further one
+  retryDelayMs?: number;
+  // State of the created transactions; uncleared and unapproved by default
+  cleared?: ClearedState;
+  approved?: boolean;
+  // Flag for transactions no rule flagged
+  flag?: FlagColor;
+}
+
+// Outcome of one createTransactions request
+export interface ChunkResult {
+  // Index of the chunk's first transaction
+  start: number;
+  count: number;
+  imported: number;
+  duplicates: number;
+  error?: string;
+  statusCode?: number;
+}
 
 interface UploadResult {
+  // False when a chunk failed after others were imported; see error and chunks
   success: boolean;
   imported: number;
   duplicates: number;
+  // Import IDs YNAB already had, so it skipped those transactions
+  duplicateImportIds: string[];
   transactions: ynab.TransactionDetail[];
+  // Category names that matched no budget category; those transactions stay uncategorized
+  unmatchedCategories: string[];
+  chunks: ChunkResult[];
+  error?: string;
 }
 
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Large history imports exceed the API's request size limit in one request
+const DEFAULT_CHUNK_SIZE = 200;
+const DEFAULT_MAX_RETRIES = 4;
+const DEFAULT_RETRY_DELAY_MS = 2000;
+// Longer waits, e.g. until the hourly rate limit resets, are left to the user
+const MAX_RETRY_DELAY_MS = 60_000;
+
 /**
- * Uploads transactions to YNAB via the API
+ * Uploads transactions to YNAB via the API, in chunks that are retried on rate
+ * limiting and server errors. Category names are matched to the budget's
+ * categories. Throws if nothing could be imported; a later chunk failing gives
+ * a result with success false, so the imported part is still reported.
  */
 export async function uploadTransactions(
   transactions: Transaction[],
   config: Config,
   accountIdOverride: string | null = null,
-  budgetIdOverride: string | null = null
+  budgetIdOverride: string | null = null,
+  options: UploadOptions = {}
 ): Promise<UploadResult> {
+  const { categoryMap = {}, chunkSize = DEFAULT_CHUNK_SIZE } = options;
   const ynabAPI = new ynab.API(config.accessToken);
 
   // Get plan ID (use override if provided, otherwise from config)
@@ -29,10 +83,25 @@ export async function uploadTransactions(
   // Get account ID (use override if provided, otherwise from config)
   const accountId = accountIdOverride || (await getAccountId(ynabAPI, planId, config));
 
+  // Only fetch the budget's categories when the file has any
+  const categoryNames = collectCategoryNames(transactions);
+  const { ids: categoryIds, unmatched } =
+    categoryNames.length > 0
+      ? resolveCategories(
+          categoryNames,
+          await listCategories(config.accessToken, planId),
+          categoryMap
+        )
+      : { ids: {}, unmatched: [] };
+  if (unmatched.length > 0) {
+    getLogger().info(`Leaving uncategorized, no matching category: ${unmatched.join(', ')}`);
+  }
+  const categoryId = (name: string | null | undefined) => (name ? categoryIds[name] : undefined);
+
   // Convert transactions to YNAB format
   const ynabTransactions = transactions.map((tx) => {
-    // Generate unique import_id to prevent duplicates
-    const importId = generateImportId(tx);
+    // Normally set by assignImportIds; otherwise generate one to prevent duplicates
+    const importId = tx.import_id || generateHashImportId(tx);
 
     return {
       account_id: accountId,
@@ -40,70 +109,153 @@ export async function uploadTransactions(
       amount: convertToMilliunits(tx.amount),
       payee_name: tx.payee_name || undefined,
       memo: tx.memo || undefined,
-      cleared: 'uncleared' as const,
-      approved: false,
+      category_id: categoryId(tx.category_name),
+      cleared: options.cleared || 'uncleared',
+      approved: options.approved ?? false,
+      flag_color: tx.flag_color || options.flag || undefined,
       import_id: importId,
+      subtransactions: tx.subtransactions?.map((sub) => ({
+        amount: convertToMilliunits(sub.amount),
+        category_id: categoryId(sub.category_name),
+        memo: sub.memo || undefined,
+      })),
     };
   });
 
-  // Upload transactions
-  try {
-    const response = await ynabAPI.transactions.createTransactions(planId, {
-      transactions: ynabTransactions,
-    });
+  const chunks: ChunkResult[] = [];
+  const created: ynab.TransactionDetail[] = [];
+  const duplicateImportIds: string[] = [];
+  let failure: YnabApiError | null = null;
 
-    return {
-      success: true,
-      imported: response.data.transaction_ids.length,
-      duplicates: response.data.duplicate_import_ids?.length || 0,
-      transactions: response.data.transactions || [],
-    };
-  } catch (error) {
-    if (
-      typeof error === 'object' &&
-      error !== null &&
-      'error' in error &&
-      typeof (error as { error?: { detail?: string } }).error === 'object' &&
-      (error as { error?: { detail?: string } }).error !== null
-    ) {
-      const apiError = error as { error: { detail?: string } };
-      throw new YnabApiError(apiError.error.detail || 'Unknown YNAB API error');
+  for (let start = 0; start < ynabTransactions.length; start += chunkSize) {
+    const chunk = ynabTransactions.slice(start, start + chunkSize);
+    try {
+      const data = await createWithRetry(ynabAPI, planId, chunk, options);
+      chunks.push({
+        start,
+        count: chunk.length,
+        imported: data.transaction_ids.length,
+        duplicates: data.duplicate_import_ids?.length || 0,
+      });
+      created.push(...(data.transactions || []));
+      duplicateImportIds.push(...(data.duplicate_import_ids || []));
+    } catch (error) {
+      failure = toYnabApiError(error);
+      chunks.push({
+        start,
+        count: chunk.length,
+        imported: 0,
+        duplicates: 0,
+        error: failure.message,
+        statusCode: failure.statusCode,
+      });
+      // Later chunks would most likely fail the same way
+      break;
     }
-    throw error;
   }
+
+  if (failure && chunks.length === 1) {
+    throw failure;
+  }
+
+  const imported = chunks.reduce((sum, chunk) => sum + chunk.imported, 0);
+  const duplicates = chunks.reduce((sum, chunk) => sum + chunk.duplicates, 0);
+  return {
+    success: failure === null,
+    imported,
+    duplicates,
+    duplicateImportIds,
+    transactions: created,
+    unmatchedCategories: unmatched,
+    chunks,
+    error: failure
+      ? `Uploaded ${imported + duplicates} of ${ynabTransactions.length} transactions, then YNAB failed: ${failure.message}. ` +
+        'Import the file again later to upload the rest; transactions already imported are skipped as duplicates.'
+      : undefined,
+  };
 }
 
 /**
- * Converts dollar amount to milliunits (YNAB's format)
+ * Sends one chunk, retrying rate limited (429) and failed (5xx) requests with
+ * exponential backoff, or after the Retry-After time YNAB asks for. Retrying is
+ * safe because every transaction has an import_id, so YNAB reports anything
+ * the failed request did create as a duplicate.
  */
-function convertToMilliunits(amount: number): number {
-  return Math.round(amount * 1000);
+async function createWithRetry(
+  ynabAPI: ynab.API,
+  planId: string,
+  transactions: ynab.NewTransaction[],
+  { maxRetries = DEFAULT_MAX_RETRIES, retryDelayMs = DEFAULT_RETRY_DELAY_MS }: UploadOptions
+): Promise<ynab.SaveTransactionsResponseData> {
+  // The SDK throws the error body only, so read Retry-After off the response
+  let retryAfter: string | null = null;
+  const api = ynabAPI.transactions.withPostMiddleware(async ({ response }) => {
+    retryAfter = response.headers.get('Retry-After');
+  });
+
+  for (let attempt = 0; ; attempt++) {
+    retryAfter = null;
+    try {
+      const response = await api.createTransactions(planId, { transactions });
+      return response.data;
+    } catch (error) {
+      const apiError = toYnabApiError(error);
+      const status = apiError.statusCode || 0;
+      if ((status !== 429 && status < 500) || attempt >= maxRetries) {
+        throw apiError;
+      }
+
+      const delay = parseRetryAfter(retryAfter) ?? retryDelayMs * 2 ** attempt;
+      if (delay > MAX_RETRY_DELAY_MS) {
+        throw apiError;
+      }
+      getLogger().info(
+        `YNAB returned ${status}, retrying in ${Math.ceil(delay / 1000)}s (${attempt + 1}/${maxRetries})`
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
 }
 
 /**
- * Generates a unique import_id for duplicate detection
- * Format: YNAB:[milliunit_amount]:[iso_date]:[occurrence]
- * Max length: 36 characters
- *
- * The occurrence is derived from a hash of payee+memo to ensure the same
- * transaction always generates the same import_id, regardless of upload order
- * or what other transactions are in the batch. This enables proper duplicate
- * detection across multiple file uploads.
+ * Converts a Retry-After header (seconds or an HTTP date) to milliseconds
  */
-function generateImportId(transaction: Transaction): string {
-  const milliunits = convertToMilliunits(transaction.amount);
-
-  // Create deterministic occurrence from hash of payee+memo
-  // This ensures same transaction = same import_id across different uploads
-  const uniqueData = `${transaction.payee_name || ''}:${transaction.memo || ''}`;
-  const hash = crypto.createHash('sha256').update(uniqueData).digest('hex');
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
 
-  // Take last 4 chars of hash as occurrence (stays within 36 char limit)
-  // Convert to number for cleaner format
-  const occurrence = parseInt(hash.substring(hash.length - 4), 16);
+/**
+ * Wraps errors from the SDK, which throws the API's error body
+ * ({ error: { id, name, detail } }, where id is the HTTP status)
+ */
+function toYnabApiError(error: unknown): YnabApiError {
+  if (error instanceof YnabApiError) {
+    return error;
+  }
+  if (
+    typeof error === 'object' &&
+    error !== null &&
+    'error' in error &&
+    typeof (error as { error?: unknown }).error === 'object' &&
+    (error as { error?: unknown }).error !== null
+  ) {
+    const { id, detail } = (error as { error: { id?: string; detail?: string } }).error;
+    const statusCode = Number(id) || undefined;
+    return new YnabApiError(detail || 'Unknown YNAB API error', statusCode, detail);
+  }
+  return new YnabApiError(getErrorMessage(error));
+}
 
-  // YNAB format: YNAB:[milliunit_amount]:[iso_date]:[occurrence]
-  return `YNAB:${milliunits}:${transaction.date}:${occurrence}`;
+/**
+ * Converts dollar amount to milliunits (YNAB's format)
+ */
+function convertToMilliunits(amount: number): number {
+  return Math.round(amount * 1000);
 }
 
 /**
@@ -187,3 +339,108 @@ export async function listAccounts(accessToken: string, budgetId: string): Promi
   const response = await ynabAPI.accounts.getAccounts(budgetId);
   return response.data.accounts.filter((a) => !a.closed);
 }
+
+/**
+ * Turns a budget ID or name (ignoring case) into the budget's ID. IDs are
+ * taken as they are, without a request.
+ */
+export async function resolveBudgetId(accessToken: string, value: string): Promise<string> {
+  if (UUID_REGEX.test(value)) {
+    return value;
+  }
+  return findIdByName(await listBudgets(accessToken), value, 'budget');
+}
+
+/**
+ * Turns an account ID or name (ignoring case) into the ID of an open account
+ */
+export async function resolveAccountId(
+  accessToken: string,
+  budgetId: string,
+  value: string
+): Promise<string> {
+  if (UUID_REGEX.test(value)) {
+    return value;
+  }
+  return findIdByName(await listAccounts(accessToken, budgetId), value, 'account');
+}
+
+function findIdByName(
+  items: { id: string; name: string }[],
+  name: string,
+  kind: 'budget' | 'account'
+): string {
+  const wanted = name.trim().toLowerCase();
+  const matches = items.filter((item) => item.name.toLowerCase() === wanted);
+  if (matches.length === 1 && matches[0]) {
+    return matches[0].id;
+  }
+
+  const available = items.map((item) => `  - ${item.name} (${item.id})`).join('\n');
+  throw new ValidationError(
+    matches.length > 1
+      ? `Several ${kind}s are named "${name}", use the ID instead:\n${available}`
+      : `No ${kind} named "${name}". Available ${kind}s:\n${available}`,
+    `${kind}Id`
+  );
+}
+
+/**
+ * Lists the categories transactions can be assigned to in a budget
+ */
+export async function listCategories(
+  accessToken: string,
+  budgetId: string
+): Promise<CategoryOption[]> {
+  const ynabAPI = new ynab.API(accessToken);
+  const response = await ynabAPI.categories.getCategories(budgetId);
+  return flattenCategories(response.data.category_groups);
+}
+
+/**
+ * Lists an account's transactions on or after a date, without deleted ones
+ */
+export async function listTransactions(
+  accessToken: string,
+  budgetId: string,
+  accountId: string,
+  sinceDate: string
+): Promise<ynab.TransactionDetail[]> {
+  const ynabAPI = new ynab.API(accessToken);
+  const response = await ynabAPI.transactions.getTransactionsByAccount(
+    budgetId,
+    accountId,
+    sinceDate
+  );
+  return response.data.transactions.filter((tx) => !tx.deleted);
+}
+
+/**
+ * Gets an account with its current balances
+ */
+export async function getAccount(
+  accessToken: string,
+  budgetId: string,
+  accountId: string
+): Promise<ynab.Account> {
+  const ynabAPI = new ynab.API(accessToken);
+  const response = await ynabAPI.accounts.getAccountById(budgetId, accountId);
+  return response.data.account;
+}
+
+/**
+ * Marks transactions as cleared, e.g. once they agree with the bank's balance
+ */
+export async function markTransactionsCleared(
+  accessToken: string,
+  budgetId: string,
+  transactionIds: string[]
+): Promise<void> {
+  if (transactionIds.length === 0) {
+    return;
+  }
+  const ynabAPI = new ynab.API(accessToken);
+  await ynabAPI.transactions.updateTransactions(budgetId, {
+    transactions: transactionIds.map((id) => ({ id, cleared: 'cleared' as const })),
+  });
+}
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { Config } from './config.js';
+import { setLogger } from './logger.js';
+import {
+  createWatcher,
+  FAILED_DIR,
+  importWatchedFile,
+  PROCESSED_DIR,
+  STATE_FILE,
+} from './watcher.js';
+
+const CSV = `Date,Payee,Category,Memo,Outflow,Inflow
+2025-01-15,Store A,Groceries,Weekly shopping,50.00,0`;
+
+// Without an account the watcher fails before calling YNAB
+const config: Config = { accessToken: 'test-token', budgetId: 'budget-123', accountId: null };
+
+describe('watcher', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'quickynab-watch-'));
+    setLogger({ info: () => {}, error: () => {} });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true });
+    setLogger({ info: console.log, error: console.error });
+  });
+
+  it('should wait for a file to stop changing, then move it to failed/ with a log', async () => {
+    const watcher = createWatcher(dir, { config });
+    fs.writeFileSync(path.join(dir, 'statement.csv'), CSV);
+
+    expect(await watcher.scan()).toEqual([]);
+    const [result] = await watcher.scan();
+
+    expect(result).toMatchObject({ file: 'statement.csv', status: 'failed', parsed: 1 });
+    expect(result?.error).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      message: expect.stringContaining('No account for statement.csv'),
+    });
+    expect(fs.existsSync(path.join(dir, FAILED_DIR, 'statement.csv'))).toBe(true);
+    expect(fs.readFileSync(path.join(dir, FAILED_DIR, 'statement.csv.log'), 'utf-8')).toContain(
+      'status: failed'
+    );
+  });
+
+  it('should skip files whose content was imported before', async () => {
+    const hash = crypto.createHash('sha256').update(CSV).digest('hex');
+    fs.writeFileSync(
+      path.join(dir, STATE_FILE),
+      JSON.stringify({ [hash]: { file: 'march.csv', importedAt: '2025-04-01T08:00:00.000Z' } })
+    );
+    fs.mkdirSync(path.join(dir, PROCESSED_DIR));
+    fs.writeFileSync(path.join(dir, PROCESSED_DIR, 'march.csv'), CSV);
+    fs.writeFileSync(path.join(dir, 'march.csv'), CSV);
+
+    const watcher = createWatcher(dir, { config });
+    await watcher.scan();
+    const [result] = await watcher.scan();
+
+    expect(result).toMatchObject({ status: 'skipped', imported: 0 });
+    expect(result?.movedTo).toBe(path.join(dir, PROCESSED_DIR, 'march-1.csv'));
+    expect(fs.existsSync(path.join(dir, 'march.csv'))).toBe(false);
+  });
+
+  it('should move files to failed/ with a log when the import history is corrupt', async () => {
+    fs.writeFileSync(path.join(dir, STATE_FILE), '{ not json');
+    fs.writeFileSync(path.join(dir, 'statement.csv'), CSV);
+
+    const result = await importWatchedFile(dir, 'statement.csv', config);
+
+    expect(result).toMatchObject({ status: 'failed', error: { code: 'CONFIG_ERROR' } });
+    expect(result.movedTo).toBe(path.join(dir, FAILED_DIR, 'statement.csv'));
+    expect(fs.readFileSync(`${result.movedTo}.log`, 'utf-8')).toContain(
+      `error: Could not read ${path.join(dir, STATE_FILE)}`
+    );
+  });
+
+  it('should report files that disappear before they are imported', async () => {
+    const result = await importWatchedFile(dir, 'statement.csv', config);
+
+    expect(result).toMatchObject({ status: 'failed', movedTo: '' });
+    expect(result.error?.message).toContain('ENOENT');
+    expect(fs.existsSync(path.join(dir, FAILED_DIR))).toBe(false);
+  });
+
+  it('should ignore hidden files and unsupported extensions', async () => {
+    fs.writeFileSync(path.join(dir, '.statement.csv'), CSV);
+    fs.writeFileSync(path.join(dir, 'statement.csv.crdownload'), CSV);
+    fs.writeFileSync(path.join(dir, 'statement.xls'), CSV);
+
+    const watcher = createWatcher(dir, { config });
+    await watcher.scan();
+
+    expect(await watcher.scan()).toEqual([]);
+    expect(fs.readdirSync(dir).sort()).toEqual([
+      '.statement.csv',
+      'statement.csv.crdownload',
+      'statement.xls',
+    ]);
+  });
+});
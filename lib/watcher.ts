@@ -0,0 +1,295 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { type Config, findAccountForFile, loadAccountSettings, loadRules } from './config.js';
+import { parseStatement, SUPPORTED_EXTENSIONS } from './converter.js';
+import {
+  ConfigError,
+  type ErrorResult,
+  getErrorMessage,
+  toErrorResult,
+  ValidationError,
+  YnabApiError,
+} from './errors.js';
+import { getLogger } from './logger.js';
+import { prepareTransactions, resolveAccountContext } from './prepare.js';
+import { type AccountSettings, type ImportedFiles, importedFilesSchema } from './schemas.js';
+import type { SkippedRow } from './types.js';
+import { listBudgets, resolveAccountId, uploadTransactions } from './uploader.js';
+
+export const PROCESSED_DIR = 'processed';
+export const FAILED_DIR = 'failed';
+// Hashes of the files imported so far, so a restart never imports one again
+export const STATE_FILE = '.quickynab-imported.json';
+export const DEFAULT_WATCH_INTERVAL_MS = 5000;
+
+export interface WatchOptions {
+  config: Config;
+  // Time between scans of the directory. A file is imported once its size and
+  // modification time stayed the same for a whole interval.
+  intervalMs?: number;
+  // Called with every file's result as it is moved away
+  onResult?: (result: WatchResult) => void;
+}
+
+export interface WatchResult {
+  file: string;
+  // skipped: the same content was imported before
+  status: 'imported' | 'failed' | 'skipped';
+  // Where the file and its .log sidecar were moved to
+  movedTo: string;
+  format?: string;
+  accountId?: string;
+  parsed: number;
+  imported: number;
+  duplicates: number;
+  // Rows of the file that couldn't be read as transactions
+  skippedRows: SkippedRow[];
+  // Why a file was skipped
+  note?: string;
+  error?: ErrorResult;
+}
+
+export interface Watcher {
+  // Looks at the directory once, importing every file that finished writing
+  scan(): Promise<WatchResult[]>;
+  start(): void;
+  stop(): void;
+}
+
+/**
+ * Watches a directory for statement files. Each file is parsed with its detected
+ * format, uploaded to the account its name is mapped to in accounts.json (or the
+ * configured account) and moved to processed/ or failed/ next to a .log file.
+ *
+ * The directory is polled rather than watched through file system events, which
+ * synced folders and Docker volumes don't reliably deliver.
+ */
+export function createWatcher(dir: string, options: WatchOptions): Watcher {
+  if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+    throw new ValidationError(`Not a directory: ${dir}`, 'dir');
+  }
+  const intervalMs = options.intervalMs ?? DEFAULT_WATCH_INTERVAL_MS;
+  // Size and modification time of every file at the previous scan
+  const sizes = new Map<string, string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running = false;
+
+  const scan = async (): Promise<WatchResult[]> => {
+    const names = fs
+      .readdirSync(dir, { withFileTypes: true })
+      .filter(
+        (entry) =>
+          entry.isFile() &&
+          !entry.name.startsWith('.') &&
+          SUPPORTED_EXTENSIONS.some((ext) => ext === path.extname(entry.name).toLowerCase())
+      )
+      .map((entry) => entry.name)
+      .sort();
+
+    const ready: string[] = [];
+    for (const name of names) {
+      const stats = fs.statSync(path.join(dir, name));
+      const signature = `${stats.size}:${stats.mtimeMs}`;
+      if (stats.size > 0 && sizes.get(name) === signature) {
+        ready.push(name);
+      }
+      sizes.set(name, signature);
+    }
+    for (const name of sizes.keys()) {
+      if (!names.includes(name)) sizes.delete(name);
+    }
+
+    const results: WatchResult[] = [];
+    for (const name of ready) {
+      const result = await importWatchedFile(dir, name, options.config);
+      options.onResult?.(result);
+      results.push(result);
+      sizes.delete(name);
+    }
+    return results;
+  };
+
+  // Scans never overlap, however long an upload takes
+  const tick = async () => {
+    try {
+      await scan();
+    } catch (error) {
+      getLogger().error(`Could not scan ${dir}: ${getErrorMessage(error)}`);
+    }
+    if (running) {
+      timer = setTimeout(tick, intervalMs);
+    }
+  };
+
+  return {
+    scan,
+    start() {
+      if (running) return;
+      running = true;
+      void tick();
+    },
+    stop() {
+      running = false;
+      clearTimeout(timer);
+    },
+  };
+}
+
+/**
+ * Imports one file of the watched directory and moves it out of the way. Files
+ * whose content was imported before are moved to processed/ without uploading.
+ */
+export async function importWatchedFile(
+  dir: string,
+  name: string,
+  config: Config
+): Promise<WatchResult> {
+  const filePath = path.join(dir, name);
+  const result: WatchResult = {
+    file: name,
+    status: 'imported',
+    movedTo: '',
+    parsed: 0,
+    imported: 0,
+    duplicates: 0,
+    skippedRows: [],
+  };
+
+  try {
+    const hash = crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+    const imported = loadImportedFiles(dir);
+    const previous = imported[hash];
+    if (previous) {
+      result.status = 'skipped';
+      result.note = `Same content as ${previous.file}, imported ${previous.importedAt}`;
+      result.movedTo = moveWithLog(filePath, path.join(dir, PROCESSED_DIR), result);
+      getLogger().info(`Skipped ${name}: ${result.note}`);
+      return result;
+    }
+
+    const statement = parseStatement(filePath);
+    result.format = statement.format;
+    result.parsed = statement.transactions.length;
+    result.skippedRows = statement.skippedRows ?? [];
+
+    const accountSettings = loadAccountSettings();
+    const { budgetId, accountId } = await resolveTarget(config, name, accountSettings);
+    result.accountId = accountId;
+
+    const importSettings = { rules: loadRules(), accountSettings };
+    const { transactions, defaults } = prepareTransactions(statement, {
+      ...importSettings,
+      context: await resolveAccountContext(config.accessToken, budgetId, accountId, importSettings),
+    });
+
+    if (transactions.length > 0) {
+      const upload = await uploadTransactions(transactions, config, accountId, budgetId, defaults);
+      result.imported = upload.imported;
+      result.duplicates = upload.duplicates;
+      if (!upload.success) {
+        throw new YnabApiError(upload.error || 'Upload failed');
+      }
+    }
+
+    imported[hash] = { file: name, importedAt: new Date().toISOString() };
+    saveImportedFiles(dir, imported);
+    result.movedTo = moveWithLog(filePath, path.join(dir, PROCESSED_DIR), result);
+    const unreadable =
+      result.skippedRows.length > 0
+        ? `, ${result.skippedRows.length} unreadable rows left out`
+        : '';
+    getLogger().info(
+      `Imported ${name}: ${result.imported} transactions, ${result.duplicates} duplicates${unreadable}`
+    );
+  } catch (error) {
+    result.status = 'failed';
+    result.error = toErrorResult(error);
+    // Nothing to move if the file was deleted or renamed in the meantime
+    if (fs.existsSync(filePath)) {
+      result.movedTo = moveWithLog(filePath, path.join(dir, FAILED_DIR), result);
+    }
+    getLogger().error(`Could not import ${name}: ${result.error.message}`);
+  }
+  return result;
+}
+
+// The account a file's name is mapped to, else the configured one
+async function resolveTarget(
+  config: Config,
+  name: string,
+  accountSettings: Record<string, AccountSettings>
+): Promise<{ budgetId: string; accountId: string }> {
+  const account = findAccountForFile(accountSettings, name) ?? config.accountId;
+  if (!account) {
+    throw new ValidationError(
+      `No account for ${name}: add a pattern matching it to "files" in accounts.json or configure YNAB_ACCOUNT_ID`,
+      'accountId'
+    );
+  }
+
+  let budgetId = config.budgetId;
+  if (!budgetId) {
+    const budgets = await listBudgets(config.accessToken);
+    if (budgets.length !== 1 || !budgets[0]) {
+      throw new ValidationError('Multiple budgets found. Configure YNAB_BUDGET_ID', 'budgetId');
+    }
+    budgetId = budgets[0].id;
+  }
+
+  return { budgetId, accountId: await resolveAccountId(config.accessToken, budgetId, account) };
+}
+
+function loadImportedFiles(dir: string): ImportedFiles {
+  const file = path.join(dir, STATE_FILE);
+  if (!fs.existsSync(file)) {
+    return {};
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new ConfigError(`Could not read ${file}: ${(error as Error).message}`);
+  }
+
+  const result = importedFilesSchema.safeParse(data);
+  if (!result.success) {
+    throw new ConfigError(`Invalid import history in ${file}: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+function saveImportedFiles(dir: string, imported: ImportedFiles): void {
+  const file = path.join(dir, STATE_FILE);
+  fs.writeFileSync(file, `${JSON.stringify(imported, null, 2)}\n`, { mode: 0o600 });
+}
+
+// Moves a file into a folder without overwriting an earlier file of the same
+// name, and writes what happened to a .log file beside it
+function moveWithLog(filePath: string, folder: string, result: WatchResult): string {
+  fs.mkdirSync(folder, { recursive: true });
+  const ext = path.extname(filePath);
+  const base = path.basename(filePath, ext);
+  let target = path.join(folder, `${base}${ext}`);
+  for (let n = 1; fs.existsSync(target); n++) {
+    target = path.join(folder, `${base}-${n}${ext}`);
+  }
+  fs.renameSync(filePath, target);
+
+  const lines = [
+    `time: ${new Date().toISOString()}`,
+    `file: ${result.file}`,
+    `status: ${result.status}`,
+    result.format && `format: ${result.format}`,
+    result.accountId && `account: ${result.accountId}`,
+    `parsed: ${result.parsed}`,
+    `imported: ${result.imported}`,
+    `duplicates: ${result.duplicates}`,
+    ...result.skippedRows.map(({ row, reason }) => `unreadable row ${row}: ${reason}`),
+    result.note && `note: ${result.note}`,
+    result.error && `error: ${result.error.message} (${result.error.code})`,
+  ].filter(Boolean);
+  fs.writeFileSync(`${target}.log`, `${lines.join('\n')}\n`);
+  return target;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'bun:test';
+import { parseIniConfig } from './fetch-bank-configs.js';
+
+const CONFIG = `[DEFAULT]
+Source Filename Pattern = unknown!
+Inflow or Outflow Indicator =
+
+[NL ING]
+Source Filename Pattern = NL[0-9]{2}INGB
+Source CSV Delimiter = ;
+Header Rows = 1
+Input Columns = Date,Payee,skip,CDFlag,Inflow,Memo
+Date Format = %Y%m%d
+Inflow or Outflow Indicator = CDFlag , Bij , Af
+
+; A bank without an indicator
+[NL Example]
+Source Filename Pattern = export
+Input Columns = Date,Payee,Amount
+Inflow or Outflow Indicator = CDFlag,C
+`;
+
+describe('fetch-bank-configs', () => {
+  describe('parseIniConfig', () => {
+    it('should read the credit/debit indicator as cdFlags', () => {
+      const configs = parseIniConfig(CONFIG);
+
+      expect(configs['NL ING']).toMatchObject({
+        pattern: 'NL[0-9]{2}INGB',
+        delimiter: ';',
+        headerRows: 1,
+        columns: ['Date', 'Payee', 'skip', 'CDFlag', 'Inflow', 'Memo'],
+        cdFlags: ['CDFlag', 'Bij', 'Af'],
+      });
+    });
+
+    it('should leave out indicators without both flag values', () => {
+      const configs = parseIniConfig(CONFIG);
+
+      expect(Object.keys(configs)).toEqual(['NL ING', 'NL Example']);
+      expect(configs['NL Example']?.cdFlags).toBeUndefined();
+    });
+  });
+});
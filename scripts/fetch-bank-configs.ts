@@ -19,12 +19,13 @@ interface Bank2YnabConfig {
   footerRows?: number;
   columns?: string[];
   dateFormat?: string;
+  cdFlags?: string[];
 }
 
 /**
  * Parses the bank2ynab.conf INI-style config file
  */
-function parseIniConfig(configText: string): Record<string, Bank2YnabConfig> {
+export function parseIniConfig(configText: string): Record<string, Bank2YnabConfig> {
   const lines = configText.split('\n');
   const configs: Record<string, Bank2YnabConfig> = {};
 
@@ -49,7 +50,7 @@ function parseIniConfig(configText: string): Record<string, Bank2YnabConfig> {
         configs[currentSection] = parseConfigSection(currentSection, currentConfig);
       }
 
-      currentSection = sectionMatch[1];
+      currentSection = sectionMatch[1] ?? null;
       currentConfig = {};
       continue;
     }
@@ -82,6 +83,9 @@ function parseConfigSection(name: string, config: Record<string, string>): Bank2
   const footerRows = parseInt(config['Footer Rows'] || '0', 10);
   const dateFormat = config['Date Format'];
 
+  // Credit/debit indicator: "<column>,<inflow value>,<outflow value>"
+  const cdFlags = config['Inflow or Outflow Indicator']?.split(',').map((flag) => flag.trim());
+
   // Parse input columns
   let columns: string[] = [];
   if (config['Input Columns']) {
@@ -97,6 +101,7 @@ function parseConfigSection(name: string, config: Record<string, string>): Bank2
     footerRows,
     columns,
     dateFormat,
+    cdFlags: cdFlags?.length === 3 ? cdFlags : undefined,
   };
 }
 
@@ -149,4 +154,7 @@ async function main() {
   }
 }
 
-main();
+// Only fetch when run directly, not when imported by the tests
+if (process.argv[1] && path.resolve(process.argv[1]) === __filename) {
+  main();
+}
@@ -1,10 +1,74 @@
-import { describe, expect, it } from 'bun:test';
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import Fastify from 'fastify';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
+// A multipart/form-data body holding one file
+const multipart = (filename: string, content: string) => {
+  const boundary = '----quickynab-test';
+  return {
+    headers: { 'content-type': `multipart/form-data; boundary=${boundary}` },
+    payload: [
+      `--${boundary}`,
+      `Content-Disposition: form-data; name="file"; filename="${filename}"`,
+      'Content-Type: application/octet-stream',
+      '',
+      content,
+      `--${boundary}--`,
+      '',
+    ].join('\r\n'),
+  };
+};
+
+// Answers YNAB API requests matching a route ("METHOD /path suffix") and records them
+const mockYnabFetch = (routes: Record<string, unknown>) => {
+  const requests: Array<{ method: string; path: string; body: unknown }> = [];
+  const originalFetch = globalThis.fetch;
+  beforeEach(() => {
+    requests.length = 0;
+    globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+      const url = new URL(input instanceof Request ? input.url : input);
+      const method = init?.method || 'GET';
+      requests.push({
+        method,
+        path: url.pathname,
+        body: typeof init?.body === 'string' ? JSON.parse(init.body) : undefined,
+      });
+      const route = Object.keys(routes).find((key) => {
+        const [routeMethod, suffix = ''] = key.split(' ');
+        return routeMethod === method && url.pathname.endsWith(suffix);
+      });
+      return route
+        ? Response.json(routes[route], { status: method === 'POST' ? 201 : 200 })
+        : Response.json({ error: { id: '404', name: 'not_found' } }, { status: 404 });
+    }) as typeof fetch;
+  });
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+  return requests;
+};
+
+// Keeps the config files (such as custom formats) of a describe block in a temporary directory
+const useTempConfigDir = (): (() => string) => {
+  let dir = '';
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'quickynab-config-'));
+    process.env.QUICKYNAB_CONFIG_DIR = dir;
+    process.env.YNAB_ACCESS_TOKEN = 'test-token';
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true });
+    delete process.env.QUICKYNAB_CONFIG_DIR;
+    delete process.env.YNAB_ACCESS_TOKEN;
+  });
+  return () => dir;
+};
+
 describe('/api/config endpoint', () => {
   it('should return budgetId and accountId when configured', async () => {
     // Set environment variables for testing
@@ -205,3 +269,424 @@ describe('/api/config endpoint', () => {
     delete process.env.YNAB_ACCESS_TOKEN;
   });
 });
+
+describe('/api/upload endpoint', () => {
+  it('should accept OFX files with a standalone XML declaration', async () => {
+    process.env.YNAB_ACCESS_TOKEN = 'test-token';
+    const { fastify: app } = await import('./server.js');
+
+    const ofx = `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>
+<OFX>
+  <BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>
+    <STMTTRN>
+      <TRNTYPE>DEBIT</TRNTYPE>
+      <DTPOSTED>20250201</DTPOSTED>
+      <TRNAMT>-12.34</TRNAMT>
+      <FITID>0001</FITID>
+      <NAME>Grocery Store</NAME>
+    </STMTTRN>
+  </BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/upload?dryRun=true',
+      ...multipart('statement.ofx', ofx),
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toMatchObject({
+      dryRun: true,
+      format: 'OFX',
+      count: 1,
+      preview: [{ date: '2025-02-01', payee: 'Grocery Store', amount: -12.34 }],
+    });
+
+    delete process.env.YNAB_ACCESS_TOKEN;
+  });
+
+  it('should accept camt.053 files with a standalone XML declaration', async () => {
+    process.env.YNAB_ACCESS_TOKEN = 'test-token';
+    const { fastify: app } = await import('./server.js');
+
+    const camt = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.04">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Ntry>
+        <Amt Ccy="CHF">80.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <BookgDt><Dt>2025-09-29</Dt></BookgDt>
+        <AcctSvcrRef>REF-0001</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <RltdPties><Cdtr><Nm>Migros Zuerich</Nm></Cdtr></RltdPties>
+        </TxDtls></NtryDtls>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/upload?dryRun=true',
+      ...multipart('statement.xml', camt),
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toMatchObject({
+      dryRun: true,
+      format: 'camt',
+      count: 1,
+      preview: [{ date: '2025-09-29', payee: 'Migros Zuerich', amount: -80 }],
+    });
+
+    delete process.env.YNAB_ACCESS_TOKEN;
+  });
+
+  it('should return the rows it could not read', async () => {
+    process.env.YNAB_ACCESS_TOKEN = 'test-token';
+    const { fastify: app } = await import('./server.js');
+
+    const format = JSON.stringify({
+      name: 'Card',
+      pattern: 'card',
+      headerRows: 1,
+      columns: ['Date', 'Payee', 'Amount'],
+      dateFormat: '%d.%m.%Y',
+    });
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/upload?dryRun=true&format=${encodeURIComponent(format)}`,
+      ...multipart(
+        'export.csv',
+        'Date,Payee,Amount\n15.01.2025,Store,-10.00\n31.02.2025,Refund,5.00'
+      ),
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toMatchObject({
+      count: 1,
+      skippedRows: [{ row: 3, reason: 'Invalid date "31.02.2025" (expected format %d.%m.%Y)' }],
+    });
+
+    delete process.env.YNAB_ACCESS_TOKEN;
+  });
+
+  it('should still reject CSV files with script content', async () => {
+    process.env.YNAB_ACCESS_TOKEN = 'test-token';
+    const { fastify: app } = await import('./server.js');
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/upload?dryRun=true',
+      ...multipart('export.csv', 'Date,Payee,Amount\n2025-01-15,<script>alert(1)</script>,10.00'),
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body).error).toBe('File contains potentially malicious content');
+
+    delete process.env.YNAB_ACCESS_TOKEN;
+  });
+
+  it('should ask for legacy .xls files to be saved as .xlsx', async () => {
+    process.env.YNAB_ACCESS_TOKEN = 'test-token';
+    const { fastify: app } = await import('./server.js');
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/upload?dryRun=true',
+      ...multipart('export.xls', 'Date,Payee,Amount\n2025-01-15,Store,10.00'),
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body).error).toBe(
+      'Legacy Excel .xls files are not supported. Please save the file as .xlsx or CSV.'
+    );
+
+    delete process.env.YNAB_ACCESS_TOKEN;
+  });
+});
+
+describe('/api/banks endpoint', () => {
+  const configDir = useTempConfigDir();
+
+  it('should list bundled and custom formats by name', async () => {
+    fs.writeFileSync(
+      path.join(configDir(), 'formats.json'),
+      JSON.stringify({
+        'Credit Union': {
+          name: 'Credit Union',
+          pattern: 'cu_',
+          columns: ['Date', 'Payee', 'Amount'],
+        },
+      })
+    );
+    const { fastify: app } = await import('./server.js');
+
+    const response = await app.inject({ method: 'GET', url: '/api/banks' });
+
+    expect(response.statusCode).toBe(200);
+    const { banks } = JSON.parse(response.body) as { banks: string[] };
+    expect(banks).toContain('Credit Union');
+    expect(banks).toContain('NL ING');
+    expect(banks).toEqual([...banks].sort((a, b) => a.localeCompare(b)));
+  });
+
+  it('should report an invalid custom formats file', async () => {
+    fs.writeFileSync(path.join(configDir(), 'formats.json'), '{ not json');
+    const { fastify: app } = await import('./server.js');
+
+    const response = await app.inject({ method: 'GET', url: '/api/banks' });
+
+    expect(response.statusCode).toBe(500);
+    expect(JSON.parse(response.body).error).toContain('Could not read');
+  });
+});
+
+describe('/api/formats endpoint', () => {
+  const configDir = useTempConfigDir();
+  const creditUnion = {
+    name: 'Credit Union',
+    pattern: 'cu_.*\\.csv',
+    useRegex: true,
+    headerRows: 1,
+    columns: ['Date', 'Payee', 'Amount'],
+    dateFormat: '%d.%m.%Y',
+  };
+
+  it('should save the format to formats.json', async () => {
+    const { fastify: app } = await import('./server.js');
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/formats',
+      payload: creditUnion,
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toEqual({ success: true, name: 'Credit Union' });
+    const formatsFile = path.join(configDir(), 'formats.json');
+    expect(JSON.parse(fs.readFileSync(formatsFile, 'utf-8'))).toEqual({
+      'Credit Union': creditUnion,
+    });
+    expect(fs.statSync(formatsFile).mode & 0o777).toBe(0o600);
+  });
+
+  it('should keep formats saved before', async () => {
+    const { fastify: app } = await import('./server.js');
+
+    await app.inject({ method: 'POST', url: '/api/formats', payload: creditUnion });
+    await app.inject({
+      method: 'POST',
+      url: '/api/formats',
+      payload: { ...creditUnion, name: 'Savings Bank', pattern: 'savings', useRegex: false },
+    });
+
+    const formats = JSON.parse(fs.readFileSync(path.join(configDir(), 'formats.json'), 'utf-8'));
+    expect(Object.keys(formats)).toEqual(['Credit Union', 'Savings Bank']);
+  });
+
+  it('should reject an invalid filename regex without saving', async () => {
+    const { fastify: app } = await import('./server.js');
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/formats',
+      payload: { ...creditUnion, pattern: 'cu_(' },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body).error).toContain(
+      'must be a valid regular expression with useRegex'
+    );
+    expect(fs.existsSync(path.join(configDir(), 'formats.json'))).toBe(false);
+  });
+});
+
+describe('/api/mapping endpoint', () => {
+  useTempConfigDir();
+  const csv = 'Datum;Empfaenger;Betrag\n15.01.2025;Store;-10,00\n16.01.2025;Employer;2000,00';
+
+  it('should return sample rows and a preview of the given mapping', async () => {
+    const { fastify: app } = await import('./server.js');
+    const format = JSON.stringify({
+      name: 'Giro',
+      delimiter: ';',
+      headerRows: 1,
+      columns: ['Date', 'Payee', 'Amount'],
+      dateFormat: '%d.%m.%Y',
+    });
+
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/mapping?format=${encodeURIComponent(format)}`,
+      ...multipart('export.csv', csv),
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toMatchObject({
+      delimiter: ';',
+      rows: [
+        ['Datum', 'Empfaenger', 'Betrag'],
+        ['15.01.2025', 'Store', '-10,00'],
+        ['16.01.2025', 'Employer', '2000,00'],
+      ],
+      count: 2,
+      preview: [
+        { date: '2025-01-15', payee: 'Store', amount: -10 },
+        { date: '2025-01-16', payee: 'Employer', amount: 2000 },
+      ],
+    });
+  });
+
+  it('should reject a mapping with an invalid filename regex', async () => {
+    const { fastify: app } = await import('./server.js');
+    const format = JSON.stringify({
+      name: 'Giro',
+      pattern: 'giro_(',
+      useRegex: true,
+      columns: ['Date', 'Payee', 'Amount'],
+    });
+
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/mapping?format=${encodeURIComponent(format)}`,
+      ...multipart('export.csv', csv),
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body).error).toContain(
+      'must be a valid regular expression with useRegex'
+    );
+  });
+});
+
+describe('category mapping', () => {
+  useTempConfigDir();
+  const requests = mockYnabFetch({
+    'GET /categories': {
+      data: {
+        server_knowledge: 1,
+        category_groups: [
+          {
+            id: 'group-1',
+            name: 'Everyday',
+            hidden: false,
+            deleted: false,
+            categories: [
+              { id: 'cat-groceries', name: 'Groceries', hidden: false, deleted: false },
+              { id: 'cat-dining', name: 'Dining Out', hidden: false, deleted: false },
+            ],
+          },
+        ],
+      },
+    },
+  });
+  const csv = `Date,Payee,Category,Memo,Outflow,Inflow
+2025-01-15,Store,Groceries,,10.00,0
+2025-01-16,Pizzeria,Restaurants,,25.00,0`;
+
+  it('should list the budget categories', async () => {
+    const { fastify: app } = await import('./server.js');
+
+    const response = await app.inject({ method: 'GET', url: '/api/categories?budgetId=budget-1' });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toEqual({
+      categories: [
+        { id: 'cat-groceries', name: 'Groceries', group: 'Everyday' },
+        { id: 'cat-dining', name: 'Dining Out', group: 'Everyday' },
+      ],
+    });
+    expect(requests[0]?.path).toEndWith('/budget-1/categories');
+  });
+
+  it('should require a budget for listing categories', async () => {
+    const { fastify: app } = await import('./server.js');
+
+    const response = await app.inject({ method: 'GET', url: '/api/categories' });
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body).error).toBe('Budget ID is required. Please select a budget.');
+    expect(requests).toEqual([]);
+  });
+
+  it('should only report category names the categoryMap leaves unmatched', async () => {
+    const { fastify: app } = await import('./server.js');
+
+    const unmapped = await app.inject({
+      method: 'POST',
+      url: '/api/upload?dryRun=true&budgetId=budget-1',
+      ...multipart('export.csv', csv),
+    });
+    const categoryMap = JSON.stringify({ Restaurants: 'cat-dining' });
+    const mapped = await app.inject({
+      method: 'POST',
+      url: `/api/upload?dryRun=true&budgetId=budget-1&categoryMap=${encodeURIComponent(categoryMap)}`,
+      ...multipart('export.csv', csv),
+    });
+
+    expect(JSON.parse(unmapped.body).unmatchedCategories).toEqual(['Restaurants']);
+    expect(mapped.statusCode).toBe(200);
+    expect(JSON.parse(mapped.body).unmatchedCategories).toEqual([]);
+  });
+
+  it('should reject a categoryMap that is not JSON', async () => {
+    const { fastify: app } = await import('./server.js');
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/upload?dryRun=true&budgetId=budget-1&categoryMap=%7Bnot-json',
+      ...multipart('export.csv', csv),
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body).error).toContain('categoryMap must be JSON');
+  });
+});
+
+describe('upload to YNAB', () => {
+  useTempConfigDir();
+  const requests = mockYnabFetch({
+    'POST /transactions': {
+      data: {
+        server_knowledge: 1,
+        transaction_ids: ['tx-1', 'tx-3'],
+        duplicate_import_ids: [],
+        transactions: [],
+      },
+    },
+  });
+
+  it('should send the rows left after exclude with the chosen defaults', async () => {
+    const { fastify: app } = await import('./server.js');
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/upload?budgetId=budget-1&accountId=account-1&exclude=2&approved=true&cleared=cleared&flag=red',
+      ...multipart(
+        'export.csv',
+        `Date,Payee,Category,Memo,Outflow,Inflow
+2025-01-15,Store A,,,10.00,0
+2025-01-16,Store B,,,20.00,0
+2025-01-17,Store C,,,30.00,0`
+      ),
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toMatchObject({ success: true, imported: 2, excluded: 1 });
+    expect(requests).toHaveLength(1);
+    expect(requests[0]?.path).toEndWith('/budget-1/transactions');
+    const body = requests[0]?.body as { transactions: Record<string, unknown>[] };
+    const { transactions } = body;
+    expect(transactions.map((tx) => tx.payee_name)).toEqual(['Store A', 'Store C']);
+    for (const tx of transactions) {
+      expect(tx).toMatchObject({
+        account_id: 'account-1',
+        cleared: 'cleared',
+        approved: true,
+        flag_color: 'red',
+      });
+    }
+    expect(transactions[1]).toMatchObject({ date: '2025-01-17', amount: -30000 });
+  });
+});
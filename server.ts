@@ -1,6 +1,4 @@
 import crypto from 'node:crypto';
-import fs from 'node:fs';
-import os from 'node:os';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import helmet from '@fastify/helmet';
@@ -8,18 +6,52 @@ import fastifyMultipart from '@fastify/multipart';
 import rateLimit from '@fastify/rate-limit';
 import fastifyStatic from '@fastify/static';
 import Fastify, { LogController } from 'fastify';
-import { getConfig } from './lib/config.js';
-import { parseCSV } from './lib/converter.js';
+import { collectCategoryNames, resolveCategories } from './lib/categories.js';
+import {
+  getConfig,
+  loadAccountSettings,
+  loadCustomFormats,
+  loadRules,
+  saveCustomFormats,
+} from './lib/config.js';
+import {
+  detectFileFormat,
+  parseStatementContent,
+  readSampleRows,
+  rejectLegacyExcel,
+  SUPPORTED_EXTENSIONS,
+} from './lib/converter.js';
+import { excludeRows, findDuplicates } from './lib/duplicates.js';
+import { UnknownFormatError, ValidationError, YnabApiError } from './lib/errors.js';
 import { setLogger } from './lib/logger.js';
-import { envSchema, uploadQuerySchema } from './lib/schemas.js';
-import { listAccounts, listBudgets, uploadTransactions } from './lib/uploader.js';
+import { suggestMapping } from './lib/mapping.js';
+import { getBankConfigs } from './lib/parsers/bank2ynab-fetcher.js';
+import { COMMON_DATE_FORMATS } from './lib/parsers/date-parser.js';
+import { decodeText } from './lib/parsers/encoding.js';
+import { prepareTransactions, resolveAccountContext } from './lib/prepare.js';
+import { type BalanceCheck, checkBalance } from './lib/reconcile.js';
+import { usesAccount } from './lib/rules.js';
+import {
+  customFormatSchema,
+  envSchema,
+  mappingQuerySchema,
+  uploadQuerySchema,
+} from './lib/schemas.js';
+import {
+  listAccounts,
+  listBudgets,
+  listCategories,
+  markTransactionsCleared,
+  uploadTransactions,
+} from './lib/uploader.js';
+import { createWatcher } from './lib/watcher.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
 // Validate environment variables
 const env = envSchema.parse(process.env);
 
-const fastify = Fastify({
+export const fastify = Fastify({
   logger:
     env.NODE_ENV === 'development'
       ? true
@@ -56,6 +88,23 @@ const RATE_LIMITS = {
     max: 30,
     timeWindow: '1 minute',
   },
+  banks: {
+    max: 30,
+    timeWindow: '1 minute',
+  },
+  categories: {
+    max: 30,
+    timeWindow: '1 minute',
+  },
+  // The mapping wizard re-uploads the file for every live preview
+  mapping: {
+    max: 60,
+    timeWindow: '1 minute',
+  },
+  formats: {
+    max: 10,
+    timeWindow: '1 minute',
+  },
   upload: {
     max: 10,
     timeWindow: '1 minute',
@@ -130,7 +179,7 @@ fastify.addHook('onRequest', async (request, reply) => {
 });
 
 // File validation utility
-function validateCSVFile(buffer: Buffer, filename: string): boolean {
+function validateCSVFile(buffer: Buffer, filename: string, encoding?: string): boolean {
   const MAX_SIZE = 10 * 1024 * 1024; // 10MB
   const MAX_LINES = 50000;
   const MAX_LINE_LENGTH = 10000;
@@ -139,39 +188,50 @@ function validateCSVFile(buffer: Buffer, filename: string): boolean {
     throw new Error('File too large (max 10MB)');
   }
 
-  if (!filename.endsWith('.csv')) {
-    throw new Error('File must have .csv extension');
+  rejectLegacyExcel(filename);
+  const extension = path.extname(filename).toLowerCase();
+  if (!SUPPORTED_EXTENSIONS.some((ext) => ext === extension)) {
+    throw new Error(`File must have one of these extensions: ${SUPPORTED_EXTENSIONS.join(', ')}`);
+  }
+
+  const content = decodeText(buffer, encoding);
+  const format = detectFileFormat(filename, content);
+
+  // Excel workbooks are compressed binaries; the text checks below don't apply
+  if (format === 'xlsx') {
+    return true;
   }
 
-  const content = buffer.toString('utf-8');
   const lines = content.split('\n');
 
   if (lines.length > MAX_LINES) {
     throw new Error(`Too many lines (max ${MAX_LINES})`);
   }
 
-  // Check line length (first 100 lines)
-  for (let i = 0; i < Math.min(lines.length, 100); i++) {
-    const line = lines[i];
-    if (line && line.length > MAX_LINE_LENGTH) {
-      throw new Error(`Line ${i + 1} is too long`);
+  // CSV sanity checks; structured formats (which may be a single XML line) are
+  // checked by their parser
+  if (format === 'csv') {
+    // Check line length (first 100 lines)
+    for (let i = 0; i < Math.min(lines.length, 100); i++) {
+      const line = lines[i];
+      if (line && line.length > MAX_LINE_LENGTH) {
+        throw new Error(`Line ${i + 1} is too long`);
+      }
     }
-  }
 
-  // Check for CSV structure
-  if (lines.length > 0) {
-    const firstLine = lines[0];
-    if (firstLine && !firstLine.includes(',') && !firstLine.includes(';')) {
+    // Check for CSV structure; exports may start with a title line or two
+    if (!lines.slice(0, 10).some((line) => /[,;\t|]/.test(line))) {
       throw new Error('File does not appear to be a valid CSV');
     }
-  }
 
-  // Check for malicious content
-  const dangerousPatterns = [/<script/i, /javascript:/i, /on\w+=/i, /@import/i, /expression\(/i];
+    // Check for malicious content. Not for OFX and camt files: their XML
+    // declaration (standalone="no") would match the event handler pattern.
+    const dangerousPatterns = [/<script/i, /javascript:/i, /on\w+=/i, /@import/i, /expression\(/i];
 
-  for (const pattern of dangerousPatterns) {
-    if (pattern.test(content)) {
-      throw new Error('File contains potentially malicious content');
+    for (const pattern of dangerousPatterns) {
+      if (pattern.test(content)) {
+        throw new Error('File contains potentially malicious content');
+      }
     }
   }
 
@@ -293,9 +353,170 @@ fastify.get<{
   }
 );
 
+// Budget categories that unmatched category names from a file can be mapped to
+fastify.get<{
+  Querystring: { budgetId?: string };
+}>(
+  '/api/categories',
+  {
+    config: {
+      rateLimit: RATE_LIMITS.categories,
+    },
+  },
+  async (request, reply) => {
+    try {
+      const config = getConfig();
+      const budgetId = request.query.budgetId || config.budgetId;
+
+      if (!budgetId) {
+        reply.code(400);
+        return { error: 'Budget ID is required. Please select a budget.' };
+      }
+
+      return { categories: await listCategories(config.accessToken, budgetId) };
+    } catch (error) {
+      reply.code(500);
+      return { error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+);
+
+// Bank formats for manually overriding auto-detection
+fastify.get(
+  '/api/banks',
+  {
+    config: {
+      rateLimit: RATE_LIMITS.banks,
+    },
+  },
+  async (_request, reply) => {
+    try {
+      // Read on every request so custom formats added with "ynab format add" show up
+      const banks = Object.values(getBankConfigs())
+        .map((config) => config.name)
+        .sort((a, b) => a.localeCompare(b));
+      return { banks };
+    } catch (error) {
+      reply.code(500);
+      return { error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+);
+
+// Column mapping wizard: sample rows, a suggested mapping and, given a format, a preview
+fastify.post<{
+  Querystring: { delimiter?: string; sheet?: string; format?: string; encoding?: string };
+}>(
+  '/api/mapping',
+  {
+    config: {
+      rateLimit: RATE_LIMITS.mapping,
+    },
+  },
+  async (request, reply) => {
+    try {
+      const queryResult = mappingQuerySchema.safeParse(request.query);
+      if (!queryResult.success) {
+        reply.code(400);
+        return { error: `Invalid query parameters: ${queryResult.error.message}` };
+      }
+      const query = queryResult.data;
+
+      const data = await request.file();
+      if (!data) {
+        reply.code(400);
+        return { error: 'No file uploaded' };
+      }
+
+      const buffer = await data.toBuffer();
+      try {
+        validateCSVFile(buffer, data.filename, query.encoding);
+      } catch (validationError) {
+        reply.code(400);
+        return {
+          error: validationError instanceof Error ? validationError.message : 'Validation failed',
+        };
+      }
+
+      const sample = readSampleRows(buffer, data.filename, {
+        delimiter: query.delimiter,
+        sheet: query.sheet,
+        encoding: query.encoding,
+      });
+      const response = {
+        delimiter: sample.delimiter,
+        rows: sample.rows,
+        suggestion: suggestMapping(sample.rows),
+        dateFormats: COMMON_DATE_FORMATS,
+      };
+
+      if (!query.format) {
+        return response;
+      }
+
+      const { transactions } = parseStatementContent(buffer, data.filename, {
+        sheet: query.sheet,
+        format: query.format,
+        encoding: query.encoding,
+      });
+      return {
+        ...response,
+        count: transactions.length,
+        preview: transactions.slice(0, 10).map((tx) => ({
+          date: tx.date,
+          payee: tx.payee_name,
+          amount: tx.amount,
+          memo: tx.memo,
+        })),
+      };
+    } catch (error) {
+      reply.code(error instanceof ValidationError ? 400 : 500);
+      return { error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+);
+
+// Save a column mapping as a custom format (same file as "ynab format add")
+fastify.post(
+  '/api/formats',
+  {
+    config: {
+      rateLimit: RATE_LIMITS.formats,
+    },
+  },
+  async (request, reply) => {
+    try {
+      const result = customFormatSchema.safeParse(request.body);
+      if (!result.success) {
+        reply.code(400);
+        return { error: `Invalid format: ${result.error.message}` };
+      }
+
+      const formats = loadCustomFormats();
+      formats[result.data.name] = result.data;
+      saveCustomFormats(formats);
+
+      return { success: true, name: result.data.name };
+    } catch (error) {
+      reply.code(500);
+      return { error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+);
+
 // Upload and import CSV with stricter rate limit
 fastify.post<{
-  Querystring: { dryRun?: string; budgetId?: string; accountId?: string };
+  Querystring: {
+    dryRun?: string;
+    budgetId?: string;
+    accountId?: string;
+    qifDateOrder?: string;
+    sheet?: string;
+    bank?: string;
+    format?: string;
+    encoding?: string;
+    statementDate?: string;
+  };
 }>(
   '/api/upload',
   {
@@ -304,8 +525,6 @@ fastify.post<{
     },
   },
   async (request, reply) => {
-    let tmpFile: string | null = null;
-
     try {
       // Validate query parameters
       const queryResult = uploadQuerySchema.safeParse(request.query);
@@ -328,7 +547,7 @@ fastify.post<{
 
       // Validate file
       try {
-        validateCSVFile(buffer, data.filename);
+        validateCSVFile(buffer, data.filename, query.encoding);
       } catch (validationError) {
         reply.code(400);
         return {
@@ -336,63 +555,210 @@ fastify.post<{
         };
       }
 
-      // Save file temporarily with secure random name but preserve original extension
-      const randomName = crypto.randomBytes(16).toString('hex');
-      const originalFilename = data.filename;
-      tmpFile = path.join(os.tmpdir(), `ynab-${randomName}-${originalFilename}`);
-      fs.writeFileSync(tmpFile, buffer);
-
-      try {
-        // Parse CSV (pass original filename for bank detection)
-        const transactions = parseCSV(tmpFile, originalFilename);
-
-        // Check if dry run
-        if (query.dryRun) {
-          // Return preview
-          return {
-            success: true,
-            dryRun: true,
-            count: transactions.length,
-            preview: transactions.slice(0, 10).map((tx) => ({
-              date: tx.date,
-              payee: tx.payee_name,
-              amount: tx.amount,
-              memo: tx.memo,
-            })),
-          };
+      // Parse in memory; the original filename helps detect the bank
+      const statement = parseStatementContent(buffer, data.filename, {
+        qifDateOrder: query.qifDateOrder,
+        sheet: query.sheet,
+        bank: query.bank,
+        format: query.format,
+        encoding: query.encoding,
+        referenceDate: query.statementDate,
+      });
+      // Get budget and account IDs from validated query params
+      const budgetId = query.budgetId;
+      const accountId = query.accountId;
+
+      // Assign import IDs, then rename payees, set categories and skip transactions
+      // as the user's rules say
+      const importSettings = {
+        rules: loadRules(),
+        accountSettings: loadAccountSettings(),
+        importIdStrategy: query.importIdStrategy,
+        defaults: { cleared: query.cleared, approved: query.approved, flag: query.flag },
+      };
+      const { transactions, changed, skipped, importIdStrategy, defaults } = prepareTransactions(
+        statement,
+        {
+          ...importSettings,
+          context: await resolveAccountContext(
+            config.accessToken,
+            budgetId || config.budgetId,
+            accountId || config.accountId,
+            importSettings
+          ),
         }
+      );
+
+      // Check if dry run
+      if (query.dryRun) {
+        // Category names can only be checked once the budget is known
+        const categoryNames = collectCategoryNames(transactions);
+        const previewBudgetId = budgetId || config.budgetId;
+        const previewAccountId = accountId || config.accountId;
+        const unmatchedCategories =
+          previewBudgetId && categoryNames.length > 0
+            ? resolveCategories(
+                categoryNames,
+                await listCategories(config.accessToken, previewBudgetId),
+                query.categoryMap
+              ).unmatched
+            : undefined;
+
+        // Likewise, duplicates can only be looked for once the account is known
+        const checks =
+          previewBudgetId && previewAccountId
+            ? await findDuplicates(
+                config.accessToken,
+                previewBudgetId,
+                previewAccountId,
+                transactions
+              )
+            : undefined;
+        const flagged = (checks || []).flatMap((check, index) => {
+          const tx = transactions[index];
+          return check.status === 'new' || !tx
+            ? []
+            : [
+                {
+                  row: index + 1,
+                  status: check.status,
+                  date: tx.date,
+                  payee: tx.payee_name,
+                  amount: tx.amount,
+                  match: check.match,
+                },
+              ];
+        });
+
+        // Return preview
+        return {
+          success: true,
+          dryRun: true,
+          format: statement.format,
+          confidence: statement.confidence,
+          candidates: statement.candidates,
+          unmatchedCategories,
+          // The preview changes with the selected account if any rule is tied to one
+          rules: { changed, skipped, byAccount: usesAccount(importSettings.rules) },
+          importIdStrategy,
+          // Cleared state, approval and flag the transactions will be created with
+          defaults,
+          closingBalance: statement.closingBalance,
+          // Rows of the file that couldn't be read, so aren't in the preview
+          skippedRows: statement.skippedRows ?? [],
+          // Rows that are already in YNAB or probably are; exclude them with ?exclude=
+          duplicates: checks && {
+            duplicate: flagged.filter((row) => row.status === 'duplicate').length,
+            probable: flagged.filter((row) => row.status === 'probable').length,
+            rows: flagged,
+          },
+          count: transactions.length,
+          preview: transactions.slice(0, 10).map((tx, index) => ({
+            date: tx.date,
+            payee: tx.payee_name,
+            amount: tx.amount,
+            memo: tx.memo,
+            category: tx.category_name,
+            flag: tx.flag_color,
+            status: checks?.[index]?.status,
+          })),
+        };
+      }
 
-        // Get budget and account IDs from validated query params
-        const budgetId = query.budgetId;
-        const accountId = query.accountId;
-
-        if (!accountId && !config.accountId) {
-          reply.code(400);
-          return { error: 'Account ID is required. Please select an account.' };
-        }
+      if (!accountId && !config.accountId) {
+        reply.code(400);
+        return { error: 'Account ID is required. Please select an account.' };
+      }
 
-        // Upload to YNAB
-        const result = await uploadTransactions(
-          transactions,
-          config,
-          accountId || null,
-          budgetId || null
-        );
+      // Rows the user left out after the duplicate check
+      const toUpload = query.exclude ? excludeRows(transactions, query.exclude) : transactions;
+      const excluded = transactions.length - toUpload.length;
 
+      // Rules or the user may have skipped every transaction
+      if (toUpload.length === 0) {
         return {
           success: true,
+          imported: 0,
+          duplicates: 0,
+          skipped,
+          excluded,
+          skippedRows: statement.skippedRows ?? [],
+          count: 0,
+        };
+      }
+
+      // Upload to YNAB
+      const result = await uploadTransactions(
+        toUpload,
+        config,
+        accountId || null,
+        budgetId || null,
+        { categoryMap: query.categoryMap, ...defaults }
+      );
+
+      // Part of the file was imported before YNAB failed
+      if (!result.success) {
+        reply.code(502);
+        return {
+          error: result.error,
           imported: result.imported,
           duplicates: result.duplicates,
-          count: transactions.length,
+          chunks: result.chunks,
         };
-      } finally {
-        // Cleanup
-        if (tmpFile && fs.existsSync(tmpFile)) {
-          fs.unlinkSync(tmpFile);
+      }
+
+      // Compare with the balance the statement closes with; the import itself
+      // succeeded, so a failing check is only logged
+      let balance: BalanceCheck | undefined;
+      let markedCleared = 0;
+      if (statement.closingBalance) {
+        const uploadBudgetId = budgetId || config.budgetId;
+        const uploadAccountId = accountId || config.accountId;
+        try {
+          if (uploadBudgetId && uploadAccountId) {
+            balance = await checkBalance(
+              config.accessToken,
+              uploadBudgetId,
+              uploadAccountId,
+              statement.closingBalance
+            );
+            if (balance.matches && query.markCleared) {
+              const ids = result.transactions.map((tx) => tx.id);
+              await markTransactionsCleared(config.accessToken, uploadBudgetId, ids);
+              markedCleared = ids.length;
+            }
+          }
+        } catch (error) {
+          fastify.log.error(
+            `Balance check failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
         }
       }
+
+      return {
+        success: true,
+        imported: result.imported,
+        duplicates: result.duplicates,
+        balance,
+        markedCleared,
+        unmatchedCategories: result.unmatchedCategories,
+        skipped,
+        excluded,
+        skippedRows: statement.skippedRows ?? [],
+        count: toUpload.length,
+      };
     } catch (error) {
-      reply.code(500);
+      if (error instanceof UnknownFormatError) {
+        // Lets the web UI offer the column mapping wizard
+        reply.code(422);
+        return { error: error.message, unknownFormat: true };
+      }
+      if (error instanceof YnabApiError && error.statusCode === 429) {
+        // Still rate limited after retrying
+        reply.code(429);
+        return { error: `YNAB rate limit reached, try again later: ${error.message}` };
+      }
+      reply.code(error instanceof ValidationError ? 400 : 500);
       return { error: error instanceof Error ? error.message : 'Unknown error' };
     }
   }
@@ -403,10 +769,17 @@ const start = async () => {
   try {
     await fastify.listen({ port: env.PORT, host: '0.0.0.0' });
     fastify.log.info(`YNAB Web App running at http://localhost:${env.PORT}`);
+    if (env.WATCH_DIR) {
+      createWatcher(env.WATCH_DIR, { config: getConfig() }).start();
+      fastify.log.info(`Watching ${env.WATCH_DIR} for statements`);
+    }
   } catch (err) {
     fastify.log.error(err);
     process.exit(1);
   }
 };
 
-start();
+// Only listen when run directly, not when imported by the tests
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  start();
+}
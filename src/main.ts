@@ -19,25 +19,110 @@ interface Account {
   type: string;
 }
 
+interface Category {
+  id: string;
+  name: string;
+  group: string;
+}
+
 interface Transaction {
   date: string;
   payee: string | null;
   amount: number;
   memo: string | null;
+  category?: string | null;
+  flag?: string | null;
+  status?: DuplicateStatus;
+}
+
+type DuplicateStatus = 'new' | 'duplicate' | 'probable';
+
+// A preview row that is or looks like a transaction already in the account
+interface DuplicateRow {
+  row: number;
+  status: Exclude<DuplicateStatus, 'new'>;
+  date: string;
+  payee: string | null;
+  amount: number;
+  match?: { date: string; payee: string | null; amount: number };
 }
 
 interface PreviewData {
   success: boolean;
+  format: string;
+  confidence?: number;
+  candidates?: { name: string; confidence: number }[];
+  // Category names from the file that match no budget category; only checked once a budget is selected
+  unmatchedCategories?: string[];
+  rules?: { changed: number; skipped: number; byAccount: boolean };
+  importIdStrategy?: string;
+  closingBalance?: { amount: number; date: string; currency: string | null } | null;
+  // Rows of the file that couldn't be read, so aren't in the preview
+  skippedRows?: { row: number; reason: string }[];
+  // Only checked once an account is selected
+  duplicates?: { duplicate: number; probable: number; rows: DuplicateRow[] };
   count: number;
   preview: Transaction[];
 }
 
+interface CustomFormat {
+  name: string;
+  pattern: string;
+  delimiter?: string;
+  headerRows: number;
+  footerRows: number;
+  columns: string[];
+  dateFormat?: string;
+  invertAmounts: boolean;
+  headerSignature?: string[];
+}
+
+interface MappingData {
+  delimiter: string | null;
+  rows: string[][];
+  suggestion: { headerRows: number; columns: string[]; dateFormat?: string };
+  dateFormats: string[];
+  count?: number;
+  preview?: Transaction[];
+}
+
+// Statement closing balance compared with the YNAB account after uploading
+interface BalanceCheck {
+  date: string;
+  currency: string | null;
+  statement: number;
+  ynab: number;
+  difference: number;
+  matches: boolean;
+}
+
 interface UploadResult {
   success: boolean;
   imported: number;
   duplicates: number;
+  balance?: BalanceCheck;
+  markedCleared?: number;
 }
 
+// Keep in sync with SUPPORTED_EXTENSIONS in lib/converter.ts
+const SUPPORTED_EXTENSIONS = ['.csv', '.ofx', '.qfx', '.qif', '.xml', '.sta', '.mt940', '.xlsx'];
+
+// Keep in sync with MAPPING_FIELDS in lib/mapping.ts
+const MAPPING_FIELDS = [
+  'Date',
+  'Payee',
+  'Memo',
+  'Inflow',
+  'Outflow',
+  'Amount',
+  'Reference',
+  'Running Balance',
+  'skip',
+];
+
+// Sample rows shown in the mapping table
+const MAPPING_TABLE_ROWS = 8;
+
 // State
 let currentFile: File | null = null;
 let _previewData: PreviewData | null = null;
@@ -45,6 +130,19 @@ let budgets: Budget[] = [];
 let _accounts: Account[] = [];
 let selectedBudgetId: string | null = null;
 let selectedAccountId: string | null = null;
+let bankNames: string[] = [];
+// Bank format chosen in the picker; null lets the server auto-detect
+let selectedBank: string | null = null;
+// Column mapping from the wizard that wasn't saved as a format; wins over selectedBank
+let selectedFormat: CustomFormat | null = null;
+let mappingRows: string[][] = [];
+let mappingColumns: string[] = [];
+let mappingDelimiter: string | null = null;
+let mappingTimer: ReturnType<typeof setTimeout> | undefined;
+// Category chosen for each unmatched category name; an empty ID imports it uncategorized
+let categoryMap: Record<string, string> = {};
+// Preview rows (1-based) the user unticked after the duplicate check
+let excludedRows = new Set<number>();
 let currencyFormat = { symbol: '$', decimal_digits: 2 };
 
 // Elements
@@ -62,6 +160,29 @@ const accountSelectorContainer = document.getElementById(
   'account-selector-container'
 ) as HTMLElement;
 const accountSelect = document.getElementById('account-select') as HTMLSelectElement;
+const bankInput = document.getElementById('bank-input') as HTMLInputElement;
+const bankList = document.getElementById('bank-list') as HTMLDataListElement;
+const mapBtn = document.getElementById('map-btn') as HTMLButtonElement;
+const mapping = document.getElementById('mapping') as HTMLElement;
+const mappingDelimiterSelect = document.getElementById('mapping-delimiter') as HTMLSelectElement;
+const mappingHeaderRows = document.getElementById('mapping-header-rows') as HTMLInputElement;
+const mappingFooterRows = document.getElementById('mapping-footer-rows') as HTMLInputElement;
+const mappingDateFormat = document.getElementById('mapping-date-format') as HTMLInputElement;
+const dateFormatList = document.getElementById('date-format-list') as HTMLDataListElement;
+const mappingInvert = document.getElementById('mapping-invert') as HTMLInputElement;
+const mappingTable = document.getElementById('mapping-table') as HTMLElement;
+const mappingPreview = document.getElementById('mapping-preview') as HTMLElement;
+const mappingName = document.getElementById('mapping-name') as HTMLInputElement;
+const mappingMatch = document.getElementById('mapping-match') as HTMLSelectElement;
+const mappingPattern = document.getElementById('mapping-pattern') as HTMLInputElement;
+const mappingApplyBtn = document.getElementById('mapping-apply-btn') as HTMLButtonElement;
+const mappingCancelBtn = document.getElementById('mapping-cancel-btn') as HTMLButtonElement;
+const categoryMapping = document.getElementById('category-mapping') as HTMLElement;
+const categoryMappingList = document.getElementById('category-mapping-list') as HTMLElement;
+const duplicateCheck = document.getElementById('duplicate-check') as HTMLElement;
+const duplicateCheckList = document.getElementById('duplicate-check-list') as HTMLElement;
+const markClearedOption = document.getElementById('mark-cleared-option') as HTMLElement;
+const markCleared = document.getElementById('mark-cleared') as HTMLInputElement;
 const versionElement = document.getElementById('app-version') as HTMLElement;
 
 // Initialize
@@ -70,6 +191,7 @@ if (versionElement) {
 }
 checkConfig();
 loadBudgets().then(checkPreselectedBudget);
+loadBanks();
 
 // Drag and drop handlers
 dropZone.addEventListener('click', () => {
@@ -118,6 +240,7 @@ budgetSelect.addEventListener('change', async (e) => {
   const target = e.target as HTMLSelectElement;
   selectedBudgetId = target.value;
   selectedAccountId = null;
+  categoryMap = {};
 
   if (selectedBudgetId) {
     await loadAccounts(selectedBudgetId);
@@ -125,11 +248,117 @@ budgetSelect.addEventListener('change', async (e) => {
     accountSelectorContainer.classList.add('hidden');
     accountSelect.innerHTML = '<option value="">Select a budget first...</option>';
   }
+
+  // Category names are matched against the selected budget
+  if (currentFile && _previewData) {
+    handleFile(currentFile);
+  }
 });
 
 accountSelect.addEventListener('change', (e) => {
   const target = e.target as HTMLSelectElement;
   selectedAccountId = target.value;
+
+  // Duplicates are looked for in the selected account, and some rules only apply to one
+  if (currentFile && _previewData) {
+    handleFile(currentFile);
+  }
+});
+
+bankInput.addEventListener('change', () => {
+  const value = bankInput.value.trim();
+  const bank = value ? bankNames.find((name) => name.toLowerCase() === value.toLowerCase()) : null;
+
+  if (bank === undefined) {
+    showResult('error', {
+      title: '❌ Unknown Bank Format',
+      message: `"${value}" is not a known bank format. Pick one from the list.`,
+    });
+    return;
+  }
+
+  bankInput.value = bank || '';
+  if (bank !== selectedBank || selectedFormat) {
+    selectedBank = bank;
+    selectedFormat = null;
+    // Re-run the preview with the chosen format
+    if (currentFile) {
+      handleFile(currentFile);
+    }
+  }
+});
+
+mapBtn.addEventListener('click', () => {
+  openMapping();
+});
+
+mappingDelimiterSelect.addEventListener('change', async () => {
+  mappingDelimiter = mappingDelimiterSelect.value;
+  try {
+    applyMappingSample(await fetchMapping());
+    scheduleMappingPreview();
+  } catch (error) {
+    showMappingError(error);
+  }
+});
+
+for (const input of [mappingHeaderRows, mappingFooterRows, mappingDateFormat, mappingInvert]) {
+  input.addEventListener('input', () => {
+    renderMappingTable();
+    scheduleMappingPreview();
+  });
+}
+
+mappingApplyBtn.addEventListener('click', async () => {
+  if (!currentFile) return;
+
+  const format = currentMappingFormat();
+  const name = mappingName.value.trim();
+
+  if (name) {
+    // Save as a custom format so the next export of this bank is detected
+    const header = format.headerRows > 0 ? mappingRows[format.headerRows - 1] : undefined;
+    const saved =
+      mappingMatch.value === 'filename'
+        ? { ...format, pattern: mappingPattern.value.trim() }
+        : { ...format, headerSignature: header };
+
+    try {
+      const response = await fetch('/api/formats', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(saved),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(typeof data.error === 'string' ? data.error : 'Unknown error occurred');
+      }
+    } catch (error) {
+      showMappingError(error);
+      return;
+    }
+
+    await loadBanks();
+    selectedBank = name;
+    selectedFormat = null;
+    bankInput.value = name;
+  } else {
+    selectedBank = null;
+    selectedFormat = format;
+    bankInput.value = '';
+  }
+
+  mapping.classList.add('hidden');
+  await handleFile(currentFile);
+});
+
+mappingCancelBtn.addEventListener('click', () => {
+  mapping.classList.add('hidden');
+  if (_previewData) {
+    preview.classList.remove('hidden');
+  } else {
+    resetUI();
+  }
 });
 
 uploadBtn.addEventListener('click', async () => {
@@ -157,7 +386,15 @@ uploadBtn.addEventListener('click', async () => {
     const formData = new FormData();
     formData.append('file', currentFile);
 
-    const url = `/api/upload?accountId=${encodeURIComponent(selectedAccountId)}${selectedBudgetId ? `&budgetId=${encodeURIComponent(selectedBudgetId)}` : ''}`;
+    const categoryQuery =
+      Object.keys(categoryMap).length > 0
+        ? `&categoryMap=${encodeURIComponent(JSON.stringify(categoryMap))}`
+        : '';
+    const excludeQuery =
+      excludedRows.size > 0 ? `&exclude=${[...excludedRows].sort((a, b) => a - b).join(',')}` : '';
+    const markClearedQuery =
+      _previewData?.closingBalance && markCleared.checked ? '&markCleared=true' : '';
+    const url = `/api/upload?accountId=${encodeURIComponent(selectedAccountId)}${budgetQuery()}${formatQuery()}${categoryQuery}${excludeQuery}${markClearedQuery}`;
     const response = await fetch(url, {
       method: 'POST',
       body: formData,
@@ -173,6 +410,8 @@ uploadBtn.addEventListener('click', async () => {
         title: '✅ Upload Successful!',
         message: `${data.imported} transactions imported successfully`,
         duplicates: data.duplicates,
+        balance: data.balance,
+        markedCleared: data.markedCleared,
         tip: '✨ Your transactions are now in YNAB!',
         showResetButton: true,
         budgetId: selectedBudgetId,
@@ -279,6 +518,41 @@ async function loadBudgets() {
   }
 }
 
+async function loadBanks() {
+  try {
+    const response = await fetch('/api/banks');
+    const data = await response.json();
+
+    if (response.ok && Array.isArray(data.banks)) {
+      bankNames = data.banks;
+      bankList.replaceChildren(
+        ...bankNames.map((name) => {
+          const option = document.createElement('option');
+          option.value = name;
+          return option;
+        })
+      );
+    }
+  } catch (error) {
+    console.error('Error loading bank formats:', error);
+  }
+}
+
+function budgetQuery(): string {
+  return selectedBudgetId ? `&budgetId=${encodeURIComponent(selectedBudgetId)}` : '';
+}
+
+function accountQuery(): string {
+  return selectedAccountId ? `&accountId=${encodeURIComponent(selectedAccountId)}` : '';
+}
+
+function formatQuery(): string {
+  if (selectedFormat) {
+    return `&format=${encodeURIComponent(JSON.stringify(selectedFormat))}`;
+  }
+  return selectedBank ? `&bank=${encodeURIComponent(selectedBank)}` : '';
+}
+
 async function loadAccounts(budgetId: string) {
   try {
     accountSelect.innerHTML = '<option value="">Loading accounts...</option>';
@@ -321,10 +595,18 @@ async function loadAccounts(budgetId: string) {
 }
 
 async function handleFile(file: File) {
-  if (!file.name.endsWith('.csv')) {
+  const fileName = file.name.toLowerCase();
+  if (fileName.endsWith('.xls')) {
+    showResult('error', {
+      title: '❌ Invalid File',
+      message: 'Legacy Excel .xls files are not supported. Please save the file as .xlsx or CSV.',
+    });
+    return;
+  }
+  if (!SUPPORTED_EXTENSIONS.some((ext) => fileName.endsWith(ext))) {
     showResult('error', {
       title: '❌ Invalid File',
-      message: 'Please upload a CSV file',
+      message: `Please upload a ${SUPPORTED_EXTENSIONS.join(', ')} file`,
     });
     return;
   }
@@ -336,19 +618,26 @@ async function handleFile(file: File) {
     const formData = new FormData();
     formData.append('file', file);
 
-    const response = await fetch('/api/upload?dryRun=true', {
-      method: 'POST',
-      body: formData,
-    });
+    const response = await fetch(
+      `/api/upload?dryRun=true${budgetQuery()}${accountQuery()}${formatQuery()}`,
+      {
+        method: 'POST',
+        body: formData,
+      }
+    );
 
     const data: PreviewData = await response.json();
 
     if (response.ok && data.success) {
       _previewData = data;
       showPreview(data);
+    } else if (response.status === 422 && 'unknownFormat' in data) {
+      // No format matches: let the user map the columns
+      _previewData = null;
+      await openMapping();
     } else {
       showResult('error', {
-        title: '❌ Error Parsing CSV',
+        title: '❌ Error Parsing File',
         message:
           typeof data === 'object' && data && 'error' in data && typeof data.error === 'string'
             ? data.error
@@ -363,12 +652,45 @@ async function handleFile(file: File) {
   }
 }
 
+// Statement text ends up in innerHTML; Excel files skip the server's text checks
+function escapeHtml(value: string): string {
+  return value.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char] as string
+  );
+}
+
 function showPreview(data: PreviewData) {
   const { count, preview: previewTransactions } = data;
 
+  const confidence =
+    data.confidence === undefined ? '' : ` (${Math.round(data.confidence * 100)}% confidence)`;
+  const alternatives = (data.candidates || [])
+    .filter((candidate) => candidate.name !== data.format)
+    .map(
+      (candidate) => `${escapeHtml(candidate.name)} (${Math.round(candidate.confidence * 100)}%)`
+    )
+    .join(', ');
+  const { changed = 0, skipped = 0 } = data.rules || {};
+  const rulesSummary = changed > 0 || skipped > 0 ? `${changed} changed, ${skipped} skipped` : '';
+  const duplicateSummary = data.duplicates
+    ? `${data.duplicates.duplicate} duplicates, ${data.duplicates.probable} probable matches`
+    : '';
+  const skippedRowsSummary = (data.skippedRows || [])
+    .map((skipped) => `row ${skipped.row} (${escapeHtml(skipped.reason)})`)
+    .join(', ');
+
   let html = `
     <div class="mb-4 p-4 bg-white dark:bg-gray-800 rounded-lg">
       <strong class="text-gray-900 dark:text-gray-100">Total transactions:</strong> <span class="text-gray-900 dark:text-gray-100">${count}</span>
+      <div class="text-sm text-gray-600 dark:text-gray-400 mt-1">Format: ${escapeHtml(data.format)}${confidence}</div>
+      ${alternatives ? `<div class="text-sm text-gray-500 dark:text-gray-400">Other possible formats: ${alternatives}</div>` : ''}
+      ${rulesSummary ? `<div class="text-sm text-gray-600 dark:text-gray-400">Rules: ${rulesSummary}</div>` : ''}
+      ${data.importIdStrategy ? `<div class="text-sm text-gray-600 dark:text-gray-400">Import IDs: ${escapeHtml(data.importIdStrategy)}</div>` : ''}
+      ${data.closingBalance ? `<div class="text-sm text-gray-600 dark:text-gray-400">Closing balance: ${data.closingBalance.amount.toFixed(2)} ${escapeHtml(data.closingBalance.currency || '')} on ${escapeHtml(data.closingBalance.date)}</div>` : ''}
+      ${duplicateSummary ? `<div class="text-sm text-gray-600 dark:text-gray-400">Already in YNAB: ${duplicateSummary}</div>` : ''}
+      ${skippedRowsSummary ? `<div class="text-sm text-red-600 dark:text-red-400">Unreadable rows left out: ${skippedRowsSummary}</div>` : ''}
     </div>
   `;
 
@@ -383,8 +705,12 @@ function showPreview(data: PreviewData) {
 
     html += `
       <div class="flex justify-between items-center py-3 border-b border-gray-200 dark:border-gray-700 last:border-0">
-        <span class="font-semibold min-w-[100px] dark:text-gray-100">${tx.date}</span>
-        <span class="flex-1 px-4 text-gray-600 dark:text-gray-300">${tx.payee || 'No payee'}</span>
+        <span class="font-semibold min-w-[100px] dark:text-gray-100">${escapeHtml(tx.date)}</span>
+        <span class="flex-1 px-4 text-gray-600 dark:text-gray-300">
+          ${escapeHtml(tx.payee || 'No payee')}
+          ${tx.status && tx.status !== 'new' ? `<span class="ml-1 px-1 text-xs rounded bg-yellow-100 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-100">${DUPLICATE_LABELS[tx.status]}</span>` : ''}
+          ${tx.category || tx.flag ? `<span class="block text-xs text-gray-500 dark:text-gray-400">${escapeHtml([tx.category, tx.flag && `${tx.flag} flag`].filter(Boolean).join(' · '))}</span>` : ''}
+        </span>
         <span class="font-semibold min-w-[100px] text-right ${amountClass}">${amountStr}</span>
       </div>
     `;
@@ -402,6 +728,107 @@ function showPreview(data: PreviewData) {
   preview.classList.remove('hidden');
   dropZone.style.display = 'none';
   result.classList.add('hidden');
+  showCategoryMapping(data.unmatchedCategories || []);
+  showDuplicates(data.duplicates?.rows || []);
+  // Balances are compared after uploading, when there is one to compare with
+  markClearedOption.classList.toggle('hidden', !data.closingBalance);
+}
+
+const DUPLICATE_LABELS = { duplicate: 'already in YNAB', probable: 'probable match' };
+
+function showDuplicates(rows: DuplicateRow[]) {
+  // Row numbers change when the preview is rebuilt
+  excludedRows = new Set();
+  duplicateCheck.classList.toggle('hidden', rows.length === 0);
+
+  const formatAmount = (amount: number) =>
+    `${currencyFormat.symbol}${amount.toFixed(currencyFormat.decimal_digits)}`;
+  duplicateCheckList.replaceChildren(
+    ...rows.map((row) => {
+      const label = document.createElement('label');
+      label.className = 'flex items-start gap-2 text-sm text-gray-900 dark:text-gray-100';
+
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.checked = true;
+      checkbox.className = 'mt-1';
+      checkbox.addEventListener('change', () => {
+        if (checkbox.checked) {
+          excludedRows.delete(row.row);
+        } else {
+          excludedRows.add(row.row);
+        }
+      });
+
+      const text = document.createElement('span');
+      text.className = 'flex-1';
+      const match = row.match
+        ? ` — ${DUPLICATE_LABELS[row.status]}: ${row.match.date} ${row.match.payee || 'No payee'} ${formatAmount(row.match.amount)}`
+        : '';
+      text.textContent = `${row.row}. ${row.date} ${row.payee || 'No payee'} ${formatAmount(row.amount)}${match}`;
+
+      label.append(checkbox, text);
+      return label;
+    })
+  );
+}
+
+async function showCategoryMapping(names: string[]) {
+  categoryMapping.classList.add('hidden');
+  if (names.length === 0 || !selectedBudgetId) return;
+
+  let categories: Category[];
+  try {
+    const response = await fetch(
+      `/api/categories?budgetId=${encodeURIComponent(selectedBudgetId)}`
+    );
+    const data = await response.json();
+    if (!response.ok || !Array.isArray(data.categories)) {
+      throw new Error(typeof data.error === 'string' ? data.error : 'Unknown error occurred');
+    }
+    categories = data.categories;
+  } catch (error) {
+    console.error('Error loading categories:', error);
+    return;
+  }
+
+  // One select per name, with the budget's categories grouped like in YNAB
+  const groups = [...new Set(categories.map((category) => category.group))];
+  categoryMappingList.replaceChildren(
+    ...names.map((name) => {
+      const label = document.createElement('label');
+      label.className = 'flex items-center gap-2 text-sm text-gray-900 dark:text-gray-100';
+      const title = document.createElement('span');
+      title.className = 'flex-1 font-semibold';
+      title.textContent = name;
+
+      const select = document.createElement('select');
+      select.className = 'flex-1 p-1 border-2 rounded';
+      const none = document.createElement('option');
+      none.value = '';
+      none.textContent = 'Leave uncategorized';
+      select.appendChild(none);
+      for (const group of groups) {
+        const optgroup = document.createElement('optgroup');
+        optgroup.label = group;
+        for (const category of categories.filter((option) => option.group === group)) {
+          const option = document.createElement('option');
+          option.value = category.id;
+          option.textContent = category.name;
+          optgroup.appendChild(option);
+        }
+        select.appendChild(optgroup);
+      }
+      select.value = categoryMap[name] || '';
+      select.addEventListener('change', () => {
+        categoryMap[name] = select.value;
+      });
+
+      label.append(title, select);
+      return label;
+    })
+  );
+  categoryMapping.classList.remove('hidden');
 }
 
 function showResult(
@@ -410,6 +837,8 @@ function showResult(
     title?: string;
     message?: string;
     duplicates?: number;
+    balance?: BalanceCheck;
+    markedCleared?: number;
     tip?: string;
     showResetButton?: boolean;
     budgetId?: string | null;
@@ -455,6 +884,21 @@ function showResult(
     result.appendChild(duplicateP);
   }
 
+  // Add the balance check for success
+  if (data.balance) {
+    const { date, currency, statement, ynab, difference, matches } = data.balance;
+    const unit = currency ? ` ${currency}` : '';
+    const balanceP = document.createElement('p');
+    balanceP.className = `text-sm mb-2 ${matches ? 'opacity-80' : 'font-semibold'}`;
+    balanceP.textContent = matches
+      ? `✓ YNAB matches the statement balance of ${statement.toFixed(2)}${unit} on ${date}`
+      : `⚠️ Statement balance on ${date} is ${statement.toFixed(2)}${unit}, YNAB shows ${ynab.toFixed(2)}${unit} (difference ${difference.toFixed(2)})`;
+    if (data.markedCleared) {
+      balanceP.textContent += `, ${data.markedCleared} transaction(s) marked cleared`;
+    }
+    result.appendChild(balanceP);
+  }
+
   // Add tip for success
   if (data.tip) {
     const tipP = document.createElement('p');
@@ -510,9 +954,196 @@ function showResult(
   }
 }
 
+async function fetchMapping(format?: CustomFormat): Promise<MappingData> {
+  if (!currentFile) {
+    throw new Error('No file selected');
+  }
+
+  const params = new URLSearchParams();
+  if (mappingDelimiter) {
+    params.set('delimiter', mappingDelimiter);
+  }
+  if (format) {
+    params.set('format', JSON.stringify(format));
+  }
+
+  const formData = new FormData();
+  formData.append('file', currentFile);
+  const response = await fetch(`/api/mapping?${params}`, { method: 'POST', body: formData });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(typeof data.error === 'string' ? data.error : 'Unknown error occurred');
+  }
+  return data;
+}
+
+async function openMapping() {
+  mappingDelimiter = null;
+  try {
+    applyMappingSample(await fetchMapping());
+  } catch (error) {
+    showResult('error', {
+      title: '❌ Error Reading File',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+    return;
+  }
+
+  // Statement downloads usually differ only by date or sequence number
+  mappingPattern.value = (currentFile?.name || '')
+    .replace(/\.[^.]+$/, '')
+    .replace(/[\d_\-\s()]+$/, '');
+
+  mapping.classList.remove('hidden');
+  preview.classList.add('hidden');
+  dropZone.style.display = 'none';
+  result.classList.add('hidden');
+  scheduleMappingPreview();
+}
+
+function applyMappingSample(data: MappingData) {
+  mappingRows = data.rows;
+  mappingDelimiter = data.delimiter;
+  mappingColumns = data.suggestion.columns;
+
+  // Excel sheets come split into cells already
+  mappingDelimiterSelect.disabled = data.delimiter === null;
+  if (data.delimiter) {
+    mappingDelimiterSelect.value = data.delimiter;
+  }
+  mappingHeaderRows.value = String(data.suggestion.headerRows);
+  mappingDateFormat.value = data.suggestion.dateFormat || '';
+  dateFormatList.replaceChildren(
+    ...data.dateFormats.map((format) => {
+      const option = document.createElement('option');
+      option.value = format;
+      return option;
+    })
+  );
+
+  renderMappingTable();
+}
+
+function renderMappingTable() {
+  const headerRows = Number(mappingHeaderRows.value) || 0;
+  const table = document.createElement('table');
+  table.className = 'w-full text-sm text-gray-900 dark:text-gray-100';
+
+  const fieldRow = document.createElement('tr');
+  mappingColumns.forEach((field, index) => {
+    const cell = document.createElement('th');
+    cell.className = 'p-1';
+    const select = document.createElement('select');
+    select.className = 'w-full p-1 border-2 rounded';
+    select.setAttribute('aria-label', `Column ${index + 1}`);
+    for (const name of MAPPING_FIELDS) {
+      const option = document.createElement('option');
+      option.value = name;
+      option.textContent = name;
+      select.appendChild(option);
+    }
+    select.value = field;
+    select.addEventListener('change', () => {
+      mappingColumns[index] = select.value;
+      scheduleMappingPreview();
+    });
+    cell.appendChild(select);
+    fieldRow.appendChild(cell);
+  });
+  table.appendChild(fieldRow);
+
+  mappingRows.slice(0, MAPPING_TABLE_ROWS).forEach((row, rowIndex) => {
+    const tr = document.createElement('tr');
+    // Header rows are skipped on import
+    tr.className =
+      rowIndex < headerRows
+        ? 'text-gray-400 dark:text-gray-500 italic'
+        : 'border-t border-gray-200 dark:border-gray-700';
+    mappingColumns.forEach((_field, index) => {
+      const cell = document.createElement('td');
+      cell.className = 'p-1 whitespace-nowrap';
+      cell.textContent = row[index] || '';
+      tr.appendChild(cell);
+    });
+    table.appendChild(tr);
+  });
+
+  mappingTable.replaceChildren(table);
+}
+
+function currentMappingFormat(): CustomFormat {
+  return {
+    name: mappingName.value.trim() || 'Custom mapping',
+    pattern: '',
+    delimiter: mappingDelimiter || undefined,
+    headerRows: Number(mappingHeaderRows.value) || 0,
+    footerRows: Number(mappingFooterRows.value) || 0,
+    columns: mappingColumns,
+    dateFormat: mappingDateFormat.value.trim() || undefined,
+    invertAmounts: mappingInvert.checked,
+  };
+}
+
+// Debounced, as the file is sent again for every preview
+function scheduleMappingPreview() {
+  clearTimeout(mappingTimer);
+  mappingTimer = setTimeout(refreshMappingPreview, 300);
+}
+
+async function refreshMappingPreview() {
+  const format = currentMappingFormat();
+  const hasAmount = format.columns.some((field) => ['Amount', 'Inflow', 'Outflow'].includes(field));
+  if (!format.columns.includes('Date') || !hasAmount) {
+    mappingPreview.textContent = 'Pick a Date column and an Amount, Inflow or Outflow column.';
+    mappingApplyBtn.disabled = true;
+    return;
+  }
+
+  try {
+    const data = await fetchMapping(format);
+    const transactions = data.preview || [];
+    mappingApplyBtn.disabled = transactions.length === 0;
+
+    const summary = document.createElement('div');
+    summary.className = 'mb-2 font-semibold text-gray-900 dark:text-gray-100';
+    summary.textContent = `${data.count || 0} transactions`;
+    const rows = transactions.map((tx) => {
+      const row = document.createElement('div');
+      row.className =
+        'flex justify-between py-1 border-b border-gray-200 dark:border-gray-700 dark:text-gray-100';
+      for (const text of [tx.date, tx.payee || 'No payee', tx.amount.toFixed(2)]) {
+        const span = document.createElement('span');
+        span.textContent = text;
+        row.appendChild(span);
+      }
+      return row;
+    });
+    mappingPreview.replaceChildren(summary, ...rows);
+  } catch (error) {
+    mappingApplyBtn.disabled = true;
+    mappingPreview.textContent = error instanceof Error ? error.message : 'Unknown error occurred';
+  }
+}
+
+function showMappingError(error: unknown) {
+  mappingPreview.textContent = error instanceof Error ? error.message : 'Unknown error occurred';
+}
+
 function resetUI() {
   currentFile = null;
   _previewData = null;
+  selectedBank = null;
+  selectedFormat = null;
+  categoryMap = {};
+  excludedRows = new Set();
+  clearTimeout(mappingTimer);
+  mapping.classList.add('hidden');
+  categoryMapping.classList.add('hidden');
+  duplicateCheck.classList.add('hidden');
+  markClearedOption.classList.add('hidden');
+  markCleared.checked = false;
+  bankInput.value = '';
   preview.classList.add('hidden');
   dropZone.style.display = 'block';
   fileInput.value = '';